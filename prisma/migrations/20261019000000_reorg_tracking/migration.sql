@@ -0,0 +1,30 @@
+-- CreateTable (missing from the init migration)
+CREATE TABLE IF NOT EXISTS "sync_status" (
+    "id" SERIAL NOT NULL,
+    "sync_type" VARCHAR(50) NOT NULL,
+    "last_processed_block" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sync_status_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "sync_status_sync_type_key" ON "sync_status"("sync_type");
+
+-- AlterTable
+ALTER TABLE "nft_info" ADD COLUMN "last_event_block" INTEGER;
+
+-- CreateTable
+CREATE TABLE "sync_block" (
+    "id" SERIAL NOT NULL,
+    "sync_type" VARCHAR(50) NOT NULL,
+    "block_number" INTEGER NOT NULL,
+    "block_hash" VARCHAR(66) NOT NULL,
+    "parent_hash" VARCHAR(66),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sync_block_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_block_sync_type_block_number_key" ON "sync_block"("sync_type", "block_number");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "transfer_event" (
+    "id" SERIAL NOT NULL,
+    "block_number" INTEGER NOT NULL,
+    "block_hash" VARCHAR(66) NOT NULL,
+    "transaction_hash" VARCHAR(66) NOT NULL,
+    "log_index" INTEGER NOT NULL,
+    "from_address" VARCHAR(42) NOT NULL,
+    "to_address" VARCHAR(42) NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "block_timestamp" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transfer_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfer_event_transaction_hash_log_index_key" ON "transfer_event"("transaction_hash", "log_index");
+
+-- CreateIndex
+CREATE INDEX "transfer_event_token_id_block_number_log_index_idx" ON "transfer_event"("token_id", "block_number", "log_index");
+
+-- CreateIndex
+CREATE INDEX "transfer_event_block_number_idx" ON "transfer_event"("block_number");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "nft_info" ADD COLUMN "soulbound_token_id" INTEGER,
+ADD COLUMN "box_type_reason" VARCHAR(32);
@@ -0,0 +1,121 @@
+-- CreateTable
+CREATE TABLE "collection" (
+    "id" SERIAL NOT NULL,
+    "slug" VARCHAR(64) NOT NULL,
+    "name" VARCHAR(128) NOT NULL,
+    "chain_id" INTEGER NOT NULL,
+    "address" VARCHAR(42) NOT NULL,
+    "abi_profile" VARCHAR(32) NOT NULL,
+    "max_supply" INTEGER NOT NULL,
+    "mint_price" VARCHAR(78) NOT NULL DEFAULT '0',
+    "soulbound_start_time" TIMESTAMP(3),
+    "soulbound_end_time" TIMESTAMP(3),
+    "public_start_time" TIMESTAMP(3),
+    "public_end_time" TIMESTAMP(3),
+    "box_types" JSONB NOT NULL,
+    "public_box_type_id" SMALLINT NOT NULL,
+    "start_block" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "collection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_slug_key" ON "collection"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_chain_id_address_key" ON "collection"("chain_id", "address");
+
+-- Existing data belongs to the original PhaseThreeAvatar deployment
+INSERT INTO "collection" (
+    "id", "slug", "name", "chain_id", "address", "abi_profile", "max_supply", "mint_price",
+    "soulbound_start_time", "soulbound_end_time", "public_start_time", "public_end_time",
+    "box_types", "public_box_type_id"
+) VALUES (
+    1, 'rog-avatar', 'ROG Avatar', 1, '0x471C2c840B69EB92523B1De0EEA791Ae1359AFd7', 'phase-three-avatar', 6020, '0',
+    '2025-09-22 08:00:00', '2025-10-16 07:59:59.999', '2025-10-20 04:00:00', '2222-12-31 00:00:00',
+    '[{"id": 0, "name": "金盒 (Gold Box)"}, {"id": 1, "name": "紅盒 (Red Box)"}, {"id": 2, "name": "藍盒 (Blue Box)"}, {"id": 3, "name": "公售盒 (Public Sale Box)"}]',
+    3
+);
+
+SELECT setval(pg_get_serial_sequence('collection', 'id'), 1);
+
+-- AlterTable
+ALTER TABLE "random_seed_info" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "random_seed_info" ALTER COLUMN "collection_id" DROP DEFAULT;
+DROP INDEX "random_seed_info_random_seed_key";
+CREATE UNIQUE INDEX "random_seed_info_collection_id_random_seed_key" ON "random_seed_info"("collection_id", "random_seed");
+
+-- AlterTable
+ALTER TABLE "nft_info" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "nft_info" ALTER COLUMN "collection_id" DROP DEFAULT;
+ALTER TABLE "nft_info" DROP CONSTRAINT "nft_info_pkey",
+ADD CONSTRAINT "nft_info_pkey" PRIMARY KEY ("collection_id", "token_id");
+CREATE INDEX "nft_info_collection_id_metadata_id_idx" ON "nft_info"("collection_id", "metadata_id");
+
+-- AlterTable
+ALTER TABLE "origin_metadata_info" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "origin_metadata_info" ALTER COLUMN "collection_id" DROP DEFAULT;
+ALTER TABLE "origin_metadata_info" DROP CONSTRAINT "origin_metadata_info_pkey",
+ADD CONSTRAINT "origin_metadata_info_pkey" PRIMARY KEY ("collection_id", "origin_id");
+
+-- AlterTable
+ALTER TABLE "unreveal_metadata_info" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "unreveal_metadata_info" ALTER COLUMN "collection_id" DROP DEFAULT;
+ALTER TABLE "unreveal_metadata_info" DROP CONSTRAINT "unreveal_metadata_info_pkey",
+ADD CONSTRAINT "unreveal_metadata_info_pkey" PRIMARY KEY ("collection_id", "box_type_id");
+
+-- AlterTable
+ALTER TABLE "phase2_holders" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "phase2_holders" ALTER COLUMN "collection_id" DROP DEFAULT;
+ALTER TABLE "phase2_holders" ALTER COLUMN "id" DROP DEFAULT;
+DROP SEQUENCE IF EXISTS "phase2_holders_id_seq";
+ALTER TABLE "phase2_holders" DROP CONSTRAINT "phase2_holders_pkey",
+ADD CONSTRAINT "phase2_holders_pkey" PRIMARY KEY ("collection_id", "id");
+
+-- AlterTable
+ALTER TABLE "sync_status" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "sync_status" ALTER COLUMN "collection_id" DROP DEFAULT;
+DROP INDEX "sync_status_sync_type_key";
+CREATE UNIQUE INDEX "sync_status_collection_id_sync_type_key" ON "sync_status"("collection_id", "sync_type");
+
+-- AlterTable
+ALTER TABLE "sync_block" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "sync_block" ALTER COLUMN "collection_id" DROP DEFAULT;
+DROP INDEX "sync_block_sync_type_block_number_key";
+CREATE UNIQUE INDEX "sync_block_collection_id_sync_type_block_number_key" ON "sync_block"("collection_id", "sync_type", "block_number");
+
+-- AlterTable
+ALTER TABLE "transfer_event" ADD COLUMN "collection_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "transfer_event" ALTER COLUMN "collection_id" DROP DEFAULT;
+DROP INDEX "transfer_event_transaction_hash_log_index_key";
+DROP INDEX "transfer_event_token_id_block_number_log_index_idx";
+DROP INDEX "transfer_event_block_number_idx";
+CREATE UNIQUE INDEX "transfer_event_collection_id_transaction_hash_log_index_key" ON "transfer_event"("collection_id", "transaction_hash", "log_index");
+CREATE INDEX "transfer_event_collection_id_token_id_block_number_log_index_idx" ON "transfer_event"("collection_id", "token_id", "block_number", "log_index");
+CREATE INDEX "transfer_event_collection_id_block_number_idx" ON "transfer_event"("collection_id", "block_number");
+
+-- AddForeignKey
+ALTER TABLE "random_seed_info" ADD CONSTRAINT "random_seed_info_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "nft_info" ADD CONSTRAINT "nft_info_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "origin_metadata_info" ADD CONSTRAINT "origin_metadata_info_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "unreveal_metadata_info" ADD CONSTRAINT "unreveal_metadata_info_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "phase2_holders" ADD CONSTRAINT "phase2_holders_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sync_status" ADD CONSTRAINT "sync_status_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sync_block" ADD CONSTRAINT "sync_block_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_event" ADD CONSTRAINT "transfer_event_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable: per-collection confirmation override
+ALTER TABLE "collection" ADD COLUMN "confirmations" INTEGER;
+
+-- AlterTable: sync checkpoints are kept per chain
+ALTER TABLE "sync_status" ADD COLUMN "chain_id" INTEGER;
+UPDATE "sync_status" SET "chain_id" = "collection"."chain_id" FROM "collection" WHERE "collection"."id" = "sync_status"."collection_id";
+ALTER TABLE "sync_status" ALTER COLUMN "chain_id" SET NOT NULL;
+DROP INDEX "sync_status_collection_id_sync_type_key";
+CREATE UNIQUE INDEX "sync_status_collection_id_chain_id_sync_type_key" ON "sync_status"("collection_id", "chain_id", "sync_type");
+
+-- AlterTable: block hashes for reorg detection are chain specific
+ALTER TABLE "sync_block" ADD COLUMN "chain_id" INTEGER;
+UPDATE "sync_block" SET "chain_id" = "collection"."chain_id" FROM "collection" WHERE "collection"."id" = "sync_block"."collection_id";
+ALTER TABLE "sync_block" ALTER COLUMN "chain_id" SET NOT NULL;
+DROP INDEX "sync_block_collection_id_sync_type_block_number_key";
+CREATE UNIQUE INDEX "sync_block_collection_id_chain_id_sync_type_block_number_key" ON "sync_block"("collection_id", "chain_id", "sync_type", "block_number");
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "scheduler_lease" (
+    "name" VARCHAR(64) NOT NULL,
+    "holder" VARCHAR(128) NOT NULL,
+    "acquired_at" TIMESTAMP(3) NOT NULL,
+    "renewed_at" TIMESTAMP(3) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduler_lease_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "random_seed_info" ADD COLUMN "mapping_cursor" INTEGER NOT NULL DEFAULT 0;
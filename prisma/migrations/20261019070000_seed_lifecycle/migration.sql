@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "collection" ADD COLUMN "reveal_start_time" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "random_seed_info" ADD COLUMN "state" VARCHAR(32) NOT NULL DEFAULT 'seed_observed',
+ADD COLUMN "state_updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "last_error" TEXT;
+
+-- Seeds whose mappings were already generated resume at verification
+UPDATE "random_seed_info" SET "state" = 'mappings_generating' WHERE "mappings_generated" = true;
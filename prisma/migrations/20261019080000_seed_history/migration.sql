@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "nft_info" ADD COLUMN "random_seed_id" INTEGER;
+
+-- Existing mappings come from the collection's latest seed
+UPDATE "nft_info" AS n
+SET "random_seed_id" = s."id"
+FROM (
+    SELECT DISTINCT ON ("collection_id") "id", "collection_id"
+    FROM "random_seed_info"
+    ORDER BY "collection_id", "synced_at" DESC
+) AS s
+WHERE n."collection_id" = s."collection_id" AND n."metadata_id" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "nft_info_collection_id_random_seed_id_idx" ON "nft_info"("collection_id", "random_seed_id");
+
+-- CreateTable
+CREATE TABLE "metadata_remap" (
+    "id" SERIAL NOT NULL,
+    "collection_id" INTEGER NOT NULL,
+    "random_seed_id" INTEGER NOT NULL,
+    "previous_seed_id" INTEGER,
+    "token_id" INTEGER NOT NULL,
+    "before_metadata_id" INTEGER NOT NULL,
+    "after_metadata_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "metadata_remap_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "metadata_remap_collection_id_random_seed_id_idx" ON "metadata_remap"("collection_id", "random_seed_id");
+
+-- AddForeignKey
+ALTER TABLE "metadata_remap" ADD CONSTRAINT "metadata_remap_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
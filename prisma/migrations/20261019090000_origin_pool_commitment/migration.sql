@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "origin_pool_commitment" (
+    "collection_id" INTEGER NOT NULL,
+    "box_type_id" SMALLINT NOT NULL,
+    "merkle_root" VARCHAR(66) NOT NULL,
+    "leaf_count" INTEGER NOT NULL,
+    "locked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "origin_pool_commitment_pkey" PRIMARY KEY ("collection_id","box_type_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "origin_pool_commitment" ADD CONSTRAINT "origin_pool_commitment_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "reveal_nonce" (
+    "id" SERIAL NOT NULL,
+    "collection_id" INTEGER NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "owner" VARCHAR(42) NOT NULL,
+    "nonce" VARCHAR(66) NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reveal_nonce_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reveal_nonce_nonce_key" ON "reveal_nonce"("nonce");
+
+-- CreateIndex
+CREATE INDEX "reveal_nonce_collection_id_token_id_idx" ON "reveal_nonce"("collection_id", "token_id");
+
+-- AddForeignKey
+ALTER TABLE "reveal_nonce" ADD CONSTRAINT "reveal_nonce_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
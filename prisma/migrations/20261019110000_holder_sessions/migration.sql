@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "siwe_nonce" (
+    "nonce" VARCHAR(96) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "siwe_nonce_pkey" PRIMARY KEY ("nonce")
+);
+
+-- CreateTable
+CREATE TABLE "holder_session" (
+    "id" SERIAL NOT NULL,
+    "token_hash" VARCHAR(66) NOT NULL,
+    "address" VARCHAR(42) NOT NULL,
+    "chain_id" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "holder_session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "holder_session_token_hash_key" ON "holder_session"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "holder_session_address_idx" ON "holder_session"("address");
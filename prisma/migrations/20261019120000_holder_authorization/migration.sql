@@ -0,0 +1,53 @@
+-- AlterTable: nonces issued before delegation support were signed by the owner
+ALTER TABLE "reveal_nonce" ADD COLUMN "signer" VARCHAR(42);
+UPDATE "reveal_nonce" SET "signer" = "owner";
+ALTER TABLE "reveal_nonce" ALTER COLUMN "signer" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "holder_session" ADD COLUMN "signature_type" VARCHAR(16) NOT NULL DEFAULT 'ecdsa';
+
+-- CreateTable
+CREATE TABLE "wallet_delegation" (
+    "collection_id" INTEGER NOT NULL,
+    "vault" VARCHAR(42) NOT NULL,
+    "delegate" VARCHAR(42) NOT NULL,
+    "scope" VARCHAR(16) NOT NULL,
+    "token_id" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL,
+    "block_number" INTEGER NOT NULL,
+    "transaction_hash" VARCHAR(66) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_delegation_pkey" PRIMARY KEY ("collection_id","vault","delegate","scope","token_id")
+);
+
+-- CreateTable
+CREATE TABLE "holder_authorization" (
+    "id" SERIAL NOT NULL,
+    "collection_id" INTEGER NOT NULL,
+    "action" VARCHAR(32) NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "owner" VARCHAR(42) NOT NULL,
+    "signer" VARCHAR(42) NOT NULL,
+    "path" VARCHAR(16) NOT NULL,
+    "signature_type" VARCHAR(16) NOT NULL,
+    "session_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "holder_authorization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "wallet_delegation_collection_id_delegate_idx" ON "wallet_delegation"("collection_id", "delegate");
+
+-- CreateIndex
+CREATE INDEX "holder_authorization_collection_id_token_id_idx" ON "holder_authorization"("collection_id", "token_id");
+
+-- CreateIndex
+CREATE INDEX "holder_authorization_signer_idx" ON "holder_authorization"("signer");
+
+-- AddForeignKey
+ALTER TABLE "wallet_delegation" ADD CONSTRAINT "wallet_delegation_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "holder_authorization" ADD CONSTRAINT "holder_authorization_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
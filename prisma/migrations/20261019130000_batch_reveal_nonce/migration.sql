@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "reveal_nonce" ALTER COLUMN "token_id" DROP NOT NULL,
+ADD COLUMN "token_ids" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "mass_reveal_job" (
+    "id" SERIAL NOT NULL,
+    "collection_id" INTEGER NOT NULL,
+    "box_type_id" INTEGER,
+    "scheduled_at" TIMESTAMP(3) NOT NULL,
+    "status" VARCHAR(16) NOT NULL DEFAULT 'scheduled',
+    "cursor" INTEGER NOT NULL DEFAULT 0,
+    "total_tokens" INTEGER,
+    "revealed_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mass_reveal_job_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mass_reveal_job_collection_id_status_idx" ON "mass_reveal_job"("collection_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "mass_reveal_job" ADD CONSTRAINT "mass_reveal_job_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "collection" ADD COLUMN "allocation_policy" VARCHAR(16) NOT NULL DEFAULT 'uniform',
+ADD COLUMN "allocation_quotas" JSONB;
+
+-- AlterTable
+ALTER TABLE "origin_metadata_info" ADD COLUMN "rarity_tier" VARCHAR(32);
+
+-- Backfill tiers from the default rarity trait (RARITY_TRAIT_TYPE=Rarity)
+UPDATE "origin_metadata_info" SET "rarity_tier" = LEFT((
+    SELECT "attribute"->>'value'
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof("metadata"->'attributes') = 'array' THEN "metadata"->'attributes' ELSE '[]'::jsonb END) AS "attribute"
+    WHERE "attribute"->>'trait_type' = 'Rarity'
+    LIMIT 1
+), 32);
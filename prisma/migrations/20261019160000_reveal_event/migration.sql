@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "reveal_event" (
+    "id" SERIAL NOT NULL,
+    "collection_id" INTEGER NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "box_type_id" SMALLINT NOT NULL,
+    "action" VARCHAR(16) NOT NULL,
+    "owner" VARCHAR(42),
+    "signer" VARCHAR(42),
+    "signature" TEXT,
+    "origin_id" INTEGER,
+    "previous_origin_id" INTEGER,
+    "policy" VARCHAR(16),
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reveal_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reveal_event_collection_id_token_id_idx" ON "reveal_event"("collection_id", "token_id");
+
+-- AddForeignKey
+ALTER TABLE "reveal_event" ADD CONSTRAINT "reveal_event_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
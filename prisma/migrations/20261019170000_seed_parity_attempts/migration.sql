@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "random_seed_info" ADD COLUMN "parity_attempts" INTEGER NOT NULL DEFAULT 0;
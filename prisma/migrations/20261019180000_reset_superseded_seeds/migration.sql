@@ -0,0 +1,14 @@
+-- Seeds that are no longer current had their metadataIds overwritten by a later seed;
+-- reset their progress so one that comes back is mapped again
+UPDATE "random_seed_info" AS r
+SET "mappings_generated" = false,
+    "mapping_cursor" = 0,
+    "state" = 'seed_observed',
+    "state_updated_at" = CURRENT_TIMESTAMP,
+    "last_error" = NULL,
+    "parity_attempts" = 0
+WHERE r."id" NOT IN (
+    SELECT DISTINCT ON ("collection_id") "id"
+    FROM "random_seed_info"
+    ORDER BY "collection_id", "synced_at" DESC
+);
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "origin_pool_commitment" ADD COLUMN "origin_commitment" VARCHAR(66);
+
+-- AlterTable
+ALTER TABLE "reveal_event" ADD COLUMN "random_seed" VARCHAR(78),
+ADD COLUMN "draw_attempt" INTEGER,
+ADD COLUMN "pool_commitment" VARCHAR(66);
@@ -0,0 +1,14 @@
+-- Sessions opened before they were scoped to a collection can't be attributed to one; holders sign in again
+DELETE FROM "holder_session";
+
+-- DropIndex
+DROP INDEX "holder_session_address_idx";
+
+-- AlterTable
+ALTER TABLE "holder_session" ADD COLUMN "collection_id" INTEGER NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "holder_session_collection_id_address_idx" ON "holder_session"("collection_id", "address");
+
+-- AddForeignKey
+ALTER TABLE "holder_session" ADD CONSTRAINT "holder_session_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "reveal_event" ADD COLUMN "actor" VARCHAR(64);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "mass_reveal_job" ADD COLUMN "skipped_count" INTEGER NOT NULL DEFAULT 0;
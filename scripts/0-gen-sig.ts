@@ -6,10 +6,12 @@ dotenv.config()
 
 const prisma = new PrismaClient()
 const wallet = new ethers.Wallet(process.env.SIGNER_PRIVATE_KEY as string)
+const COLLECTION_ID = parseInt(process.env.COLLECTION_ID || '1')
 console.log(`Wallet: ${wallet.address}`)
 async function main() {
   const emptyPhase2Holders = await prisma.phase2Holders.findMany({
     where: {
+      collectionId: COLLECTION_ID,
       signature: null
     },
     orderBy: {
@@ -65,6 +67,7 @@ async function generateAndStorePhase2Signature(
   // Update the Phase2Holders record with the signature
   await prisma.phase2Holders.updateMany({
     where: {
+      collectionId: COLLECTION_ID,
       userAddress,
       boxTypeId
     },
@@ -4,10 +4,12 @@ import { ethers } from "ethers";
 
 const prisma = new PrismaClient()
 const MAX_SUPPLY = 6020
+const COLLECTION_ID = parseInt(process.env.COLLECTION_ID || '1')
 async function main() {
   for (let i = 1; i <= MAX_SUPPLY; i++) {
     await prisma.nftInfo.create({
       data: {
+        collectionId: COLLECTION_ID,
         tokenId: i,
         boxTypeId: 1
       }
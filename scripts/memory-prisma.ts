@@ -0,0 +1,331 @@
+/**
+ * In-memory Prisma stand-in
+ *
+ * Enough of PrismaClient for harnesses to drive services without a
+ * database: the model methods the services call, where filters with the
+ * usual operators, interactive transactions that undo their writes when
+ * they throw, and `SELECT ... FOR UPDATE` row locks held until the
+ * transaction ends. Every call yields to the event loop first, so
+ * concurrent callers interleave the way they would against Postgres.
+ * Importing this module installs the stand-in as the shared client (see
+ * `src/config/database.ts`), so it must be imported before any service.
+ */
+
+import { PrismaClient } from '@prisma/client'
+
+type Row = Record<string, unknown>
+type Where = Record<string, unknown>
+
+interface ModelSpec {
+  // Primary key columns; composite keys are also looked up as `a_b`
+  keys: string[]
+  autoincrement?: boolean
+  defaults?: () => Row
+}
+
+const MODELS: Record<string, ModelSpec> = {
+  collection: {
+    keys: ['id'],
+    autoincrement: true,
+    defaults: () => ({ mintPrice: '0', startBlock: 0, confirmations: null, allocationPolicy: 'uniform', allocationQuotas: null, isActive: true })
+  },
+  nftInfo: {
+    keys: ['collectionId', 'tokenId'],
+    defaults: () => ({ metadataId: null, randomSeedId: null, userAddress: null, originId: 0, soulboundTokenId: null, boxTypeReason: null, lastEventBlock: null })
+  },
+  originMetadataInfo: { keys: ['collectionId', 'originId'], defaults: () => ({ rarityTier: null, isAssigned: false }) },
+  originPoolCommitment: { keys: ['collectionId', 'boxTypeId'], defaults: () => ({ originCommitment: null, lockedAt: new Date() }) },
+  randomSeedInfo: {
+    keys: ['id'],
+    autoincrement: true,
+    defaults: () => ({ blockNumber: null, transactionHash: null, syncedAt: new Date(), mappingsGenerated: false, mappingCursor: 0, state: 'seed_observed', stateUpdatedAt: new Date(), lastError: null, parityAttempts: 0 })
+  }
+}
+
+const OPERATORS = new Set(['equals', 'not', 'in', 'notIn', 'gt', 'gte', 'lt', 'lte'])
+
+function isOperatorFilter(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) &&
+    Object.keys(value).length > 0 && Object.keys(value).every(key => OPERATORS.has(key))
+}
+
+function same(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+  return a === b || (a === undefined && b === null) || (a === null && b === undefined)
+}
+
+function compare(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : a as number | string
+  const right = b instanceof Date ? b.getTime() : b as number | string
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+function matchesValue(value: unknown, filter: unknown): boolean {
+  if (!isOperatorFilter(filter)) {
+    return same(value, filter)
+  }
+  return Object.entries(filter).every(([operator, operand]) => {
+    switch (operator) {
+      case 'equals': return same(value, operand)
+      case 'not': return isOperatorFilter(operand) ? !matchesValue(value, operand) : !same(value, operand)
+      case 'in': return (operand as unknown[]).some(candidate => same(value, candidate))
+      case 'notIn': return !(operand as unknown[]).some(candidate => same(value, candidate))
+      case 'gt': return value !== null && compare(value, operand) > 0
+      case 'gte': return value !== null && compare(value, operand) >= 0
+      case 'lt': return value !== null && compare(value, operand) < 0
+      default: return value !== null && compare(value, operand) <= 0
+    }
+  })
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) {
+      return true
+    }
+    if (key === 'AND') {
+      return (filter as Where[]).every(inner => matches(row, inner))
+    }
+    if (key === 'OR') {
+      return (filter as Where[]).some(inner => matches(row, inner))
+    }
+    if (key === 'NOT') {
+      return !matches(row, filter as Where)
+    }
+    // Composite unique key, e.g. collectionId_tokenId
+    if (!(key in row) && key.includes('_') && typeof filter === 'object' && filter !== null) {
+      return matches(row, filter as Where)
+    }
+    return matchesValue(row[key], filter)
+  })
+}
+
+function pick(row: Row, select?: Record<string, boolean>): Row {
+  if (!select) {
+    return { ...row }
+  }
+  return Object.fromEntries(Object.keys(select).filter(key => select[key]).map(key => [key, row[key]]))
+}
+
+function applyData(row: Row, data: Row): void {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value)) {
+      const update = value as { set?: unknown; increment?: number; decrement?: number }
+      if ('increment' in update) {
+        row[key] = (row[key] as number) + (update.increment as number)
+        continue
+      }
+      if ('decrement' in update) {
+        row[key] = (row[key] as number) - (update.decrement as number)
+        continue
+      }
+      if ('set' in update) {
+        row[key] = update.set
+        continue
+      }
+    }
+    row[key] = value
+  }
+}
+
+function sortRows(rows: Row[], orderBy?: Record<string, 'asc' | 'desc'> | Array<Record<string, 'asc' | 'desc'>>): Row[] {
+  const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap(order => Object.entries(order)) : []
+  return [...rows].sort((a, b) => {
+    for (const [key, direction] of orders) {
+      const order = compare(a[key], b[key])
+      if (order !== 0) {
+        return direction === 'desc' ? -order : order
+      }
+    }
+    return 0
+  })
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve))
+
+/**
+ * A transaction's undo log and the row locks it holds
+ */
+class TransactionScope {
+  undo: Array<() => void> = []
+  locks: string[] = []
+  private resolveEnded!: () => void
+  ended = new Promise<void>(resolve => { this.resolveEnded = resolve })
+
+  end(): void {
+    this.resolveEnded()
+  }
+}
+
+interface FindArgs {
+  where?: Where
+  select?: Record<string, boolean>
+  orderBy?: Record<string, 'asc' | 'desc'> | Array<Record<string, 'asc' | 'desc'>>
+  distinct?: string[]
+  take?: number
+  skip?: number
+}
+
+export class MemoryPrisma {
+  private tables = new Map<string, Row[]>()
+  private sequences = new Map<string, number>()
+  private locks = new Map<string, TransactionScope>()
+
+  constructor(private scope: TransactionScope | null = null, root?: MemoryPrisma) {
+    if (root) {
+      this.tables = root.tables
+      this.sequences = root.sequences
+      this.locks = root.locks
+    }
+    // Model delegates are created on access, e.g. prisma.nftInfo
+    return new Proxy(this, {
+      get: (target, property, receiver) => {
+        if (typeof property === 'string' && !(property in target)) {
+          return target.model(property)
+        }
+        return Reflect.get(target, property, receiver)
+      }
+    })
+  }
+
+  async $transaction<T>(run: (tx: MemoryPrisma) => Promise<T>): Promise<T> {
+    const scope = new TransactionScope()
+    const tx = new MemoryPrisma(scope, this)
+    try {
+      return await run(tx)
+    } catch (error) {
+      scope.undo.reverse().forEach(undo => undo())
+      throw error
+    } finally {
+      scope.locks.forEach(key => this.locks.delete(key))
+      scope.end()
+    }
+  }
+
+  /**
+   * Row locks only: `SELECT ... FROM "table" WHERE ... FOR UPDATE` waits for the transaction holding the row
+   */
+  async $queryRaw(query: TemplateStringsArray, ...values: unknown[]): Promise<unknown[]> {
+    await tick()
+    const text = query.join('?')
+    if (!/FOR UPDATE/.test(text)) {
+      throw new Error(`Unsupported raw query: ${text}`)
+    }
+    if (!this.scope) {
+      return []
+    }
+    const key = `${text.match(/FROM "(\w+)"/)?.[1]}:${values.join(':')}`
+    for (let holder = this.locks.get(key); holder && holder !== this.scope; holder = this.locks.get(key)) {
+      await holder.ended
+    }
+    if (!this.locks.has(key)) {
+      this.locks.set(key, this.scope)
+      this.scope.locks.push(key)
+    }
+    return []
+  }
+
+  async $disconnect(): Promise<void> {}
+
+  private table(name: string): Row[] {
+    let rows = this.tables.get(name)
+    if (!rows) {
+      rows = []
+      this.tables.set(name, rows)
+    }
+    return rows
+  }
+
+  private record(undo: () => void): void {
+    this.scope?.undo.push(undo)
+  }
+
+  private model(name: string) {
+    const spec = MODELS[name] ?? { keys: ['id'], autoincrement: true }
+    const rows = () => this.table(name)
+
+    const findMany = async (args: FindArgs = {}): Promise<Row[]> => {
+      await tick()
+      let found = sortRows(rows().filter(row => matches(row, args.where)), args.orderBy)
+      if (args.distinct) {
+        const seen = new Set<string>()
+        found = found.filter(row => {
+          const key = JSON.stringify(args.distinct!.map(column => row[column]))
+          return seen.has(key) ? false : (seen.add(key), true)
+        })
+      }
+      found = found.slice(args.skip ?? 0, args.take !== undefined ? (args.skip ?? 0) + args.take : undefined)
+      return found.map(row => pick(row, args.select))
+    }
+
+    const updateRows = (where: Where | undefined, data: Row): Row[] => {
+      const updated = rows().filter(row => matches(row, where))
+      for (const row of updated) {
+        const before = { ...row }
+        applyData(row, data)
+        this.record(() => {
+          Object.keys(row).forEach(key => delete row[key])
+          Object.assign(row, before)
+        })
+      }
+      return updated
+    }
+
+    return {
+      findMany,
+      findFirst: async (args: FindArgs = {}) => (await findMany({ ...args, take: 1 }))[0] ?? null,
+      findUnique: async (args: FindArgs) => (await findMany({ ...args, take: 1 }))[0] ?? null,
+      count: async (args: { where?: Where } = {}) => (await findMany({ where: args.where })).length,
+      create: async (args: { data: Row; select?: Record<string, boolean> }) => {
+        await tick()
+        const row: Row = { createdAt: new Date(), ...spec.defaults?.(), ...args.data }
+        if (spec.autoincrement && row.id === undefined) {
+          row.id = (this.sequences.get(name) ?? 0) + 1
+        }
+        if (spec.autoincrement) {
+          this.sequences.set(name, Math.max(this.sequences.get(name) ?? 0, row.id as number))
+        }
+        const key = Object.fromEntries(spec.keys.map(column => [column, row[column]]))
+        if (rows().some(existing => matches(existing, key))) {
+          throw new Error(`Unique constraint failed on ${name} (${spec.keys.join(', ')})`)
+        }
+        rows().push(row)
+        this.record(() => rows().splice(rows().indexOf(row), 1))
+        return pick(row, args.select)
+      },
+      update: async (args: { where: Where; data: Row; select?: Record<string, boolean> }) => {
+        await tick()
+        const [row] = updateRows(args.where, args.data)
+        if (!row) {
+          throw new Error(`No ${name} record found to update`)
+        }
+        return pick(row, args.select)
+      },
+      updateMany: async (args: { where?: Where; data: Row }) => {
+        await tick()
+        return { count: updateRows(args.where, args.data).length }
+      },
+      deleteMany: async (args: { where?: Where } = {}) => {
+        await tick()
+        const deleted = rows().filter(row => matches(row, args.where))
+        this.tables.set(name, rows().filter(row => !deleted.includes(row)))
+        this.record(() => rows().push(...deleted))
+        return { count: deleted.length }
+      }
+    }
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __prisma: PrismaClient | undefined
+}
+
+// Typed as the client it stands in for; only the subset above is implemented
+export const memoryPrisma = new MemoryPrisma() as unknown as PrismaClient
+globalThis.__prisma = memoryPrisma
@@ -0,0 +1,180 @@
+/**
+ * Provider pool harness
+ *
+ * Starts stand-in JSON-RPC servers on localhost and drives ProviderPool
+ * through failover, retries, request errors and quorum disagreement.
+ * Exits non-zero when a scenario fails.
+ *
+ *   yarn test:provider-pool
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import { ProviderPool, ProviderPoolOptions } from '../src/services/provider-pool'
+
+interface RpcRequest {
+  id: number
+  method: string
+  params: unknown[]
+}
+
+type RpcReply = { result: unknown } | { error: { code: number; message: string } } | { httpStatus: number }
+
+/**
+ * A stand-in node; `reply` decides the answer for every request it receives
+ */
+class StubNode {
+  requests = 0
+  url = ''
+  private server: http.Server
+
+  constructor(private reply: (request: RpcRequest, count: number) => RpcReply) {
+    this.server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        const parsed = JSON.parse(body) as RpcRequest | RpcRequest[]
+        const batch = Array.isArray(parsed) ? parsed : [parsed]
+        const replies = batch.map(request => ({ request, reply: this.reply(request, ++this.requests) }))
+
+        const failed = replies.find(({ reply }) => 'httpStatus' in reply)
+        if (failed && 'httpStatus' in failed.reply) {
+          res.writeHead(failed.reply.httpStatus)
+          res.end('stub failure')
+          return
+        }
+
+        const payload = replies.map(({ request, reply }) => ({ jsonrpc: '2.0', id: request.id, ...reply }))
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(Array.isArray(parsed) ? payload : payload[0]))
+      })
+    })
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve))
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()))
+  }
+}
+
+const blockNumber = (value: number) => (): RpcReply => ({ result: `0x${value.toString(16)}` })
+const serverError = (): RpcReply => ({ httpStatus: 500 })
+
+const OPTIONS: ProviderPoolOptions = {
+  chainId: 31337,
+  maxRetries: 2,
+  retryBaseDelayMs: 10,
+  cooldownMs: 60000,
+  requestTimeoutMs: 2000,
+  quorum: 1
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message)
+  }
+}
+
+async function withNodes(nodes: StubNode[], quorum: number, run: (pool: ProviderPool) => Promise<void>): Promise<void> {
+  await Promise.all(nodes.map(node => node.start()))
+  const pool = new ProviderPool(nodes.map(node => node.url), { ...OPTIONS, quorum })
+  try {
+    await run(pool)
+  } finally {
+    pool.getProviders().forEach(provider => provider.destroy())
+    await Promise.all(nodes.map(node => node.stop()))
+  }
+}
+
+const readBlockNumber = (pool: ProviderPool) => pool.execute(async provider => Number(await provider.send('eth_blockNumber', [])))
+
+const scenarios: Record<string, () => Promise<void>> = {
+  'fails over to the next endpoint after retries are exhausted': async () => {
+    const down = new StubNode(serverError)
+    const up = new StubNode(blockNumber(100))
+    await withNodes([down, up], 1, async pool => {
+      assert(await readBlockNumber(pool) === 100, 'expected the answer of the healthy endpoint')
+      assert(down.requests === OPTIONS.maxRetries + 1, `expected ${OPTIONS.maxRetries + 1} attempts on the failing endpoint, got ${down.requests}`)
+      const [downStatus, upStatus] = pool.getStatus()
+      assert(downStatus.score < upStatus.score, 'failing endpoint should rank below the healthy one')
+      assert(downStatus.healthy === false, 'failing endpoint should be cooling down')
+
+      // The healthy endpoint is tried first from now on
+      await readBlockNumber(pool)
+      assert(down.requests === OPTIONS.maxRetries + 1, 'cooled-down endpoint should not be tried first')
+    })
+  },
+
+  'retries a transient failure on the same endpoint': async () => {
+    const flaky = new StubNode((_request, count) => count === 1 ? serverError() : blockNumber(7)())
+    const spare = new StubNode(blockNumber(8))
+    await withNodes([flaky, spare], 1, async pool => {
+      assert(await readBlockNumber(pool) === 7, 'expected the retried answer of the first endpoint')
+      assert(flaky.requests === 2, `expected 2 attempts, got ${flaky.requests}`)
+      assert(spare.requests === 0, 'spare endpoint should not be used')
+      assert(pool.getStatus()[0].consecutiveFailures === 0, 'success should reset the failure streak')
+    })
+  },
+
+  'rethrows request errors without retrying or failing over': async () => {
+    const limited = (): RpcReply => ({ error: { code: -32005, message: 'query returned more than 10000 results' } })
+    const first = new StubNode(limited)
+    const second = new StubNode(limited)
+    await withNodes([first, second], 1, async pool => {
+      let rejected: unknown
+      try {
+        await pool.execute(provider => provider.send('eth_getLogs', [{ fromBlock: '0x0', toBlock: '0xffff' }]))
+      } catch (error) {
+        rejected = error
+      }
+      assert(rejected, 'expected the range error to be rethrown')
+      assert(first.requests === 1, `expected a single attempt, got ${first.requests}`)
+      assert(second.requests === 0, 'request errors must not fail over')
+      assert(pool.getStatus().every(status => status.totalFailures === 0), 'request errors must not count against health')
+    })
+  },
+
+  'returns the answer a quorum agrees on': async () => {
+    const nodes = [new StubNode(blockNumber(16)), new StubNode(blockNumber(17)), new StubNode(blockNumber(16))]
+    await withNodes(nodes, 2, async pool => {
+      const result = await pool.executeQuorum(async provider => Number(await provider.send('eth_blockNumber', [])), String)
+      assert(result === 16, `expected the majority answer 16, got ${result}`)
+    })
+  },
+
+  'rejects when endpoints disagree and no quorum is reached': async () => {
+    const nodes = [new StubNode(blockNumber(1)), new StubNode(blockNumber(2)), new StubNode(serverError)]
+    await withNodes(nodes, 2, async pool => {
+      let rejected: unknown
+      try {
+        await pool.executeQuorum(async provider => Number(await provider.send('eth_blockNumber', [])), String)
+      } catch (error) {
+        rejected = error
+      }
+      assert(rejected instanceof Error && rejected.message.includes('quorum of 2 not reached'), `expected a quorum error, got ${rejected}`)
+    })
+  }
+}
+
+async function main() {
+  let failures = 0
+  for (const [name, scenario] of Object.entries(scenarios)) {
+    try {
+      await scenario()
+      console.log(`✅ ${name}`)
+    } catch (error) {
+      failures++
+      console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  if (failures > 0) {
+    console.error(`${failures} scenario(s) failed`)
+    process.exit(1)
+  }
+}
+
+main()
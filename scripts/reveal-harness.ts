@@ -0,0 +1,158 @@
+/**
+ * Reveal harness
+ *
+ * Drives RevealService against the in-memory Prisma stand-in and a
+ * simulated chain: concurrent reveals of one token, draws replayed against
+ * the locked pool commitment, an exhausted pool in a batch and a pool that
+ * is not locked yet. Exits non-zero when a scenario fails.
+ *
+ *   yarn test:reveal
+ */
+
+import { memoryPrisma } from './memory-prisma'
+import { Collection } from '@prisma/client'
+import { getAddress } from 'viem'
+import { originAssignmentService } from '../src/services/origin-assignment'
+import { provenanceService } from '../src/services/provenance'
+import { BatchRevealResult, revealService } from '../src/services/reveal'
+import { getSimulatedChain } from '../src/services/simulated-chain'
+
+const CHAIN_ID = 31337
+const BOX_TYPE_ID = 1
+const OWNER = getAddress('0x1111111111111111111111111111111111111111')
+const RANDOM_SEED = 0x5eedn
+
+process.env[`CHAIN_BACKEND_${CHAIN_ID}`] = 'simulated'
+
+let collectionCount = 0
+
+/**
+ * A collection on the simulated chain with `tokens` minted to OWNER and `origins` origins in one box type
+ */
+async function setupCollection(tokens: number, origins: number, options: { lock?: boolean } = {}): Promise<{ collection: Collection; tokenIds: number[] }> {
+  const id = ++collectionCount
+  const collection = await memoryPrisma.collection.create({
+    data: {
+      id,
+      slug: `harness-${id}`,
+      name: `Harness ${id}`,
+      chainId: CHAIN_ID,
+      address: getAddress(`0x${id.toString(16).padStart(40, 'a')}`),
+      abiProfile: 'phase-three-avatar',
+      maxSupply: 100,
+      boxTypes: [{ id: BOX_TYPE_ID, name: 'Box' }],
+      publicBoxTypeId: BOX_TYPE_ID
+    }
+  })
+
+  const { tokenIds } = getSimulatedChain(CHAIN_ID).getContract(collection.address, collection.maxSupply).mint(OWNER, tokens)
+  for (const tokenId of tokenIds) {
+    await memoryPrisma.nftInfo.create({ data: { collectionId: id, tokenId, boxTypeId: BOX_TYPE_ID, userAddress: OWNER } })
+  }
+  for (let originId = 1; originId <= origins; originId++) {
+    await memoryPrisma.originMetadataInfo.create({
+      data: { collectionId: id, originId, boxTypeId: BOX_TYPE_ID, metadata: { name: `Origin ${originId}`, attributes: [] } }
+    })
+  }
+  await memoryPrisma.randomSeedInfo.create({ data: { collectionId: id, randomSeed: RANDOM_SEED.toString() } })
+  if (options.lock ?? true) {
+    await provenanceService.lockPool(collection, BOX_TYPE_ID)
+  }
+  return { collection, tokenIds }
+}
+
+const revealBatch = (collection: Collection, tokenIds: number[]): Promise<BatchRevealResult> =>
+  revealService.revealBatch(collection, tokenIds, { owner: OWNER, signer: OWNER, signatureType: 'ecdsa' })
+
+// What the public single-token route does
+const revealSingle = (collection: Collection, tokenId: number) =>
+  memoryPrisma.$transaction(tx => revealService.revealToken(tx, collection, tokenId, RANDOM_SEED, { action: 'reveal', owner: OWNER, signer: OWNER, signature: '0x' }))
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message)
+  }
+}
+
+const scenarios: Record<string, () => Promise<void>> = {
+  'concurrent reveals of one token draw once': async () => {
+    const { collection, tokenIds: [tokenId] } = await setupCollection(1, 5)
+    const outcomes = await Promise.allSettled([revealBatch(collection, [tokenId]), revealSingle(collection, tokenId)])
+
+    const [batch, single] = outcomes
+    const batchRevealed = batch.status === 'fulfilled' && batch.value.revealed === 1
+    const singleRevealed = single.status === 'fulfilled'
+    assert(batchRevealed !== singleRevealed, `expected exactly one reveal to succeed, got batch ${batchRevealed} and single ${singleRevealed}`)
+    const lost = batchRevealed
+      ? single.status === 'rejected' && single.reason instanceof Error && single.reason.message
+      : batch.status === 'fulfilled' && !batch.value.results[0].revealed && batch.value.results[0].error
+    assert(lost === `Token ${tokenId} already revealed`, `expected the other reveal to find the token revealed, got ${lost}`)
+
+    const assigned = await memoryPrisma.originMetadataInfo.count({ where: { collectionId: collection.id, isAssigned: true } })
+    const events = await memoryPrisma.revealEvent.count({ where: { collectionId: collection.id, tokenId } })
+    assert(assigned === 1, `expected one origin claimed, got ${assigned}`)
+    assert(events === 1, `expected one reveal event, got ${events}`)
+  },
+
+  'a recorded draw replays against the locked commitment': async () => {
+    const { collection, tokenIds } = await setupCollection(4, 6)
+    const result = await revealBatch(collection, tokenIds.slice(0, 3))
+    assert(result.revealed === 3, `expected 3 reveals, got ${result.revealed}`)
+
+    for (const tokenId of tokenIds.slice(0, 3)) {
+      const verification = await originAssignmentService.verifyAssignment(collection, tokenId)
+      assert(verification?.verified === true, `expected the draw of token ${tokenId} to verify`)
+      assert(verification.reveal?.poolCommitment === verification.pool.lockedCommitment, `expected token ${tokenId} to have drawn over the locked ordering`)
+    }
+
+    // An origin slipped into the pool behind the lock's back
+    await memoryPrisma.originMetadataInfo.create({
+      data: { collectionId: collection.id, originId: 7, boxTypeId: BOX_TYPE_ID, metadata: { name: 'Origin 7', attributes: [] } }
+    })
+    const replayed = await originAssignmentService.verifyAssignment(collection, tokenIds[0])
+    assert(replayed?.verified === false, 'expected the draw not to verify over a changed ordering')
+
+    const blocked = await revealBatch(collection, [tokenIds[3]])
+    const error = blocked.results[0].revealed ? null : blocked.results[0].error
+    assert(error === `Origin pool for box type ${BOX_TYPE_ID} no longer matches its locked commitment`, `expected the draw to be refused, got ${error}`)
+  },
+
+  'an exhausted pool is reported per token in a batch': async () => {
+    const { collection, tokenIds } = await setupCollection(3, 2)
+    const result = await revealBatch(collection, tokenIds)
+    assert(result.revealed === 2 && result.failed === 1, `expected 2 revealed and 1 failed, got ${result.revealed} and ${result.failed}`)
+    const last = result.results[2]
+    assert(!last.revealed && last.error === `No available metadata for box type ${BOX_TYPE_ID}`, `expected token ${tokenIds[2]} to find the pool exhausted`)
+
+    const originIds = result.results.flatMap(entry => entry.revealed ? [entry.originId] : [])
+    assert(new Set(originIds).size === 2, `expected two distinct origins, got ${originIds.join(', ')}`)
+  },
+
+  'reveals wait for the pool lock': async () => {
+    const { collection, tokenIds } = await setupCollection(2, 4, { lock: false })
+    const result = await revealBatch(collection, tokenIds)
+    assert(result.revealed === 0, `expected no reveals, got ${result.revealed}`)
+    assert(result.results.every(entry => !entry.revealed && entry.error === `Origin pool for box type ${BOX_TYPE_ID} is not locked`), 'expected every token to report the unlocked pool')
+    const assigned = await memoryPrisma.originMetadataInfo.count({ where: { collectionId: collection.id, isAssigned: true } })
+    assert(assigned === 0, `expected no origin claimed, got ${assigned}`)
+  }
+}
+
+async function main() {
+  let failures = 0
+  for (const [name, scenario] of Object.entries(scenarios)) {
+    try {
+      await scenario()
+      console.log(`✅ ${name}`)
+    } catch (error) {
+      failures++
+      console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  if (failures > 0) {
+    console.error(`${failures} scenario(s) failed`)
+    process.exit(1)
+  }
+}
+
+main()
@@ -4,12 +4,14 @@ import helmet from 'helmet'
 import dotenv from 'dotenv'
 import metadataRoutes from './routes/metadata'
 import adminRoutes from './routes/admin'
+import collectionRoutes from './routes/collections'
+import authRoutes from './routes/auth'
 import swaggerUi from 'swagger-ui-express'
 import swaggerJSDoc from 'swagger-jsdoc'
-import { BlockchainService } from './services/blockchain'
-import { MappingService } from './services/mapping'
 import { schedulerService } from './services/scheduler'
-import { MINT_CONFIG } from './config/contracts'
+import { collectionService } from './services/collection'
+import { SIWE_CONFIG } from './config/contracts'
+import { delegationService } from './services/delegation'
 
 dotenv.config()
 
@@ -26,7 +28,7 @@ app.use(cors({
   // origin: true,
   // credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'x-admin-key']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'x-admin-key', 'x-admin-actor']
 }))
 
 app.use(express.json())
@@ -43,16 +45,19 @@ const swaggerOptions = {
         # ROG Blind Box Metadata API
         
         This API provides endpoints for managing ROG NFT metadata, Phase 2 holder verification, 
-        and administrative functions for the ROG blind box collection.
+        and administrative functions for the ROG blind box collections.
         
-        ## Box Types
-        - **0**: 金盒 (Gold Box)
-        - **1**: 紅盒 (Red Box) 
-        - **2**: 藍盒 (Blue Box)
-        - **3**: 公售盒 (Public Sale Box)
+        ## Collections
+        Every drop is a collection with its own contract, mint windows and box types (see \`GET /collections\`).
+        The /metadata and /api routes serve the default collection and are also available under
+        \`/collections/{slug}\`. Admin endpoints act on the default collection unless \`?collection={slug}\` is given.
+        Collections can live on different chains (e.g. a Sepolia staging drop next to mainnet); \`GET /chains\` lists them
+        and \`GET /collections?chainId={chainId}\` filters by chain.
         
         ## Authentication
         Admin endpoints require an API key to be passed in the \`x-admin-key\` header.
+        Holder endpoints such as reveal accept a Sign-In with Ethereum session (\`/auth/nonce\`, \`/auth/verify\`)
+        passed as \`Authorization: Bearer <token>\`.
       `,
       contact: {
         name: 'ROG Team',
@@ -78,6 +83,11 @@ const swaggerOptions = {
           in: 'header',
           name: 'x-admin-key',
           description: 'Admin API key for accessing administrative endpoints'
+        },
+        HolderSession: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Session token from POST /auth/verify (Sign-In with Ethereum)'
         }
       },
       schemas: {
@@ -94,6 +104,668 @@ const swaggerOptions = {
             }
           }
         },
+        BoxType: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'integer',
+              example: 0
+            },
+            name: {
+              type: 'string',
+              example: '金盒 (Gold Box)'
+            }
+          }
+        },
+        Collection: {
+          type: 'object',
+          properties: {
+            slug: {
+              type: 'string',
+              example: 'rog-avatar'
+            },
+            name: {
+              type: 'string',
+              example: 'ROG Avatar'
+            },
+            chainId: {
+              type: 'integer',
+              example: 1
+            },
+            nftAddress: {
+              type: 'string',
+              example: '0x471C2c840B69EB92523B1De0EEA791Ae1359AFd7'
+            },
+            maxSupply: {
+              type: 'integer',
+              example: 6020
+            },
+            boxTypes: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/BoxType'
+              }
+            }
+          }
+        },
+        SeedLifecycle: {
+          type: 'object',
+          properties: {
+            state: {
+              type: 'string',
+              enum: ['awaiting_seed', 'seed_observed', 'mappings_generating', 'mappings_verified', 'mappings_failed', 'revealed']
+            },
+            randomSeed: {
+              type: 'string',
+              nullable: true,
+              example: '12345678901234567890'
+            },
+            stateUpdatedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            lastError: {
+              type: 'string',
+              nullable: true,
+              description: 'Why the lifecycle is waiting in its current state, e.g. a failed tokenURI parity check'
+            },
+            parityAttempts: {
+              type: 'integer',
+              description: 'Failed tokenURI parity checks of the current seed; at PARITY_CHECK_MAX_ATTEMPTS the state becomes mappings_failed',
+              example: 0
+            }
+          }
+        },
+        SeedHistoryEntry: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'integer',
+              example: 2
+            },
+            randomSeed: {
+              type: 'string',
+              example: '12345678901234567890'
+            },
+            blockNumber: {
+              type: 'integer',
+              nullable: true,
+              description: 'Block of the RandomSeedSet log',
+              example: 21000000
+            },
+            transactionHash: {
+              type: 'string',
+              nullable: true
+            },
+            syncedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            state: {
+              type: 'string',
+              example: 'mappings_verified'
+            },
+            current: {
+              type: 'boolean',
+              example: true
+            },
+            mappedTokens: {
+              type: 'integer',
+              description: 'Tokens whose stored metadataId comes from this seed',
+              example: 6020
+            },
+            remappedTokens: {
+              type: 'integer',
+              description: 'Tokens whose metadataId changed when this seed replaced an earlier one',
+              example: 3000
+            }
+          }
+        },
+        ParityMismatch: {
+          type: 'object',
+          properties: {
+            tokenId: {
+              type: 'integer',
+              example: 42
+            },
+            issue: {
+              type: 'string',
+              enum: ['computed_mismatch', 'stored_mismatch', 'not_mapped', 'unparseable_uri', 'call_failed']
+            },
+            tokenUri: {
+              type: 'string',
+              nullable: true,
+              example: 'ipfs://QmExample/1337.json'
+            },
+            contractMetadataId: {
+              type: 'integer',
+              nullable: true,
+              example: 1337
+            },
+            storedMetadataId: {
+              type: 'integer',
+              nullable: true,
+              example: 1338
+            },
+            computedMetadataId: {
+              type: 'integer',
+              example: 1337
+            },
+            error: {
+              type: 'string'
+            }
+          }
+        },
+        ParityReport: {
+          type: 'object',
+          properties: {
+            collection: {
+              type: 'string',
+              example: 'rog-avatar'
+            },
+            randomSeed: {
+              type: 'string',
+              example: '12345678901234567890'
+            },
+            maxSupply: {
+              type: 'integer',
+              example: 6020
+            },
+            totalSupply: {
+              type: 'integer',
+              example: 6020
+            },
+            mode: {
+              type: 'string',
+              enum: ['sample', 'all']
+            },
+            checked: {
+              type: 'integer',
+              example: 50
+            },
+            matched: {
+              type: 'integer',
+              example: 50
+            },
+            mismatches: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ParityMismatch'
+              }
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            finishedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        PoolProvenance: {
+          type: 'object',
+          properties: {
+            boxTypeId: {
+              type: 'integer',
+              example: 1
+            },
+            locked: {
+              type: 'boolean',
+              example: true
+            },
+            lockedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            merkleRoot: {
+              type: 'string',
+              nullable: true,
+              description: 'Root stored when the pool was locked'
+            },
+            leafCount: {
+              type: 'integer',
+              nullable: true,
+              example: 1500
+            },
+            originCommitment: {
+              type: 'string',
+              nullable: true,
+              description: 'keccak256(abi.encodePacked(uint256[] originIds)) stored when the pool was locked; reveal draws are checked against it'
+            },
+            currentRoot: {
+              type: 'string',
+              description: 'Root of the pool as currently stored'
+            },
+            currentLeafCount: {
+              type: 'integer',
+              example: 1500
+            },
+            intact: {
+              type: 'boolean',
+              nullable: true,
+              description: 'Whether the pool still matches its locked root (null while unlocked)'
+            }
+          }
+        },
+        OriginProof: {
+          type: 'object',
+          properties: {
+            originId: {
+              type: 'integer',
+              example: 42
+            },
+            boxTypeId: {
+              type: 'integer',
+              example: 1
+            },
+            leaf: {
+              type: 'string'
+            },
+            leafIndex: {
+              type: 'integer',
+              example: 41
+            },
+            proof: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            },
+            root: {
+              type: 'string'
+            },
+            locked: {
+              type: 'boolean',
+              example: true
+            },
+            verified: {
+              type: 'boolean',
+              example: true
+            }
+          }
+        },
+        RevealTypedData: {
+          type: 'object',
+          description: 'EIP-712 typed data authorizing a reveal; sign it with eth_signTypedData_v4',
+          properties: {
+            domain: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  example: 'ROG Metadata API'
+                },
+                version: {
+                  type: 'string',
+                  example: '1'
+                },
+                chainId: {
+                  type: 'integer',
+                  example: 1
+                },
+                verifyingContract: {
+                  type: 'string',
+                  example: '0x471C2c840B69EB92523B1De0EEA791Ae1359AFd7'
+                }
+              }
+            },
+            types: {
+              type: 'object',
+              description: 'The Reveal type: chainId, contract, tokenId, owner, nonce, deadline'
+            },
+            primaryType: {
+              type: 'string',
+              example: 'Reveal'
+            },
+            message: {
+              type: 'object',
+              properties: {
+                chainId: {
+                  type: 'integer',
+                  example: 1
+                },
+                contract: {
+                  type: 'string',
+                  example: '0x471C2c840B69EB92523B1De0EEA791Ae1359AFd7'
+                },
+                tokenId: {
+                  type: 'integer',
+                  example: 1
+                },
+                owner: {
+                  type: 'string',
+                  example: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6'
+                },
+                nonce: {
+                  type: 'string',
+                  description: 'Single-use nonce issued by the server'
+                },
+                deadline: {
+                  type: 'integer',
+                  description: 'Unix seconds after which the signature is rejected',
+                  example: 1760860800
+                }
+              }
+            }
+          }
+        },
+        BatchRevealTypedData: {
+          type: 'object',
+          description: 'EIP-712 typed data authorizing a batch reveal; same domain as RevealTypedData',
+          properties: {
+            domain: {
+              type: 'object'
+            },
+            types: {
+              type: 'object',
+              description: 'The BatchReveal type: chainId, contract, owner, tokenIds (uint256[]), nonce, deadline'
+            },
+            primaryType: {
+              type: 'string',
+              example: 'BatchReveal'
+            },
+            message: {
+              type: 'object',
+              properties: {
+                chainId: {
+                  type: 'integer',
+                  example: 1
+                },
+                contract: {
+                  type: 'string',
+                  example: '0x471C2c840B69EB92523B1De0EEA791Ae1359AFd7'
+                },
+                owner: {
+                  type: 'string',
+                  example: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6'
+                },
+                tokenIds: {
+                  type: 'array',
+                  items: {
+                    type: 'integer'
+                  },
+                  example: [1, 2, 3]
+                },
+                nonce: {
+                  type: 'string',
+                  description: 'Single-use nonce issued by the server'
+                },
+                deadline: {
+                  type: 'integer',
+                  description: 'Unix seconds after which the signature is rejected',
+                  example: 1760860800
+                }
+              }
+            }
+          }
+        },
+        BatchRevealResult: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'string'
+            },
+            signer: {
+              type: 'string'
+            },
+            signatureType: {
+              type: 'string',
+              enum: ['ecdsa', 'eip1271', 'session']
+            },
+            revealed: {
+              type: 'integer',
+              description: 'Tokens revealed by this batch',
+              example: 2
+            },
+            failed: {
+              type: 'integer',
+              description: 'Tokens of the batch that were not revealed',
+              example: 1
+            },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  tokenId: {
+                    type: 'integer'
+                  },
+                  revealed: {
+                    type: 'boolean'
+                  },
+                  originId: {
+                    type: 'integer',
+                    description: 'Assigned origin, when revealed'
+                  },
+                  metadataId: {
+                    type: 'integer',
+                    nullable: true
+                  },
+                  path: {
+                    type: 'string',
+                    enum: ['owner', 'delegate']
+                  },
+                  error: {
+                    type: 'string',
+                    description: 'Why the token was not revealed',
+                    example: 'No available metadata for box type 2'
+                  }
+                }
+              }
+            }
+          }
+        },
+        AllocationPolicy: {
+          type: 'object',
+          required: ['policy'],
+          properties: {
+            policy: {
+              type: 'string',
+              enum: ['uniform', 'stratified', 'reserved'],
+              description: 'uniform draws from whatever is left of the pool; stratified draws a rarity tier weighted by its share of the whole pool first; reserved releases listed tiers on a schedule'
+            },
+            quotas: {
+              type: 'array',
+              description: 'Release schedule per rarity tier, used by the reserved policy',
+              items: {
+                type: 'object',
+                properties: {
+                  tier: {
+                    type: 'string',
+                    example: 'Legendary'
+                  },
+                  schedule: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        at: {
+                          type: 'string',
+                          format: 'date-time'
+                        },
+                        share: {
+                          type: 'number',
+                          minimum: 0,
+                          maximum: 1,
+                          description: 'Share of the tier released from this time',
+                          example: 0.5
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        RevealEvent: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'integer'
+            },
+            tokenId: {
+              type: 'integer',
+              example: 1
+            },
+            boxTypeId: {
+              type: 'integer',
+              example: 1
+            },
+            action: {
+              type: 'string',
+              enum: ['reveal', 'batch_reveal', 'mass_reveal', 'revoke', 'reassign', 'reorg_rollback']
+            },
+            owner: {
+              type: 'string',
+              nullable: true,
+              description: 'Token owner at reveal; null for mass reveals and admin actions'
+            },
+            signer: {
+              type: 'string',
+              nullable: true
+            },
+            signature: {
+              type: 'string',
+              nullable: true,
+              description: 'Signed reveal authorization; null when a holder session stood in for it'
+            },
+            originId: {
+              type: 'integer',
+              nullable: true,
+              description: 'Origin the token holds after the event; null once revoked'
+            },
+            previousOriginId: {
+              type: 'integer',
+              nullable: true
+            },
+            policy: {
+              type: 'string',
+              nullable: true,
+              description: 'Allocation policy the origin was drawn under; null for admin actions'
+            },
+            randomSeed: {
+              type: 'string',
+              nullable: true,
+              description: 'Seed of the draw; null for admin actions'
+            },
+            drawAttempt: {
+              type: 'integer',
+              nullable: true,
+              description: 'Draw attempt that found a free origin; null for admin actions'
+            },
+            poolCommitment: {
+              type: 'string',
+              nullable: true,
+              description: 'Commitment to the pool ordering the draw ran over; null for admin actions'
+            },
+            actor: {
+              type: 'string',
+              nullable: true,
+              description: 'Admin who revoked or reassigned, as self-reported in X-Admin-Actor (not verified); null for reveals'
+            },
+            reason: {
+              type: 'string',
+              nullable: true
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        MassRevealJob: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'integer',
+              example: 3
+            },
+            boxTypeId: {
+              type: 'integer',
+              nullable: true,
+              description: 'Box type the job reveals; null for the whole collection'
+            },
+            status: {
+              type: 'string',
+              enum: ['scheduled', 'running', 'completed', 'cancelled']
+            },
+            scheduledAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            totalTokens: {
+              type: 'integer',
+              nullable: true,
+              description: 'Unrevealed tokens in scope when the job started'
+            },
+            cursor: {
+              type: 'integer',
+              description: 'Last token ID of the last committed chunk; the job resumes after it'
+            },
+            revealedCount: {
+              type: 'integer',
+              example: 1200
+            },
+            failedCount: {
+              type: 'integer',
+              example: 0
+            },
+            skippedCount: {
+              type: 'integer',
+              example: 0,
+              description: 'Tokens revealed through the public routes while the job ran'
+            },
+            remaining: {
+              type: 'integer',
+              description: 'Unrevealed tokens in scope after the cursor'
+            },
+            percent: {
+              type: 'integer',
+              nullable: true,
+              example: 80
+            },
+            lastError: {
+              type: 'string',
+              nullable: true,
+              example: 'Waiting for reveals to open'
+            }
+          }
+        },
+        RevealAuthorization: {
+          type: 'object',
+          description: 'How a reveal was authorized',
+          properties: {
+            signer: {
+              type: 'string',
+              description: 'Wallet that signed, or the address of the holder session',
+              example: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6'
+            },
+            path: {
+              type: 'string',
+              enum: ['owner', 'delegate'],
+              description: 'Whether the owner or a delegate of the owner authorized the reveal'
+            },
+            signatureType: {
+              type: 'string',
+              enum: ['ecdsa', 'eip1271', 'session'],
+              description: 'ECDSA signature, EIP-1271 contract wallet signature, or a holder session'
+            }
+          }
+        },
         SuccessResponse: {
           type: 'object',
           properties: {
@@ -144,10 +816,18 @@ const swaggerOptions = {
       }
     },
     tags: [
+      {
+        name: 'Collections',
+        description: 'NFT collections and the chains they are deployed on'
+      },
       {
         name: 'Metadata',
         description: 'NFT metadata operations'
       },
+      {
+        name: 'Auth',
+        description: 'Sign-In with Ethereum sessions for holder endpoints'
+      },
       {
         name: 'NFT',
         description: 'NFT collection and token operations'
@@ -203,13 +883,19 @@ app.get('/swagger.json', (req, res) => {
 // Handle preflight requests for Swagger UI
 // app.options('*', cors())
 
+app.use('/', collectionRoutes)
+app.use('/', authRoutes)
+app.use('/collections/:slug', authRoutes)
+app.use('/collections/:slug', metadataRoutes)
 app.use('/', metadataRoutes)
 app.use('/', adminRoutes)
 
-app.get('/', (req, res) => {
+app.get('/', async (req, res) => {
   const baseUrl = isProduction 
     ? 'https://rog-api.onrender.com' 
     : `http://localhost:${PORT}`
+
+  const defaultCollection = await collectionService.getDefaultCollection()
     
   res.json({ 
     message: 'ROG Blind Box Metadata API is running!',
@@ -217,12 +903,25 @@ app.get('/', (req, res) => {
     documentation: `${baseUrl}/api-docs`,
     swagger: `${baseUrl}/swagger.json`,
     endpoints: {
+      collections: '/collections',
+      chains: '/chains',
+      collectionMetadata: '/collections/:slug/metadata/:tokenId',
       metadata: '/metadata/:tokenId',
+      metadataToken: '/metadata/by-metadata-id/:metadataId/token',
+      verifyOrigin: '/metadata/reveal/verify/:tokenId',
+      provenance: '/provenance',
+      originProof: '/provenance/origins/:originId',
       nftInfo: 'GET /api/nft',
       createNft: 'POST /api/nft',
       stats: '/api/stats',
       mintConfig: '/api/mint/config',
       phase2Holder: '/api/mint/soulbound/:address',
+      auth: {
+        nonce: '/auth/nonce',
+        verify: 'POST /auth/verify',
+        session: '/auth/session',
+        logout: 'POST /auth/logout'
+      },
       admin: {
         randomSeedStatus: '/admin/random-seed-status',
         syncRandomSeed: 'POST /admin/sync-randomseed',
@@ -230,6 +929,16 @@ app.get('/', (req, res) => {
         createOriginMetadata: 'POST /admin/origin-metadata',
         addPhase2Holder: 'POST /admin/phase2-holder',
         detailedStats: '/admin/detailed-stats',
+        collections: 'GET|POST /admin/collections',
+        rpcStatus: '/admin/rpc/status',
+        tokenUriParity: 'GET|POST /admin/token-uri-parity',
+        lockOriginPool: 'POST /admin/origin-pool/lock',
+        holderSessions: '/admin/sessions',
+        revokeHolderSessions: 'POST /admin/sessions/revoke',
+        seeds: '/admin/seeds',
+        seedRemap: '/admin/seeds/:seedId/remap',
+        tokenSeeds: '/admin/seeds/tokens',
+        simulator: '/admin/simulator/* (non-production, simulated chains only)',
         scheduler: {
           status: '/admin/scheduler/status',
           start: 'POST /admin/scheduler/start',
@@ -241,16 +950,16 @@ app.get('/', (req, res) => {
           start: 'POST /admin/nft-sync/start',
           stop: 'POST /admin/nft-sync/stop',
           forceSync: 'POST /admin/nft-sync/force-sync',
-          historical: 'POST /admin/nft-sync/historical'
+          historical: 'POST /admin/nft-sync/historical',
+          events: '/admin/nft-sync/events/:tokenId',
+          rebuild: 'POST /admin/nft-sync/rebuild'
         }
       }
     },
-    boxTypes: {
-      0: '金盒 (Gold Box)',
-      1: '紅盒 (Red Box)', 
-      2: '藍盒 (Blue Box)',
-      3: '公售盒 (Public Sale Box)'
-    }
+    defaultCollection: defaultCollection?.slug ?? null,
+    boxTypes: defaultCollection
+      ? Object.fromEntries(collectionService.getBoxTypes(defaultCollection).map(boxType => [boxType.id, boxType.name]))
+      : {}
   })
 })
 
@@ -262,61 +971,29 @@ app.get('/health', (req, res) => {
   })
 })
 
-const blockchainService = new BlockchainService()
-const mappingService = new MappingService()
-
 const startServer = async () => {
   try {
     console.log('🚀 Starting ROG Blind Box Metadata API...')
 
-    // const maxSupply = await blockchainService.getMaxSupply();
-    // await mappingService.generateAllMappings(BigInt(MINT_CONFIG.randomSeed), maxSupply)
-    // console.log('✅ Mappings generated for existing NFTs')
+    // Delegations registered before the scan starts would never be seen, so the registry's deployment block is required
+    const missingStartBlocks = await delegationService.getChainsMissingRegistryStartBlock()
+    if (missingStartBlocks.length > 0) {
+      throw new Error(`Delegate registry start block not configured for chain(s) ${missingStartBlocks.join(', ')}: ` +
+        `set ${missingStartBlocks.map(chainId => `DELEGATE_REGISTRY_START_BLOCK_${chainId}`).join(', ')} to the registry's deployment block, ` +
+        'or disable delegation with an empty DELEGATE_REGISTRY_ADDRESS_<chainId>')
+    }
 
-    try {
-      const {
-        randomSeed,
-        needToGenerateMappings,
-      } = await blockchainService.syncRandomSeedFromContract()
-      
-      if (needToGenerateMappings) {
-        console.log(`📦 Found existing random seed: ${randomSeed.toString()}`)
-        const maxSupply = await blockchainService.getMaxSupply()
-        await mappingService.generateAllMappings(randomSeed, maxSupply)
-        console.log('✅ Mappings generated for existing NFTs')
-      }
+    // Only the instance holding the scheduler lease syncs random seeds, generates
+    // mappings and indexes Transfer events; the others take over if it goes away
+    await schedulerService.start()
 
-      // Start NFT Transfer event monitoring
-      console.log('🎯 Starting NFT Transfer event monitoring...')
-      await schedulerService.startNftSyncMonitoring()
-      
-      // Keep the event listener as backup (in case websocket works better than polling)
-      // await blockchainService.startEventListener(async (randomSeed: bigint) => {
-      //   console.log(`🎲 New random seed detected via event: ${randomSeed.toString()}`)
-      //   // Stop scheduler since we got the seed via event
-      //   schedulerService.stopRandomSeedMonitoring()
-      //   const maxSupply = await blockchainService.getMaxSupply()
-      //   await mappingService.generateAllMappings(randomSeed, maxSupply)
-      //   console.log('🎉 Blind boxes revealed! Mappings generated.')
-      // })
-    } catch (blockchainError) {
-      const errorMessage = blockchainError instanceof Error ? blockchainError.message : String(blockchainError)
-      console.warn('⚠️ Blockchain connection failed, API will start without blockchain features:', errorMessage)
-      console.log('💡 This is normal if the smart contract is not deployed yet.')
-      
-      // Even if blockchain connection fails initially, start monitoring
-      // The scheduler will handle connection retries
-      // console.log('🔄 Starting random seed monitoring with retry logic...')
-      // await schedulerService.startRandomSeedMonitoring()
-      
-      // Also start NFT sync monitoring even if initial connection fails
-      console.log('🔄 Starting NFT sync monitoring with retry logic...')
-      await schedulerService.startNftSyncMonitoring()
+    if (!SIWE_CONFIG.domain) {
+      console.warn('⚠️ SIWE_DOMAIN is not set: holder sign-in (POST /auth/verify) is disabled')
     }
     
     app.listen(PORT, () => {
       console.log(`🌐 Server is running on port ${PORT}`)
-      console.log(`📡 Contract address: ${process.env.CONTRACT_ADDRESS || 'Not set'}`)
+      console.log(`📡 Default collection: ${process.env.DEFAULT_COLLECTION_SLUG || 'oldest active collection'}`)
       console.log(`📋 API Documentation available at: http://localhost:${PORT}/`)
     })
   } catch (error) {
@@ -325,6 +1002,16 @@ const startServer = async () => {
   }
 }
 
+// Hand the scheduler lease back on shutdown so another instance takes over without waiting for it to expire
+const shutdown = async (signal: string) => {
+  console.log(`🛑 Received ${signal}, shutting down...`)
+  await schedulerService.stop()
+  process.exit(0)
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'))
+process.on('SIGINT', () => void shutdown('SIGINT'))
+
 startServer()
 
 export default app
@@ -1,36 +1,173 @@
-export const CONTRACT_CONFIG = {
-  address: '0x471C2c840B69EB92523B1De0EEA791Ae1359AFd7',
-  rpcUrl: process.env.RPC_URL || '',
-  abi: [
+import { hostname } from 'os'
+
+// Contract interfaces a collection can be deployed with, referenced by Collection.abiProfile
+export const ABI_PROFILES: Record<string, string[]> = {
+  'phase-three-avatar': [
     'function getRandomSeedStatus() external view returns (uint256 randomSeed, bool isRevealed)',
     'function maxSupply() external view returns (uint64)',
     'function totalSupply() external view returns (uint256)',
     'function ownerOf(uint256 tokenId) external view returns (address)',
     'event RandomSeedSet(uint256 randomSeed)',
     'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
-    'function tokensOfOwner(address owner) external view returns (uint256[] memory)'
+    'function tokensOfOwner(address owner) external view returns (uint256[] memory)',
+    'function avatarToSoulbound(uint256 tokenId) external view returns (uint256)',
+    'function tokenURI(uint256 tokenId) external view returns (string)',
+    'event MintTokens(address to, uint256 quantity, uint256 totalSupply)'
   ]
 }
 
-export const METADATA_CONFIG = {
-  baseUri: process.env.METADATA_BASE_URI || 'https://your-domain.com/metadata/',
-  suffix: process.env.METADATA_SUFFIX || '.json'
+// delegate.xyz v2 registry events indexed for delegated holder signatures
+export const DELEGATE_REGISTRY_ABI = [
+  'event DelegateAll(address indexed from, address indexed to, bytes32 rights, bool enable)',
+  'event DelegateContract(address indexed from, address indexed to, address indexed contract_, bytes32 rights, bool enable)',
+  'event DelegateERC721(address indexed from, address indexed to, address indexed contract_, uint256 tokenId, bytes32 rights, bool enable)'
+]
+
+// Same address on every chain delegate.xyz v2 is deployed to
+export const DEFAULT_DELEGATE_REGISTRY = '0x00000000000000447e69651d841bD8D104Bed493'
+
+export const COLLECTION_CONFIG = {
+  // Collection served by the unscoped routes (/metadata/:tokenId, /api/...); defaults to the oldest active collection
+  defaultSlug: process.env.DEFAULT_COLLECTION_SLUG || ''
+}
+
+export const PROVIDER_POOL_CONFIG = {
+  // Attempts per endpoint after the first one, with exponential backoff
+  maxRetries: parseInt(process.env.RPC_MAX_RETRIES || '2'),
+  retryBaseDelayMs: parseInt(process.env.RPC_RETRY_DELAY_MS || '500'),
+  // How long an endpoint is skipped after repeated failures
+  cooldownMs: parseInt(process.env.RPC_COOLDOWN_MS || '30000'),
+  requestTimeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || '15000'),
+  // Endpoints that must agree on critical reads; 1 disables quorum mode
+  quorum: parseInt(process.env.RPC_QUORUM || '1')
+}
+
+export const SYNC_CONFIG = {
+  // First block to index when no checkpoint exists (e.g. the deployment block); 0 means start at the current head
+  startBlock: parseInt(process.env.NFT_SYNC_START_BLOCK || '0'),
+  // Block window used for eth_getLogs; adapts between min and max at runtime
+  initialBlockRange: parseInt(process.env.NFT_SYNC_BLOCK_RANGE || '2000'),
+  minBlockRange: parseInt(process.env.NFT_SYNC_MIN_BLOCK_RANGE || '10'),
+  maxBlockRange: parseInt(process.env.NFT_SYNC_MAX_BLOCK_RANGE || '10000'),
+  // Blocks behind the head before a block is treated as final, unless set per chain or per collection
+  confirmations: parseInt(process.env.NFT_SYNC_CONFIRMATIONS || '12'),
+  // How many recent block hashes are kept for reorg detection
+  blockHashHistory: parseInt(process.env.NFT_SYNC_BLOCK_HASH_HISTORY || '1000'),
+  // Live subscription timing; the WebSocket endpoint itself is configured per chain
+  wsReconnectBaseDelayMs: parseInt(process.env.WS_RECONNECT_DELAY_MS || '1000'),
+  wsReconnectMaxDelayMs: parseInt(process.env.WS_RECONNECT_MAX_DELAY_MS || '60000'),
+  wsHeartbeatIntervalMs: parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000')
 }
 
-const soulboundStartTime = new Date('2025-09-22T08:00:00.000Z');
-const soulboundEndTime = new Date('2025-10-16T07:59:59.999Z');
-const publicStartTime = new Date('2025-10-20T04:00:00.000Z');
-const publicEndTime = new Date('2222-12-31T00:00:00.000Z');
+export interface ChainConfig {
+  chainId: number
+  // 'simulated' serves the chain from an in-memory contract instead of RPC (never in production)
+  backend: 'rpc' | 'simulated'
+  rpcUrls: string[]
+  // Optional WebSocket endpoint for live log subscriptions; empty disables them
+  wsUrl: string
+  // Blocks behind the head before a block is treated as final and indexed
+  confirmations: number
+  // Delegation registry indexed for delegated holder signatures; empty disables delegation
+  delegateRegistry: string
+  // First block of the registry to index, its deployment block on the chain; null while not configured
+  delegateRegistryStartBlock: number | null
+}
 
-export const MINT_CONFIG = {
-  chainId: 1,
-  maxSupply: 6020,
-  nftAddress: CONTRACT_CONFIG.address,
-  soulboundStartTime: soulboundStartTime.toISOString(),
-  soulboundEndTime: soulboundEndTime.toISOString(),
-  publicStartTime: publicStartTime.toISOString(),
-  publicEndTime: publicEndTime.toISOString(),
-  randomSeed: '92653667064181135059616424580200246915221335569266647038007595748171226021888',
-  mintPrice: "0"
+export const CHAIN_CONFIG = {
+  // Chain served by the unsuffixed RPC_URLS / RPC_URL / WS_RPC_URL / NFT_SYNC_CONFIRMATIONS
+  primaryChainId: parseInt(process.env.CHAIN_ID || '1')
 }
 
+/**
+ * Backend, endpoints, confirmations and delegation registry for a chain,
+ * read from CHAIN_BACKEND_<chainId>, RPC_URLS_<chainId>, RPC_URL_<chainId>,
+ * WS_RPC_URL_<chainId>, NFT_SYNC_CONFIRMATIONS_<chainId> and
+ * DELEGATE_REGISTRY_ADDRESS_<chainId> / DELEGATE_REGISTRY_START_BLOCK_<chainId>.
+ * The primary chain falls back to the unsuffixed variables.
+ */
+export function getChainConfig(chainId: number): ChainConfig {
+  const env = (name: string): string | undefined =>
+    process.env[`${name}_${chainId}`] || (chainId === CHAIN_CONFIG.primaryChainId ? process.env[name] : undefined)
+
+  const backend = env('CHAIN_BACKEND') === 'simulated' ? 'simulated' : 'rpc'
+  const registryStartBlock = env('DELEGATE_REGISTRY_START_BLOCK')
+
+  return {
+    chainId,
+    backend,
+    // Comma-separated RPC_URLS takes precedence over the single RPC_URL
+    rpcUrls: (env('RPC_URLS') || env('RPC_URL') || '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(url => url !== ''),
+    wsUrl: env('WS_RPC_URL') || '',
+    confirmations: parseInt(env('NFT_SYNC_CONFIRMATIONS') || String(SYNC_CONFIG.confirmations)),
+    delegateRegistry: env('DELEGATE_REGISTRY_ADDRESS') ?? DEFAULT_DELEGATE_REGISTRY,
+    // A simulated chain's registry exists from its first block
+    delegateRegistryStartBlock: registryStartBlock ? parseInt(registryStartBlock) : backend === 'simulated' ? 0 : null
+  }
+}
+
+export const LEADER_ELECTION_CONFIG = {
+  // Identifies this process in the lease table; Render sets RENDER_INSTANCE_ID per instance
+  instanceId: process.env.INSTANCE_ID || process.env.RENDER_INSTANCE_ID || `${hostname()}-${process.pid}`,
+  // A leader that stops renewing loses the lease after this long and another instance takes over
+  leaseTtlMs: parseInt(process.env.LEADER_LEASE_TTL_MS || '30000'),
+  renewIntervalMs: parseInt(process.env.LEADER_RENEW_INTERVAL_MS || '10000')
+}
+
+export const MAPPING_CONFIG = {
+  // Tokens whose metadataId is written per statement; each chunk commits together with the resume cursor
+  chunkSize: parseInt(process.env.MAPPING_CHUNK_SIZE || '500')
+}
+
+export const PARITY_CHECK_CONFIG = {
+  // Tokens whose tokenURI is checked after each mapping run; the admin endpoint can check every token instead
+  sampleSize: parseInt(process.env.PARITY_CHECK_SAMPLE_SIZE || '50'),
+  // tokenURI calls in flight at once
+  concurrency: parseInt(process.env.PARITY_CHECK_CONCURRENCY || '5'),
+  // Failed checks after which the seed lifecycle stops retrying and waits for an admin
+  maxAttempts: parseInt(process.env.PARITY_CHECK_MAX_ATTEMPTS || '5')
+}
+
+export const REVEAL_AUTH_CONFIG = {
+  // EIP-712 domain name and version of reveal authorizations
+  domainName: process.env.REVEAL_DOMAIN_NAME || 'ROG Metadata API',
+  domainVersion: process.env.REVEAL_DOMAIN_VERSION || '1',
+  // Seconds a reveal authorization stays valid after GET /metadata/reveal/message issues it
+  ttlSeconds: parseInt(process.env.REVEAL_SIGNATURE_TTL_SECONDS || '600')
+}
+
+export const REVEAL_BATCH_CONFIG = {
+  // Most tokens one batch reveal covers; "every token" batches take the lowest token IDs first
+  maxTokens: parseInt(process.env.REVEAL_BATCH_MAX_TOKENS || '100'),
+  // A batch is revealed in one database transaction, which is rolled back after this long
+  transactionTimeoutMs: parseInt(process.env.REVEAL_BATCH_TIMEOUT_MS || '30000')
+}
+
+export const MASS_REVEAL_CONFIG = {
+  // Tokens revealed per transaction; each chunk commits together with the job's resume cursor
+  chunkSize: parseInt(process.env.MASS_REVEAL_CHUNK_SIZE || '200')
+}
+
+export const ALLOCATION_CONFIG = {
+  // Attribute (trait_type) of origin metadata holding the origin's rarity tier
+  rarityTraitType: process.env.RARITY_TRAIT_TYPE || 'Rarity',
+  // Simulated reveals of a whole pool per policy behind GET /admin/allocation-policy/simulate
+  simulationRuns: parseInt(process.env.ALLOCATION_SIMULATION_RUNS || '3')
+}
+
+export const SIWE_CONFIG = {
+  // Domain SIWE messages must name; sign-in is refused while it is unset
+  domain: process.env.SIWE_DOMAIN || '',
+  // Seconds a nonce from GET /auth/nonce can be signed in with
+  nonceTtlSeconds: parseInt(process.env.SIWE_NONCE_TTL_SECONDS || '300'),
+  // Seconds a holder session lasts, capped by the message's Expiration Time
+  sessionTtlSeconds: parseInt(process.env.SIWE_SESSION_TTL_SECONDS || '3600')
+}
+
+export const METADATA_CONFIG = {
+  baseUri: process.env.METADATA_BASE_URI || 'https://your-domain.com/metadata/',
+  suffix: process.env.METADATA_SUFFIX || '.json'
+}
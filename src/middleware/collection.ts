@@ -0,0 +1,46 @@
+/**
+ * Collection Resolution Middleware
+ *
+ * Resolves the collection a request targets and stores it in
+ * `res.locals.collection`. The slug comes from the `/collections/:slug`
+ * mount path or the `collection` query parameter; requests without either
+ * are served from the default collection.
+ */
+
+import { Request, Response, NextFunction } from 'express'
+import { Collection } from '@prisma/client'
+import { collectionService } from '../services/collection'
+
+export const resolveCollection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const slug = req.params.slug ?? (typeof req.query.collection === 'string' ? req.query.collection : undefined)
+
+    const collection = slug
+      ? await collectionService.getCollectionBySlug(slug)
+      : await collectionService.getDefaultCollection()
+
+    if (!collection) {
+      res.status(404).json({
+        success: false,
+        error: slug ? `Collection ${slug} not found` : 'No default collection configured'
+      })
+      return
+    }
+
+    res.locals.collection = collection
+    next()
+  } catch (error) {
+    console.error('Error resolving collection:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Collection resolved for this request by `resolveCollection`
+ */
+export const getCollection = (res: Response): Collection => {
+  return res.locals.collection as Collection
+}
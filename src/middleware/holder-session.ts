@@ -0,0 +1,63 @@
+/**
+ * Holder Session Middleware
+ *
+ * Reads an `Authorization: Bearer <token>` header issued by POST /auth/verify
+ * and stores the live session in `res.locals.holderSession`. Requests without
+ * the header pass through, so holder endpoints can still take a per-action
+ * signature; a header with an unknown, expired or revoked token, or one issued
+ * for another collection, is rejected. Runs after `resolveCollection`.
+ */
+
+import { Request, Response, NextFunction } from 'express'
+import { HolderSession } from '@prisma/client'
+import { holderSessionService } from '../services/holder-session'
+import { getCollection } from './collection'
+
+export const resolveHolderSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const header = req.headers.authorization
+  if (!header) {
+    next()
+    return
+  }
+
+  try {
+    const match = header.match(/^Bearer\s+(\S+)$/i)
+    if (!match) {
+      res.status(401).json({ success: false, error: 'Authorization header must be "Bearer <session token>"' })
+      return
+    }
+
+    const session = await holderSessionService.getSession(getCollection(res), match[1])
+    if (!session) {
+      res.status(401).json({ success: false, error: 'Session is unknown, expired, revoked or for another collection' })
+      return
+    }
+
+    res.locals.holderSession = session
+    next()
+  } catch (error) {
+    console.error('Error resolving holder session:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Like `resolveHolderSession`, but the session is mandatory
+ */
+export const requireHolderSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.headers.authorization) {
+    res.status(401).json({ success: false, error: 'Sign in with Ethereum first (POST /auth/verify)' })
+    return
+  }
+  await resolveHolderSession(req, res, next)
+}
+
+/**
+ * Session resolved for this request, or null when the request carries none
+ */
+export const getHolderSession = (res: Response): HolderSession | null => {
+  return (res.locals.holderSession as HolderSession | undefined) ?? null
+}
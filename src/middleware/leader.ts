@@ -0,0 +1,24 @@
+/**
+ * Leader Middleware for Admin Job Routes
+ *
+ * Jobs that write indexer or mapping state only run on the instance holding
+ * the scheduler lease, so two instances never work on the same data at once.
+ * Other instances answer with 409 and name the current leader.
+ */
+
+import { Request, Response, NextFunction } from 'express'
+import { schedulerService } from '../services/scheduler'
+
+export const requireLeader = (req: Request, res: Response, next: NextFunction): void => {
+  if (schedulerService.isLeader()) {
+    next()
+    return
+  }
+
+  const { instanceId, leaseHolder } = schedulerService.getStatus().leader
+  res.status(409).json({
+    success: false,
+    error: `Instance ${instanceId} is not the scheduler leader${leaseHolder ? `, retry on ${leaseHolder}` : ''}`,
+    leader: leaseHolder
+  })
+}
@@ -6,25 +6,224 @@
  * These endpoints require administrative privileges.
  */
 
-import { Router } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
+import { Prisma } from '@prisma/client'
+import { isAddress } from 'viem'
 import { MetadataService } from '../services/metadata'
-import { BlockchainService } from '../services/blockchain'
+import { getBlockchainService } from '../services/blockchain'
 import { MappingService } from '../services/mapping'
 import { TokenMetadata } from '../services/metadata'
 import { schedulerService } from '../services/scheduler'
-import { nftSyncService } from '../services/nft-sync'
+import { getNftSyncService } from '../services/nft-sync'
+import { getProviderPool } from '../services/provider-pool'
+import { SimulatedAvatarContract } from '../services/simulated-chain'
+import { collectionService } from '../services/collection'
+import { tokenUriParityService } from '../services/token-uri-parity'
+import { seedLifecycleService } from '../services/seed-lifecycle'
+import { provenanceService } from '../services/provenance'
+import { holderSessionService } from '../services/holder-session'
+import { delegationService } from '../services/delegation'
+import { holderAuthorizationService } from '../services/holder-authorization'
+import { massRevealService } from '../services/mass-reveal'
+import { allocationPolicyService } from '../services/allocation-policy'
+import { revealAuditService } from '../services/reveal-audit'
+import { revealService } from '../services/reveal'
+import { DelegationScope } from '../services/chain-backend'
 import { adminAuth, adminRateLimit } from '../middleware/auth'
+import { resolveCollection, getCollection } from '../middleware/collection'
+import { requireLeader } from '../middleware/leader'
+import { ALLOCATION_CONFIG } from '../config/contracts'
 import prisma from '../config/database'
 
 const router = Router()
 const metadataService = new MetadataService()
-const blockchainService = new BlockchainService()
 const mappingService = new MappingService()
 
 // Apply authentication and rate limiting to all admin routes
 router.use(adminRateLimit)
 router.use(adminAuth)
 
+/**
+ * @swagger
+ * /admin/collections:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List all collections
+ *     description: Retrieve every collection including inactive ones
+ *     security:
+ *       - AdminApiKey: []
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Collection'
+ *       401:
+ *         description: Unauthorized - Invalid or missing API key
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/admin/collections', async (req, res) => {
+  try {
+    const collections = await collectionService.listCollections(true)
+    res.json({
+      success: true,
+      data: collections
+    })
+  } catch (error) {
+    console.error('Error listing collections:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/collections:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create a collection
+ *     description: Register a new drop. Its Transfer events are indexed from the next NFT sync cycle on.
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [slug, name, chainId, address, abiProfile, maxSupply, boxTypes, publicBoxTypeId]
+ *             properties:
+ *               slug:
+ *                 type: string
+ *                 example: rog-avatar-s2
+ *               name:
+ *                 type: string
+ *                 example: ROG Avatar Season 2
+ *               chainId:
+ *                 type: integer
+ *                 example: 1
+ *               address:
+ *                 type: string
+ *                 example: "0x471C2c840B69EB92523B1De0EEA791Ae1359AFd7"
+ *               abiProfile:
+ *                 type: string
+ *                 example: phase-three-avatar
+ *               maxSupply:
+ *                 type: integer
+ *                 example: 6020
+ *               mintPrice:
+ *                 type: string
+ *                 example: "0"
+ *               soulboundStartTime:
+ *                 type: string
+ *                 format: date-time
+ *               soulboundEndTime:
+ *                 type: string
+ *                 format: date-time
+ *               publicStartTime:
+ *                 type: string
+ *                 format: date-time
+ *               publicEndTime:
+ *                 type: string
+ *                 format: date-time
+ *               revealStartTime:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Reveals open once the mappings are verified and this time has passed (immediately when omitted)
+ *               boxTypes:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/BoxType'
+ *               publicBoxTypeId:
+ *                 type: integer
+ *                 description: Box type assigned to mints without a soulbound linkage
+ *                 example: 3
+ *               startBlock:
+ *                 type: integer
+ *                 description: Deployment block, where Transfer indexing starts
+ *                 example: 8123456
+ *               confirmations:
+ *                 type: integer
+ *                 description: Blocks behind the head before a block is indexed; defaults to the chain's setting
+ *                 example: 2
+ *     responses:
+ *       200:
+ *         description: Collection created
+ *       400:
+ *         description: Invalid collection settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Invalid or missing API key
+ *       409:
+ *         description: A collection with this slug or contract already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/admin/collections', async (req, res) => {
+  try {
+    const { slug, name, chainId, address, abiProfile, maxSupply, boxTypes, publicBoxTypeId } = req.body ?? {}
+
+    if (!slug || !name || chainId === undefined || !address || !abiProfile || maxSupply === undefined ||
+        !Array.isArray(boxTypes) || publicBoxTypeId === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'slug, name, chainId, address, abiProfile, maxSupply, boxTypes and publicBoxTypeId are required'
+      })
+    }
+
+    const input = {
+      ...req.body,
+      chainId: parseInt(chainId),
+      maxSupply: parseInt(maxSupply),
+      publicBoxTypeId: parseInt(publicBoxTypeId),
+      startBlock: req.body.startBlock !== undefined ? parseInt(req.body.startBlock) : undefined,
+      confirmations: req.body.confirmations !== undefined && req.body.confirmations !== null ? parseInt(req.body.confirmations) : undefined,
+      boxTypes: boxTypes.map((boxType: { id: number | string; name: string }) => ({
+        id: parseInt(String(boxType.id)),
+        name: String(boxType.name)
+      }))
+    }
+
+    const invalid = collectionService.validateCollectionInput(input)
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid })
+    }
+
+    const collection = await collectionService.createCollection(input)
+
+    res.json({
+      success: true,
+      message: `Created collection ${collection.slug}`,
+      data: collection
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A collection with this slug or contract already exists' })
+    }
+    console.error('Error creating collection:', error)
+    res.status(500).json({ success: false, error: 'Failed to create collection' })
+  }
+})
+
+// The routes below act on the collection given by ?collection=<slug>, or the default collection
+router.use('/admin', resolveCollection)
+
 /**
  * @swagger
  * /admin/random-seed-status:
@@ -57,6 +256,23 @@ router.use(adminAuth)
  *                     mappingsGenerated:
  *                       type: boolean
  *                       example: true
+ *                     lifecycle:
+ *                       $ref: '#/components/schemas/SeedLifecycle'
+ *                     mappingProgress:
+ *                       type: object
+ *                       nullable: true
+ *                       description: Progress of the chunked mapping run for the current seed
+ *                       properties:
+ *                         mappingCursor:
+ *                           type: integer
+ *                           description: Highest tokenId whose metadataId has been committed
+ *                           example: 3000
+ *                         mappedTokens:
+ *                           type: integer
+ *                           example: 3000
+ *                         totalTokens:
+ *                           type: integer
+ *                           example: 6020
  *                     syncedAt:
  *                       type: string
  *                       format: date-time
@@ -82,19 +298,27 @@ router.use(adminAuth)
  */
 router.get('/admin/random-seed-status', async (req, res) => {
   try {
-    const contractStatus = await blockchainService.getRandomSeedStatus()
+    const collection = getCollection(res)
+    const contractStatus = await getBlockchainService(collection).getRandomSeedStatus()
     
     const dbSeed = await prisma.randomSeedInfo.findFirst({
-      where: { randomSeed: contractStatus.randomSeed.toString() },
+      where: { collectionId: collection.id, randomSeed: contractStatus.randomSeed.toString() },
       orderBy: { syncedAt: 'desc' }
     })
 
+    const progress = dbSeed ? await mappingService.getMappingProgress(collection.id) : null
+    const lifecycle = await seedLifecycleService.getLifecycle(collection)
+
     res.json({
       success: true,
       data: {
         randomSeed: contractStatus.randomSeed.toString(),
         isRevealed: contractStatus.isRevealed,
         mappingsGenerated: dbSeed?.mappingsGenerated || false,
+        lifecycle,
+        mappingProgress: progress
+          ? { mappingCursor: progress.mappingCursor, mappedTokens: progress.mappedTokens, totalTokens: progress.totalTokens }
+          : null,
         syncedAt: dbSeed?.syncedAt?.toISOString()
       }
     })
@@ -110,7 +334,7 @@ router.get('/admin/random-seed-status', async (req, res) => {
  *   post:
  *     tags: [Admin]
  *     summary: Sync random seed from blockchain
- *     description: Manually sync the random seed from the blockchain contract and generate mappings
+ *     description: Reads the random seed from the contract and advances the seed lifecycle (generate mappings, verify them against tokenURI, open reveals) as far as it can go
  *     security:
  *       - AdminApiKey: []
  *     responses:
@@ -131,6 +355,8 @@ router.get('/admin/random-seed-status', async (req, res) => {
  *                   type: string
  *                   nullable: true
  *                   example: "12345678901234567890"
+ *                 lifecycle:
+ *                   $ref: '#/components/schemas/SeedLifecycle'
  *       401:
  *         description: Unauthorized - Admin API key required
  *         content:
@@ -143,24 +369,22 @@ router.get('/admin/random-seed-status', async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: This instance is not the scheduler leader
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/admin/sync-randomseed', async (req, res) => {
+router.post('/admin/sync-randomseed', requireLeader, async (req, res) => {
   try {
-    const {
-      randomSeed,
-      needToGenerateMappings,
-    } = await blockchainService.syncRandomSeedFromContract()
-    
-    if (randomSeed) {
-      const maxSupply = await blockchainService.getMaxSupply()
-      await mappingService.generateAllMappings(randomSeed, maxSupply)
-    }
+    const lifecycle = await seedLifecycleService.advance(getCollection(res))
     
     res.json({
       success: true,
       message: 'Random seed sync completed',
-      randomSeed: randomSeed?.toString() || null,
-      needToGenerateMappings,
+      randomSeed: lifecycle.randomSeed,
+      lifecycle
     })
   } catch (error) {
     console.error('Error syncing random seed:', error)
@@ -170,180 +394,1577 @@ router.post('/admin/sync-randomseed', async (req, res) => {
 
 /**
  * @swagger
- * /admin/blind-box-metadata:
+ * /admin/seed-lifecycle/retry:
  *   post:
  *     tags: [Admin]
- *     summary: Create blind box metadata
- *     description: Create metadata template for a specific blind box type
+ *     summary: Retry the current seed's mapping run
+ *     description: Clears the failed tokenURI parity checks of the current seed, moves it back to mappings_generating and advances the lifecycle, which resumes the mapping run and checks parity again. Only allowed while mappings are generating or failed.
  *     security:
  *       - AdminApiKey: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - boxTypeId
- *               - metadata
- *             properties:
- *               boxTypeId:
- *                 type: integer
- *                 description: Box type identifier (0=金盒, 1=紅盒, 2=藍盒, 3=公售盒)
- *                 minimum: 0
- *                 maximum: 3
- *                 example: 1
- *               metadata:
- *                 $ref: '#/components/schemas/TokenMetadata'
  *     responses:
  *       200:
- *         description: Success
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/SuccessResponse'
- *       400:
- *         description: Missing required fields
+ *         description: Lifecycle after the retry
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Unauthorized
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SeedLifecycle'
+ *       404:
+ *         description: No random seed recorded for the collection
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       500:
- *         description: Internal server error
+ *       409:
+ *         description: The lifecycle is in another state or busy, or this instance is not the scheduler leader
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/admin/blind-box-metadata', async (req, res) => {
+router.post('/admin/seed-lifecycle/retry', requireLeader, async (req, res) => {
   try {
-    const { boxTypeId, metadata } = req.body
-    
-    if (boxTypeId === undefined || !metadata) {
-      return res.status(400).json({ success: false, error: 'boxTypeId and metadata are required' })
-    }
-
-    await metadataService.createBlindBoxMetadata(parseInt(boxTypeId), metadata as TokenMetadata)
-    
-    res.json({
-      success: true,
-      message: `Created blind box metadata for boxType ${boxTypeId}`
-    })
+    const lifecycle = await seedLifecycleService.retry(getCollection(res))
+    res.json({ success: true, data: lifecycle })
   } catch (error) {
-    console.error('Error creating blind box metadata:', error)
-    res.status(500).json({ success: false, error: 'Failed to create blind box metadata' })
+    sendSeedLifecycleError(res, error, 'Failed to retry seed lifecycle')
   }
 })
 
 /**
  * @swagger
- * /admin/origin-metadata:
+ * /admin/seed-lifecycle/advance:
  *   post:
  *     tags: [Admin]
- *     summary: Create origin metadata
+ *     summary: Accept the current seed's mappings without a passing parity check
+ *     description: Moves the current seed from mappings_generating or mappings_failed to mappings_verified and advances the lifecycle, so reveals can open. Every mapping chunk must have been written. The reason is written to the server log.
+ *     security:
+ *       - AdminApiKey: []
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
  *             properties:
- *               originId:
- *                 type: integer
- *               boxTypeId:
- *                 type: integer
- *               metadata:
- *                 type: object
+ *               reason:
+ *                 type: string
+ *                 example: "Mismatches are tokens burned before the seed was set"
  *     responses:
  *       200:
- *         description: Success
+ *         description: Lifecycle after the override
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SeedLifecycle'
+ *       404:
+ *         description: No random seed recorded for the collection
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The lifecycle is in another state or busy, the mappings are incomplete, or this instance is not the scheduler leader
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/admin/origin-metadata', async (req, res) => {
+router.post('/admin/seed-lifecycle/advance', requireLeader, async (req, res) => {
   try {
-    const { originId, boxTypeId, metadata } = req.body
-    
-    if (!originId || boxTypeId === undefined || !metadata) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'originId, boxTypeId and metadata are required' 
-      })
-    }
-
-    await metadataService.createOriginMetadata(
-      parseInt(originId), 
-      parseInt(boxTypeId), 
-      metadata as TokenMetadata
-    )
-    
-    res.json({
-      success: true,
-      message: `Created origin metadata for originId ${originId}`
-    })
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : null
+    const lifecycle = await seedLifecycleService.acceptMappings(getCollection(res), reason)
+    res.json({ success: true, data: lifecycle })
   } catch (error) {
-    console.error('Error creating origin metadata:', error)
-    res.status(500).json({ success: false, error: 'Failed to create origin metadata' })
+    sendSeedLifecycleError(res, error, 'Failed to advance seed lifecycle')
   }
 })
 
+function sendSeedLifecycleError(res: Response, error: unknown, fallback: string) {
+  console.error(`${fallback}:`, error)
+  if (error instanceof Error && error.message.startsWith('No random seed')) {
+    return res.status(404).json({ success: false, error: error.message })
+  }
+  if (error instanceof Error && (error.message.includes('overrides only apply') || error.message.includes('is busy') || error.message.includes('not complete'))) {
+    return res.status(409).json({ success: false, error: error.message })
+  }
+  res.status(500).json({ success: false, error: fallback })
+}
+
 /**
  * @swagger
- * /admin/batch-origin-metadata:
+ * /admin/token-uri-parity:
  *   post:
  *     tags: [Admin]
- *     summary: Create batch origin metadata
+ *     summary: Check tokenURI parity against the contract
+ *     description: |
+ *       Calls the contract's tokenURI for a seed-derived sample of indexed tokens (or for every minted token), parses the metadataId
+ *       out of the URI and compares it with the stored NftInfo.metadataId and with the value computed by
+ *       calculateMetadataId. A sample check also runs after every mapping generation.
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: collection
+ *         in: query
+ *         required: false
+ *         description: Collection slug (defaults to the default collection)
+ *         schema:
+ *           type: string
  *     requestBody:
- *       required: true
+ *       required: false
  *       content:
  *         application/json:
  *           schema:
  *             type: object
  *             properties:
- *               boxTypeId:
+ *               all:
+ *                 type: boolean
+ *                 description: Check every minted token instead of a sample
+ *                 example: false
+ *               sampleSize:
  *                 type: integer
- *               metadataList:
- *                 type: array
- *                 items:
- *                   type: object
+ *                 minimum: 1
+ *                 description: Number of tokens to sample (defaults to PARITY_CHECK_SAMPLE_SIZE)
+ *                 example: 50
+ *     responses:
+ *       200:
+ *         description: Parity report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ParityReport'
+ *       400:
+ *         description: Invalid sample size, or the random seed is not revealed yet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   get:
+ *     tags: [Admin]
+ *     summary: Last tokenURI parity report
+ *     description: The report of the last parity check run by this instance, or null when none has run yet
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: collection
+ *         in: query
+ *         required: false
+ *         description: Collection slug (defaults to the default collection)
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Success
- */
-router.post('/admin/batch-origin-metadata', async (req, res) => {
-  try {
-    const { boxTypeId, metadataList } = req.body
-    
-    if (boxTypeId === undefined || !Array.isArray(metadataList)) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'boxTypeId and metadataList array are required' 
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   nullable: true
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ParityReport'
+ */
+router.post('/admin/token-uri-parity', async (req, res) => {
+  try {
+    const collection = getCollection(res)
+    const all = req.body?.all === true
+    const sampleSize = req.body?.sampleSize !== undefined ? parseInt(req.body.sampleSize) : undefined
+
+    if (sampleSize !== undefined && (isNaN(sampleSize) || sampleSize < 1)) {
+      return res.status(400).json({ success: false, error: 'sampleSize must be a positive integer' })
+    }
+
+    const { isRevealed } = await getBlockchainService(collection).getRandomSeedStatus()
+    if (!isRevealed) {
+      return res.status(400).json({ success: false, error: 'Random seed is not revealed yet, tokenURI does not carry a metadataId' })
+    }
+
+    const report = await tokenUriParityService.checkParity(collection, { all, sampleSize })
+    res.json({ success: true, data: report })
+  } catch (error) {
+    console.error('Error checking tokenURI parity:', error)
+    res.status(500).json({ success: false, error: 'Failed to check tokenURI parity' })
+  }
+})
+
+router.get('/admin/token-uri-parity', (req, res) => {
+  res.json({ success: true, data: tokenUriParityService.getLastReport(getCollection(res)) })
+})
+
+/**
+ * Admin named in the X-Admin-Actor header, recorded with revocations and reassignments. The header is
+ * self-reported: every admin holds the same ADMIN_API_KEY, so it names who claims to act, not who did.
+ */
+function parseAdminActor(req: Request): string | null {
+  const actor = req.get('x-admin-actor')?.trim()
+  return actor && actor.length <= 64 ? actor : null
+}
+
+/**
+ * limit/offset query parameters of the paged seed history endpoints
+ */
+function parsePaging(query: Record<string, unknown>): { limit: number; offset: number } | null {
+  const limit = query.limit !== undefined ? parseInt(String(query.limit)) : 100
+  const offset = query.offset !== undefined ? parseInt(String(query.offset)) : 0
+  if (isNaN(limit) || limit < 1 || limit > 1000 || isNaN(offset) || offset < 0) {
+    return null
+  }
+  return { limit, offset }
+}
+
+/**
+ * @swagger
+ * /admin/seeds:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Seed history
+ *     description: Every random seed observed for the collection, newest (current) first, with the RandomSeedSet block and transaction and how many tokens each seed mapped and remapped
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: collection
+ *         in: query
+ *         required: false
+ *         description: Collection slug (defaults to the default collection)
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SeedHistoryEntry'
+ */
+router.get('/admin/seeds', async (req, res) => {
+  try {
+    const collection = getCollection(res)
+    res.json({ success: true, data: await mappingService.getSeedHistory(collection.id) })
+  } catch (error) {
+    console.error('Error getting seed history:', error)
+    res.status(500).json({ success: false, error: 'Failed to get seed history' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/seeds/tokens:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Seed behind each token's metadataId
+ *     description: Lists tokens with their stored metadataId and the seed it was derived from; `current` is false for tokens still mapped by an earlier seed
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: collection
+ *         in: query
+ *         required: false
+ *         description: Collection slug (defaults to the default collection)
+ *         schema:
+ *           type: string
+ *       - name: tokenId
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *       - name: offset
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 total:
+ *                   type: integer
+ *                   example: 6020
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       tokenId:
+ *                         type: integer
+ *                         example: 42
+ *                       metadataId:
+ *                         type: integer
+ *                         nullable: true
+ *                         example: 1337
+ *                       randomSeedId:
+ *                         type: integer
+ *                         nullable: true
+ *                         example: 2
+ *                       randomSeed:
+ *                         type: string
+ *                         nullable: true
+ *                         example: '12345678901234567890'
+ *                       current:
+ *                         type: boolean
+ *                         example: true
+ *       400:
+ *         description: Invalid token ID or paging parameters
+ */
+router.get('/admin/seeds/tokens', async (req, res) => {
+  try {
+    const paging = parsePaging(req.query)
+    if (!paging) {
+      return res.status(400).json({ success: false, error: 'limit must be 1-1000 and offset must not be negative' })
+    }
+    const tokenId = req.query.tokenId !== undefined ? parseInt(String(req.query.tokenId)) : undefined
+    if (tokenId !== undefined && (isNaN(tokenId) || tokenId < 1)) {
+      return res.status(400).json({ success: false, error: 'Invalid token ID' })
+    }
+
+    const { total, tokens } = await mappingService.getTokenSeeds(getCollection(res).id, { tokenId, ...paging })
+    res.json({ success: true, total, data: tokens })
+  } catch (error) {
+    console.error('Error getting token seeds:', error)
+    res.status(500).json({ success: false, error: 'Failed to get token seeds' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/seeds/{seedId}/remap:
+ *   get:
+ *     tags: [Admin]
+ *     summary: metadataId changes made by a seed
+ *     description: Tokens whose metadataId changed when this seed replaced an earlier one, with the value before and after
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: seedId
+ *         in: path
+ *         required: true
+ *         description: Seed ID from GET /admin/seeds
+ *         schema:
+ *           type: integer
+ *       - name: collection
+ *         in: query
+ *         required: false
+ *         description: Collection slug (defaults to the default collection)
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *       - name: offset
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 total:
+ *                   type: integer
+ *                   example: 3000
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       tokenId:
+ *                         type: integer
+ *                         example: 42
+ *                       previousSeedId:
+ *                         type: integer
+ *                         nullable: true
+ *                         example: 1
+ *                       beforeMetadataId:
+ *                         type: integer
+ *                         example: 1337
+ *                       afterMetadataId:
+ *                         type: integer
+ *                         example: 512
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Invalid seed ID or paging parameters
+ *       404:
+ *         description: Seed not found for the collection
+ */
+router.get('/admin/seeds/:seedId/remap', async (req, res) => {
+  try {
+    const collection = getCollection(res)
+    const seedId = parseInt(req.params.seedId)
+    const paging = parsePaging(req.query)
+    if (isNaN(seedId) || !paging) {
+      return res.status(400).json({ success: false, error: 'Invalid seed ID or paging parameters' })
+    }
+
+    const seed = await prisma.randomSeedInfo.findFirst({ where: { id: seedId, collectionId: collection.id } })
+    if (!seed) {
+      return res.status(404).json({ success: false, error: 'Seed not found' })
+    }
+
+    const { total, remaps } = await mappingService.getRemaps(collection.id, seedId, paging.limit, paging.offset)
+    res.json({ success: true, total, data: remaps })
+  } catch (error) {
+    console.error('Error getting seed remaps:', error)
+    res.status(500).json({ success: false, error: 'Failed to get seed remaps' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/blind-box-metadata:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create blind box metadata
+ *     description: Create metadata template for a specific blind box type
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - boxTypeId
+ *               - metadata
+ *             properties:
+ *               boxTypeId:
+ *                 type: integer
+ *                 description: Box type identifier (0=金盒, 1=紅盒, 2=藍盒, 3=公售盒)
+ *                 minimum: 0
+ *                 maximum: 3
+ *                 example: 1
+ *               metadata:
+ *                 $ref: '#/components/schemas/TokenMetadata'
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         description: Missing required fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/admin/blind-box-metadata', async (req, res) => {
+  try {
+    const { boxTypeId, metadata } = req.body
+    
+    if (boxTypeId === undefined || !metadata) {
+      return res.status(400).json({ success: false, error: 'boxTypeId and metadata are required' })
+    }
+
+    await metadataService.createBlindBoxMetadata(getCollection(res).id, parseInt(boxTypeId), metadata as TokenMetadata)
+    
+    res.json({
+      success: true,
+      message: `Created blind box metadata for boxType ${boxTypeId}`
+    })
+  } catch (error) {
+    console.error('Error creating blind box metadata:', error)
+    res.status(500).json({ success: false, error: 'Failed to create blind box metadata' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/origin-metadata:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create origin metadata
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               originId:
+ *                 type: integer
+ *               boxTypeId:
+ *                 type: integer
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Success
+ *       409:
+ *         description: The box type's origin pool is locked
+ */
+router.post('/admin/origin-metadata', async (req, res) => {
+  try {
+    const { originId, boxTypeId, metadata } = req.body
+    
+    if (!originId || boxTypeId === undefined || !metadata) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'originId, boxTypeId and metadata are required' 
       })
     }
 
-    let created = 0
-    for (const item of metadataList) {
-      if (item.originId && item.metadata) {
-        await metadataService.createOriginMetadata(
-          parseInt(item.originId),
-          parseInt(boxTypeId),
-          item.metadata as TokenMetadata
-        )
-        created++
-      }
+    await metadataService.createOriginMetadata(
+      getCollection(res).id,
+      parseInt(originId), 
+      parseInt(boxTypeId), 
+      metadata as TokenMetadata
+    )
+    
+    res.json({
+      success: true,
+      message: `Created origin metadata for originId ${originId}`
+    })
+  } catch (error) {
+    console.error('Error creating origin metadata:', error)
+    if (error instanceof Error && error.message.includes('is locked')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to create origin metadata' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/batch-origin-metadata:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create batch origin metadata
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               boxTypeId:
+ *                 type: integer
+ *               metadataList:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Success
+ *       409:
+ *         description: The box type's origin pool is locked
+ */
+router.post('/admin/batch-origin-metadata', async (req, res) => {
+  try {
+    const { boxTypeId, metadataList } = req.body
+    
+    if (boxTypeId === undefined || !Array.isArray(metadataList)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'boxTypeId and metadataList array are required' 
+      })
+    }
+
+    const collection = getCollection(res)
+    let created = 0
+    for (const item of metadataList) {
+      if (item.originId && item.metadata) {
+        await metadataService.createOriginMetadata(
+          collection.id,
+          parseInt(item.originId),
+          parseInt(boxTypeId),
+          item.metadata as TokenMetadata
+        )
+        created++
+      }
+    }
+    
+    res.json({
+      success: true,
+      message: `Created ${created} origin metadata entries for boxType ${boxTypeId}`
+    })
+  } catch (error) {
+    console.error('Error creating batch origin metadata:', error)
+    if (error instanceof Error && error.message.includes('is locked')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to create batch origin metadata' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/origin-pool/lock:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Lock a box type's origin pool
+ *     description: Stores the Merkle root of the box type's origins (see GET /provenance); afterwards origin metadata writes to the pool are rejected. Reveals don't open and mass reveals can't be scheduled until every pool with origins is locked. A pool drawn from before locks were required can only be locked when every recorded draw ran over its current ordering.
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: collection
+ *         in: query
+ *         required: false
+ *         description: Collection slug (defaults to the default collection)
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - boxTypeId
+ *             properties:
+ *               boxTypeId:
+ *                 type: integer
+ *                 example: 1
+ *     responses:
+ *       200:
+ *         description: Pool locked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/PoolProvenance'
+ *       400:
+ *         description: Missing boxTypeId
+ *       409:
+ *         description: The pool is already locked, empty, or reveals of the box type drew over another ordering
+ */
+router.post('/admin/origin-pool/lock', async (req, res) => {
+  try {
+    const boxTypeId = parseInt(req.body?.boxTypeId)
+    if (isNaN(boxTypeId)) {
+      return res.status(400).json({ success: false, error: 'boxTypeId is required' })
+    }
+
+    const pool = await provenanceService.lockPool(getCollection(res), boxTypeId)
+    res.json({ success: true, data: pool })
+  } catch (error) {
+    console.error('Error locking origin pool:', error)
+    if (error instanceof Error && error.message.startsWith('Origin pool')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to lock origin pool' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/allocation-policy:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Origin allocation policy
+ *     description: How reveals of the collection draw from its origin pools (uniform, stratified by rarity tier, or reserved quotas per tier over time)
+ *     security:
+ *       - AdminApiKey: []
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AllocationPolicy'
+ */
+router.get('/admin/allocation-policy', (req, res) => {
+  res.json({ success: true, data: allocationPolicyService.getSettings(getCollection(res)) })
+})
+
+/**
+ * @swagger
+ * /admin/allocation-policy:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Set the origin allocation policy
+ *     description: Only possible before the collection's first reveal, so every assignment is drawn under the policy shown
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AllocationPolicy'
+ *     responses:
+ *       200:
+ *         description: Policy set
+ *       400:
+ *         description: Unknown policy or invalid quotas
+ *       409:
+ *         description: Reveals have started
+ */
+router.post('/admin/allocation-policy', async (req, res) => {
+  try {
+    const { policy, quotas } = req.body ?? {}
+    const settings = { policy, quotas: quotas ?? [] }
+    const invalid = allocationPolicyService.validateSettings(settings)
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid })
+    }
+
+    res.json({ success: true, data: await allocationPolicyService.updateSettings(getCollection(res), settings) })
+  } catch (error) {
+    console.error('Error setting allocation policy:', error)
+    if (error instanceof Error && error.message.endsWith('after reveals have started')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to set allocation policy' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/allocation-policy/simulate:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Simulate the rarity distribution under each policy
+ *     description: Reveals the whole origin pool of a box type in memory under each allocation policy with random seeds and returns the expected share of each rarity tier in each quarter of the reveal order. Reserved releases use the collection's quotas, with the reveals spread evenly from the first release to the last. Nothing is written.
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: boxTypeId
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - name: runs
+ *         in: query
+ *         required: false
+ *         description: Simulated reveals of the pool per policy (defaults to ALLOCATION_SIMULATION_RUNS)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Invalid boxTypeId or runs
+ *       409:
+ *         description: The box type's origin pool is empty
+ */
+router.get('/admin/allocation-policy/simulate', async (req, res) => {
+  try {
+    const collection = getCollection(res)
+    const boxTypeId = parseInt(String(req.query.boxTypeId))
+    if (!collectionService.getBoxTypes(collection).some(boxType => boxType.id === boxTypeId)) {
+      return res.status(400).json({ success: false, error: 'Invalid boxTypeId' })
+    }
+    const runs = req.query.runs !== undefined ? parseInt(String(req.query.runs)) : ALLOCATION_CONFIG.simulationRuns
+    if (isNaN(runs) || runs < 1 || runs > 20) {
+      return res.status(400).json({ success: false, error: 'runs must be 1-20' })
+    }
+
+    res.json({ success: true, data: await allocationPolicyService.simulate(collection, boxTypeId, runs) })
+  } catch (error) {
+    console.error('Error simulating allocation policies:', error)
+    if (error instanceof Error && error.message.endsWith('is empty')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to simulate allocation policies' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/mass-reveal:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Schedule a mass reveal
+ *     description: Schedules a reveal of every unrevealed token of the collection, or of one box type. Once the time has come and reveals are open, the scheduler leader reveals the tokens in chunks with the same draw as the public reveal route.
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When to start; defaults to the collection's reveal start time
+ *               boxTypeId:
+ *                 type: integer
+ *                 description: Only reveal tokens of this box type
+ *                 example: 1
+ *     responses:
+ *       200:
+ *         description: Job scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/MassRevealJob'
+ *       400:
+ *         description: Invalid scheduledAt or boxTypeId, or no time given and the collection has no reveal start time
+ *       409:
+ *         description: An active job already covers these tokens, or an origin pool in scope is not locked
+ */
+router.post('/admin/mass-reveal', async (req, res) => {
+  try {
+    const { scheduledAt, boxTypeId } = req.body ?? {}
+    const scheduledDate = scheduledAt !== undefined ? new Date(scheduledAt) : undefined
+    if (scheduledDate && isNaN(scheduledDate.getTime())) {
+      return res.status(400).json({ success: false, error: 'Invalid scheduledAt' })
+    }
+    const boxType = boxTypeId !== undefined && boxTypeId !== null ? parseInt(boxTypeId) : null
+    if (boxType !== null && isNaN(boxType)) {
+      return res.status(400).json({ success: false, error: 'Invalid boxTypeId' })
+    }
+
+    const job = await massRevealService.scheduleJob(getCollection(res), { boxTypeId: boxType, scheduledAt: scheduledDate })
+    res.json({ success: true, data: job })
+  } catch (error) {
+    console.error('Error scheduling mass reveal:', error)
+    if (error instanceof Error && (error.message.endsWith('already covers these tokens') || error.message.startsWith('Origin pools'))) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    if (error instanceof Error && (error.message.startsWith('Unknown box type') || error.message.startsWith('scheduledAt'))) {
+      return res.status(400).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to schedule mass reveal' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/mass-reveal:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List mass reveal jobs
+ *     description: Every mass reveal job of the collection with its progress, newest first
+ *     security:
+ *       - AdminApiKey: []
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MassRevealJob'
+ */
+router.get('/admin/mass-reveal', async (req, res) => {
+  try {
+    res.json({ success: true, data: await massRevealService.listJobs(getCollection(res)) })
+  } catch (error) {
+    console.error('Error listing mass reveal jobs:', error)
+    res.status(500).json({ success: false, error: 'Failed to list mass reveal jobs' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/mass-reveal/dry-run:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Plan a mass reveal without writing it
+ *     description: The origin a mass reveal started now would assign to each unrevealed token under the current seed, and how many tokens each box type's pool cannot cover. Nothing is written; reveals made in the meantime change the plan.
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: boxTypeId
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *       - name: limit
+ *         in: query
+ *         description: Page of planned assignments, in token order
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *       - name: offset
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Invalid boxTypeId or paging
+ *       409:
+ *         description: The collection has no random seed yet
+ */
+router.get('/admin/mass-reveal/dry-run', async (req, res) => {
+  try {
+    const paging = parsePaging(req.query)
+    if (!paging) {
+      return res.status(400).json({ success: false, error: 'limit must be 1-1000 and offset must not be negative' })
+    }
+    const collection = getCollection(res)
+    const boxTypeId = req.query.boxTypeId !== undefined ? parseInt(String(req.query.boxTypeId)) : null
+    if (boxTypeId !== null && !collectionService.getBoxTypes(collection).some(boxType => boxType.id === boxTypeId)) {
+      return res.status(400).json({ success: false, error: 'Invalid boxTypeId' })
+    }
+
+    res.json({ success: true, data: await massRevealService.planReveal(collection, boxTypeId, paging) })
+  } catch (error) {
+    console.error('Error planning mass reveal:', error)
+    if (error instanceof Error && error.message.endsWith('is not set yet')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to plan mass reveal' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/mass-reveal/{jobId}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Mass reveal job progress
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: jobId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/MassRevealJob'
+ *       404:
+ *         description: Job not found
+ */
+router.get('/admin/mass-reveal/:jobId', async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.jobId)
+    const job = isNaN(jobId) ? null : await massRevealService.getJob(getCollection(res), jobId)
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Mass reveal job not found' })
+    }
+    res.json({ success: true, data: job })
+  } catch (error) {
+    console.error('Error getting mass reveal job:', error)
+    res.status(500).json({ success: false, error: 'Failed to get mass reveal job' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/mass-reveal/{jobId}/cancel:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Cancel a mass reveal job
+ *     description: Stops a scheduled or running job. Chunks already committed stay revealed; the chunk in flight is rolled back.
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: jobId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Job cancelled
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: The job already completed or was cancelled
+ */
+router.post('/admin/mass-reveal/:jobId/cancel', async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.jobId)
+    if (isNaN(jobId)) {
+      return res.status(404).json({ success: false, error: 'Mass reveal job not found' })
+    }
+
+    const job = await massRevealService.cancelJob(getCollection(res), jobId)
+    res.json({ success: true, data: job })
+  } catch (error) {
+    console.error('Error cancelling mass reveal job:', error)
+    if (error instanceof Error && error.message.endsWith('not found')) {
+      return res.status(404).json({ success: false, error: error.message })
     }
-    
+    if (error instanceof Error && error.message.includes('is already')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to cancel mass reveal job' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/reveal-events:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Reveal audit log
+ *     description: Every change to a token's origin, newest first - holder and mass reveals with the owner, signer, signature and allocation policy, and admin revocations and reassignments with the origin they replaced
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: tokenId
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *       - name: originId
+ *         in: query
+ *         required: false
+ *         description: Only events that assigned or replaced this origin
+ *         schema:
+ *           type: integer
+ *       - name: action
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [reveal, batch_reveal, mass_reveal, revoke, reassign, reorg_rollback]
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *       - name: offset
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 total:
+ *                   type: integer
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RevealEvent'
+ *       400:
+ *         description: Invalid token ID, origin ID or paging
+ */
+router.get('/admin/reveal-events', async (req, res) => {
+  try {
+    const paging = parsePaging(req.query)
+    if (!paging) {
+      return res.status(400).json({ success: false, error: 'limit must be 1-1000 and offset must not be negative' })
+    }
+    const tokenId = req.query.tokenId !== undefined ? parseInt(String(req.query.tokenId)) : undefined
+    if (tokenId !== undefined && (isNaN(tokenId) || tokenId < 1)) {
+      return res.status(400).json({ success: false, error: 'Invalid token ID' })
+    }
+    const originId = req.query.originId !== undefined ? parseInt(String(req.query.originId)) : undefined
+    if (originId !== undefined && (isNaN(originId) || originId < 1)) {
+      return res.status(400).json({ success: false, error: 'Invalid origin ID' })
+    }
+    const action = typeof req.query.action === 'string' ? req.query.action : undefined
+
+    const { total, items } = await revealAuditService.listEvents(getCollection(res), { tokenId, originId, action }, paging)
     res.json({
       success: true,
-      message: `Created ${created} origin metadata entries for boxType ${boxTypeId}`
+      total,
+      data: items.map(item => ({ ...item, createdAt: item.createdAt.toISOString() }))
     })
   } catch (error) {
-    console.error('Error creating batch origin metadata:', error)
-    res.status(500).json({ success: false, error: 'Failed to create batch origin metadata' })
+    console.error('Error listing reveal events:', error)
+    res.status(500).json({ success: false, error: 'Failed to list reveal events' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/reveals/{tokenId}/revoke:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Revoke a reveal
+ *     description: |
+ *       Returns a revealed token to unrevealed and frees its origin unless another token still holds it. The change is written to the reveal audit log with the X-Admin-Actor.
+ *       The token can be revealed again. Under the uniform and stratified policies the draw depends only on the random seed, the token ID and which origins are taken, so it lands on the same origin again while that origin is free and the origins the first draw passed over are still taken. Under the reserved policy the draw also depends on the time of the reveal and may land elsewhere. To give the token a specific origin, use reassign instead.
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: tokenId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - name: X-Admin-Actor
+ *         in: header
+ *         required: true
+ *         description: Who is making the change, recorded in the reveal audit log. Self-reported and not checked against the shared admin API key.
+ *         schema:
+ *           type: string
+ *           maxLength: 64
+ *           example: alice@rog
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Revealed by a wallet that no longer held the token
+ *     responses:
+ *       200:
+ *         description: Reveal revoked
+ *       400:
+ *         description: Invalid token ID, or missing X-Admin-Actor
+ *       404:
+ *         description: Token not found
+ *       409:
+ *         description: The token is not revealed, or changed concurrently
+ */
+router.post('/admin/reveals/:tokenId/revoke', async (req, res) => {
+  try {
+    const tokenId = parseInt(req.params.tokenId)
+    if (isNaN(tokenId) || tokenId < 1) {
+      return res.status(400).json({ success: false, error: 'Invalid token ID' })
+    }
+    const actor = parseAdminActor(req)
+    if (!actor) {
+      return res.status(400).json({ success: false, error: 'X-Admin-Actor header (1-64 characters) is required' })
+    }
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : null
+
+    const change = await revealService.revokeReveal(getCollection(res), tokenId, actor, reason)
+    res.json({ success: true, data: change })
+  } catch (error) {
+    console.error('Error revoking reveal:', error)
+    if (error instanceof Error && error.message.endsWith('not found')) {
+      return res.status(404).json({ success: false, error: error.message })
+    }
+    if (error instanceof Error && (error.message.endsWith('is not revealed') || error.message.includes('changed concurrently'))) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to revoke reveal' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/reveals/{tokenId}/reassign:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Reassign a reveal to another origin
+ *     description: Moves a revealed token to a free origin of its box type and frees its former origin unless another token still holds it (e.g. to resolve a duplicate origin). The change is written to the reveal audit log with the X-Admin-Actor.
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: tokenId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - name: X-Admin-Actor
+ *         in: header
+ *         required: true
+ *         description: Who is making the change, recorded in the reveal audit log. Self-reported and not checked against the shared admin API key.
+ *         schema:
+ *           type: string
+ *           maxLength: 64
+ *           example: alice@rog
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - originId
+ *             properties:
+ *               originId:
+ *                 type: integer
+ *                 example: 42
+ *               reason:
+ *                 type: string
+ *                 example: Duplicate of token 17
+ *     responses:
+ *       200:
+ *         description: Reveal reassigned
+ *       400:
+ *         description: Invalid token ID or originId, missing X-Admin-Actor, or the origin is in another box type
+ *       404:
+ *         description: Token or origin not found
+ *       409:
+ *         description: The token is not revealed, the origin is already assigned, or the token changed concurrently
+ */
+router.post('/admin/reveals/:tokenId/reassign', async (req, res) => {
+  try {
+    const tokenId = parseInt(req.params.tokenId)
+    if (isNaN(tokenId) || tokenId < 1) {
+      return res.status(400).json({ success: false, error: 'Invalid token ID' })
+    }
+    const originId = parseInt(req.body?.originId)
+    if (isNaN(originId) || originId < 1) {
+      return res.status(400).json({ success: false, error: 'originId is required' })
+    }
+    const actor = parseAdminActor(req)
+    if (!actor) {
+      return res.status(400).json({ success: false, error: 'X-Admin-Actor header (1-64 characters) is required' })
+    }
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : null
+
+    const change = await revealService.reassignReveal(getCollection(res), tokenId, originId, actor, reason)
+    res.json({ success: true, data: change })
+  } catch (error) {
+    console.error('Error reassigning reveal:', error)
+    if (error instanceof Error && error.message.endsWith('not found')) {
+      return res.status(404).json({ success: false, error: error.message })
+    }
+    if (error instanceof Error && error.message.includes('is not in box type')) {
+      return res.status(400).json({ success: false, error: error.message })
+    }
+    if (error instanceof Error && /is not revealed|already (assigned|holds)|changed concurrently/.test(error.message)) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to reassign reveal' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/sessions:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List live holder sessions
+ *     description: Unexpired, unrevoked Sign-In with Ethereum sessions of the collection, newest first
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: address
+ *         in: query
+ *         required: false
+ *         description: Only sessions of this address
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Invalid address
+ */
+router.get('/admin/sessions', async (req, res) => {
+  try {
+    const address = typeof req.query.address === 'string' ? req.query.address : undefined
+    if (address !== undefined && !isAddress(address, { strict: false })) {
+      return res.status(400).json({ success: false, error: 'Invalid address' })
+    }
+
+    const sessions = await holderSessionService.listSessions(getCollection(res), address)
+    res.json({
+      success: true,
+      data: sessions.map(session => ({
+        id: session.id,
+        address: session.address,
+        chainId: session.chainId,
+        signatureType: session.signatureType,
+        createdAt: session.createdAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString()
+      }))
+    })
+  } catch (error) {
+    console.error('Error listing holder sessions:', error)
+    res.status(500).json({ success: false, error: 'Failed to list holder sessions' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/sessions/revoke:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Revoke holder sessions
+ *     description: Revokes one session by ID, or every live session of an address, on the collection
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               sessionId:
+ *                 type: integer
+ *                 example: 12
+ *               address:
+ *                 type: string
+ *                 example: "0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6"
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Neither a valid sessionId nor a valid address given
+ */
+router.post('/admin/sessions/revoke', async (req, res) => {
+  try {
+    const { sessionId, address } = req.body ?? {}
+    let revoked: number
+    if (sessionId !== undefined && !isNaN(parseInt(sessionId))) {
+      revoked = await holderSessionService.revoke(getCollection(res), { sessionId: parseInt(sessionId) })
+    } else if (typeof address === 'string' && isAddress(address, { strict: false })) {
+      revoked = await holderSessionService.revoke(getCollection(res), { address })
+    } else {
+      return res.status(400).json({ success: false, error: 'sessionId or address is required' })
+    }
+
+    res.json({ success: true, message: `Revoked ${revoked} session(s)`, revoked })
+  } catch (error) {
+    console.error('Error revoking holder sessions:', error)
+    res.status(500).json({ success: false, error: 'Failed to revoke holder sessions' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/delegations:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List indexed wallet delegations
+ *     description: Enabled delegations from the chain's delegation registry that cover the collection, newest first
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: address
+ *         in: query
+ *         required: false
+ *         description: Only delegations from or to this address
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Invalid address
+ */
+router.get('/admin/delegations', async (req, res) => {
+  try {
+    const address = typeof req.query.address === 'string' ? req.query.address : undefined
+    if (address !== undefined && !isAddress(address, { strict: false })) {
+      return res.status(400).json({ success: false, error: 'Invalid address' })
+    }
+
+    const delegations = await delegationService.listDelegations(getCollection(res), address)
+    res.json({
+      success: true,
+      data: delegations.map(delegation => ({
+        vault: delegation.vault,
+        delegate: delegation.delegate,
+        scope: delegation.scope,
+        tokenId: delegation.scope === 'token' ? delegation.tokenId : null,
+        blockNumber: delegation.blockNumber,
+        transactionHash: delegation.transactionHash
+      }))
+    })
+  } catch (error) {
+    console.error('Error listing delegations:', error)
+    res.status(500).json({ success: false, error: 'Failed to list delegations' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/delegations/sync:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Index the delegation registry now
+ *     description: Indexes registry logs up to the confirmed head instead of waiting for the next NFT sync cycle
+ *     security:
+ *       - AdminApiKey: []
+ *     responses:
+ *       200:
+ *         description: Success
+ *       409:
+ *         description: The registry's start block is not configured for the collection's chain
+ */
+router.post('/admin/delegations/sync', requireLeader, async (req, res) => {
+  try {
+    const applied = await delegationService.syncDelegations(getCollection(res))
+    res.json({ success: true, message: `Indexed ${applied} delegation log(s)`, applied })
+  } catch (error) {
+    console.error('Error syncing delegations:', error)
+    if (error instanceof Error && error.message.startsWith('DELEGATE_REGISTRY_START_BLOCK')) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    res.status(500).json({ success: false, error: 'Failed to sync delegations' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/authorizations:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Holder authorization log
+ *     description: Who authorized each holder action, through which path (owner or delegate) and signature type, newest first
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: tokenId
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *       - name: address
+ *         in: query
+ *         required: false
+ *         description: Only actions where this address was the owner or the signer
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *       - name: offset
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Invalid token ID, address or paging
+ */
+router.get('/admin/authorizations', async (req, res) => {
+  try {
+    const paging = parsePaging(req.query)
+    if (!paging) {
+      return res.status(400).json({ success: false, error: 'limit must be 1-1000 and offset must not be negative' })
+    }
+    const tokenId = req.query.tokenId !== undefined ? parseInt(String(req.query.tokenId)) : undefined
+    if (tokenId !== undefined && (isNaN(tokenId) || tokenId < 1)) {
+      return res.status(400).json({ success: false, error: 'Invalid token ID' })
+    }
+    const address = typeof req.query.address === 'string' ? req.query.address : undefined
+    if (address !== undefined && !isAddress(address, { strict: false })) {
+      return res.status(400).json({ success: false, error: 'Invalid address' })
+    }
+
+    const { total, items } = await holderAuthorizationService.listAuthorizations(getCollection(res), { tokenId, address }, paging)
+    res.json({
+      success: true,
+      total,
+      data: items.map(item => ({ ...item, createdAt: item.createdAt.toISOString() }))
+    })
+  } catch (error) {
+    console.error('Error listing holder authorizations:', error)
+    res.status(500).json({ success: false, error: 'Failed to list holder authorizations' })
   }
 })
 
@@ -381,7 +2002,7 @@ router.post('/admin/phase2-holder', async (req, res) => {
       })
     }
 
-    await metadataService.addPhase2Holder(userAddress, parseInt(boxTypeId), parseInt(tokenId))
+    await metadataService.addPhase2Holder(getCollection(res).id, userAddress, parseInt(boxTypeId), parseInt(tokenId))
     
     res.json({
       success: true,
@@ -432,10 +2053,11 @@ router.post('/admin/batch-phase2-holders', async (req, res) => {
       })
     }
 
+    const collection = getCollection(res)
     let added = 0
     for (const holder of holders) {
       if (holder.userAddress && holder.boxTypeId !== undefined && holder.tokenId !== undefined) {
-        await metadataService.addPhase2Holder(holder.userAddress, parseInt(holder.boxTypeId), parseInt(holder.tokenId))
+        await metadataService.addPhase2Holder(collection.id, holder.userAddress, parseInt(holder.boxTypeId), parseInt(holder.tokenId))
         added++
       }
     }
@@ -488,14 +2110,17 @@ router.post('/admin/batch-phase2-holders', async (req, res) => {
  */
 router.get('/admin/detailed-stats', async (req, res) => {
   try {
-    const stats = await metadataService.getStats()
+    const collection = getCollection(res)
+    const stats = await metadataService.getStats(collection.id)
     
     const randomSeedInfo = await prisma.randomSeedInfo.findMany({
+      where: { collectionId: collection.id },
       orderBy: { syncedAt: 'desc' }
     })
     
     const phase2HoldersCount = await prisma.phase2Holders.groupBy({
       by: ['boxTypeId'],
+      where: { collectionId: collection.id },
       _count: { id: true }
     })
     
@@ -519,7 +2144,7 @@ router.get('/admin/detailed-stats', async (req, res) => {
  *   get:
  *     tags: [Admin]
  *     summary: Get scheduler status
- *     description: Get the current status of the random seed monitoring scheduler
+ *     description: Get the current status of the scheduler, including which instance holds the scheduler lease and runs the background jobs
  *     security:
  *       - AdminApiKey: []
  *     responses:
@@ -542,6 +2167,26 @@ router.get('/admin/detailed-stats', async (req, res) => {
  *                     interval:
  *                       type: integer
  *                       example: 30000
+ *                     leader:
+ *                       type: object
+ *                       properties:
+ *                         instanceId:
+ *                           type: string
+ *                           description: This instance
+ *                           example: srv-abc123-7f9c8
+ *                         isLeader:
+ *                           type: boolean
+ *                           example: true
+ *                         leaseHolder:
+ *                           type: string
+ *                           description: Instance currently holding the lease
+ *                           example: srv-abc123-7f9c8
+ *                         leaseAcquiredAt:
+ *                           type: string
+ *                           format: date-time
+ *                         leaseExpiresAt:
+ *                           type: string
+ *                           format: date-time
  *       401:
  *         description: Unauthorized
  *         content:
@@ -568,28 +2213,33 @@ router.get('/admin/scheduler/status', (req, res) => {
   }
 })
 
-// /**
-//  * @swagger
-//  * /admin/scheduler/start:
-//  *   post:
-//  *     tags: [Admin]
-//  *     summary: Start random seed monitoring
-//  *     responses:
-//  *       200:
-//  *         description: Success
-//  */
-// router.post('/admin/scheduler/start', async (req, res) => {
-//   try {
-//     await schedulerService.startRandomSeedMonitoring()
-//     res.json({
-//       success: true,
-//       message: 'Random seed monitoring started'
-//     })
-//   } catch (error) {
-//     console.error('Error starting scheduler:', error)
-//     res.status(500).json({ success: false, error: 'Failed to start monitoring' })
-//   }
-// })
+/**
+ * @swagger
+ * /admin/scheduler/start:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Start random seed monitoring
+ *     description: Advance every collection's seed lifecycle now and on every RANDOM_SEED_CHECK_INTERVAL
+ *     security:
+ *       - AdminApiKey: []
+ *     responses:
+ *       200:
+ *         description: Success
+ *       409:
+ *         description: This instance is not the scheduler leader
+ */
+router.post('/admin/scheduler/start', requireLeader, async (req, res) => {
+  try {
+    await schedulerService.startRandomSeedMonitoring()
+    res.json({
+      success: true,
+      message: 'Random seed monitoring started'
+    })
+  } catch (error) {
+    console.error('Error starting scheduler:', error)
+    res.status(500).json({ success: false, error: 'Failed to start monitoring' })
+  }
+})
 
 /**
  * @swagger
@@ -597,6 +2247,9 @@ router.get('/admin/scheduler/status', (req, res) => {
  *   post:
  *     tags: [Admin]
  *     summary: Stop random seed monitoring
+ *     description: Stop advancing seed lifecycles on this instance until it is started again or re-elected
+ *     security:
+ *       - AdminApiKey: []
  *     responses:
  *       200:
  *         description: Success
@@ -619,22 +2272,69 @@ router.post('/admin/scheduler/stop', (req, res) => {
  * /admin/scheduler/force-check:
  *   post:
  *     tags: [Admin]
- *     summary: Force manual random seed check
+ *     summary: Force manual random seed check
+ *     responses:
+ *       200:
+ *         description: Success
+ *       409:
+ *         description: This instance is not the scheduler leader
+ */
+router.post('/admin/scheduler/force-check', requireLeader, async (req, res) => {
+  try {
+    const result = await schedulerService.forceCheck(getCollection(res))
+    res.json({
+      success: result.success,
+      message: result.message,
+      randomSeed: result.randomSeed
+    })
+  } catch (error) {
+    console.error('Error during force check:', error)
+    res.status(500).json({ success: false, error: 'Failed to perform force check' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/rpc/status:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get RPC provider pool health
+ *     description: Health score, failure counters and cooldown state of every configured RPC endpoint, per chain with active collections
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: chainId
+ *         in: query
+ *         required: false
+ *         description: Only report this chain
+ *         schema:
+ *           type: integer
+ *           example: 11155111
  *     responses:
  *       200:
  *         description: Success
  */
-router.post('/admin/scheduler/force-check', async (req, res) => {
+router.get('/admin/rpc/status', async (req, res) => {
   try {
-    const result = await schedulerService.forceCheck()
+    const chainId = req.query.chainId !== undefined ? parseInt(req.query.chainId as string) : undefined
+    const chains = await collectionService.listChains()
+
     res.json({
-      success: result.success,
-      message: result.message,
-      randomSeed: result.randomSeed
+      success: true,
+      data: chains
+        .filter(chain => chainId === undefined || chain.chainId === chainId)
+        .map(chain => {
+          const pool = getProviderPool(chain.chainId)
+          return {
+            chainId: chain.chainId,
+            quorum: pool.getQuorum(),
+            endpoints: pool.getStatus()
+          }
+        })
     })
   } catch (error) {
-    console.error('Error during force check:', error)
-    res.status(500).json({ success: false, error: 'Failed to perform force check' })
+    console.error('Error getting RPC status:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
   }
 })
 
@@ -652,7 +2352,7 @@ router.post('/admin/scheduler/force-check', async (req, res) => {
  */
 router.get('/admin/nft-sync/status', async (req, res) => {
   try {
-    const syncStatus = await nftSyncService.getSyncStatus()
+    const syncStatus = await getNftSyncService(getCollection(res)).getSyncStatus()
     const schedulerStatus = schedulerService.getStatus()
     
     res.json({
@@ -678,8 +2378,10 @@ router.get('/admin/nft-sync/status', async (req, res) => {
  *     responses:
  *       200:
  *         description: Success
+ *       409:
+ *         description: This instance is not the scheduler leader
  */
-router.post('/admin/nft-sync/start', async (req, res) => {
+router.post('/admin/nft-sync/start', requireLeader, async (req, res) => {
   try {
     await schedulerService.startNftSyncMonitoring()
     res.json({
@@ -736,11 +2438,13 @@ router.post('/admin/nft-sync/stop', (req, res) => {
  *     responses:
  *       200:
  *         description: Success
+ *       409:
+ *         description: This instance is not the scheduler leader
  */
-router.post('/admin/nft-sync/force-sync', async (req, res) => {
+router.post('/admin/nft-sync/force-sync', requireLeader, async (req, res) => {
   try {
     const { fromBlock, toBlock } = req.body
-    const result = await schedulerService.forceNftSync(fromBlock, toBlock)
+    const result = await schedulerService.forceNftSync(getCollection(res), fromBlock, toBlock)
     
     res.json({
       success: result.success,
@@ -774,8 +2478,10 @@ router.post('/admin/nft-sync/force-sync', async (req, res) => {
  *     responses:
  *       200:
  *         description: Success
+ *       409:
+ *         description: This instance is not the scheduler leader
  */
-router.post('/admin/nft-sync/historical', async (req, res) => {
+router.post('/admin/nft-sync/historical', requireLeader, async (req, res) => {
   try {
     const { fromBlock, toBlock } = req.body
     
@@ -786,7 +2492,7 @@ router.post('/admin/nft-sync/historical', async (req, res) => {
       })
     }
 
-    const result = await nftSyncService.syncHistoricalEvents(fromBlock, toBlock)
+    const result = await getNftSyncService(getCollection(res)).syncHistoricalEvents(fromBlock, toBlock)
     
     res.json({
       success: true,
@@ -799,4 +2505,422 @@ router.post('/admin/nft-sync/historical', async (req, res) => {
   }
 })
 
+/**
+ * @swagger
+ * /admin/nft-sync/events/{tokenId}:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get the recorded Transfer history of a token
+ *     description: Returns every Transfer event stored in the ledger for the token, oldest first
+ *     security:
+ *       - AdminApiKey: []
+ *     parameters:
+ *       - name: tokenId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Invalid token ID
+ */
+router.get('/admin/nft-sync/events/:tokenId', async (req, res) => {
+  try {
+    const tokenId = parseInt(req.params.tokenId)
+    if (isNaN(tokenId) || tokenId < 1) {
+      return res.status(400).json({ success: false, error: 'Invalid token ID' })
+    }
+
+    const events = await getNftSyncService(getCollection(res)).getTokenHistory(tokenId)
+
+    res.json({
+      success: true,
+      data: events
+    })
+  } catch (error) {
+    console.error('Error getting token Transfer history:', error)
+    res.status(500).json({ success: false, error: 'Failed to get token Transfer history' })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/nft-sync/rebuild:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Rebuild NFT ownership from the Transfer ledger
+ *     description: Re-derives the owner of every token recorded in the ledger without querying the chain
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reassignBoxTypes:
+ *                 type: boolean
+ *                 description: Also re-resolve box types from the on-chain soulbound linkage
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Success
+ *       409:
+ *         description: This instance is not the scheduler leader
+ */
+router.post('/admin/nft-sync/rebuild', requireLeader, async (req, res) => {
+  try {
+    const { reassignBoxTypes } = req.body ?? {}
+    const result = await getNftSyncService(getCollection(res)).rebuildFromLedger(reassignBoxTypes === true)
+
+    res.json({
+      success: true,
+      message: `Rebuilt ${result.tokens} tokens from the Transfer ledger`,
+      result
+    })
+  } catch (error) {
+    console.error('Error rebuilding from Transfer ledger:', error)
+    res.status(500).json({ success: false, error: 'Failed to rebuild from Transfer ledger' })
+  }
+})
+
+// Simulated Chain Endpoints (development only)
+
+/**
+ * Resolve the in-memory contract of the request's collection. Outside
+ * production, for collections on a chain with CHAIN_BACKEND_<chainId>=simulated.
+ */
+const requireSimulator = (req: Request, res: Response, next: NextFunction): void => {
+  const collection = getCollection(res)
+  const contract = process.env.NODE_ENV === 'production'
+    ? null
+    : getBlockchainService(collection).getSimulatedContract()
+
+  if (!contract) {
+    res.status(404).json({
+      success: false,
+      error: `Collection ${collection.slug} is not on a simulated chain`
+    })
+    return
+  }
+
+  res.locals.simulatedContract = contract
+  next()
+}
+
+const getSimulatedContract = (res: Response): SimulatedAvatarContract => {
+  return res.locals.simulatedContract as SimulatedAvatarContract
+}
+
+router.use('/admin/simulator', requireSimulator)
+
+/**
+ * @swagger
+ * /admin/simulator/state:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get simulated contract state
+ *     description: Block height, supply and random seed of the collection's in-memory contract. Only available outside production for collections on a simulated chain.
+ *     security:
+ *       - AdminApiKey: []
+ *     responses:
+ *       200:
+ *         description: Success
+ *       404:
+ *         description: Collection is not on a simulated chain
+ */
+router.get('/admin/simulator/state', (req, res) => {
+  res.json({
+    success: true,
+    data: getSimulatedContract(res).getState()
+  })
+})
+
+/**
+ * @swagger
+ * /admin/simulator/mint:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Mint on the simulated contract
+ *     description: Mint tokens in a new block, emitting Transfer and MintTokens logs
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [to]
+ *             properties:
+ *               to:
+ *                 type: string
+ *                 example: "0x1234567890123456789012345678901234567890"
+ *               quantity:
+ *                 type: integer
+ *                 default: 1
+ *               soulboundTokenIds:
+ *                 type: array
+ *                 description: Soulbound token each minted avatar is linked to (0 for a public mint), one per token
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Mint rejected by the contract
+ *       404:
+ *         description: Collection is not on a simulated chain
+ */
+router.post('/admin/simulator/mint', (req, res) => {
+  try {
+    const { to, quantity, soulboundTokenIds } = req.body
+    const result = getSimulatedContract(res).mint(
+      String(to),
+      quantity !== undefined ? parseInt(quantity) : 1,
+      Array.isArray(soulboundTokenIds) ? soulboundTokenIds.map((id: number | string) => parseInt(String(id))) : []
+    )
+
+    res.json({
+      success: true,
+      message: `Minted tokens ${result.tokenIds.join(', ')} in block ${result.blockNumber}`,
+      data: result
+    })
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/simulator/transfer:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Transfer on the simulated contract
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [from, to, tokenId]
+ *             properties:
+ *               from:
+ *                 type: string
+ *               to:
+ *                 type: string
+ *               tokenId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Transfer rejected by the contract
+ *       404:
+ *         description: Collection is not on a simulated chain
+ */
+router.post('/admin/simulator/transfer', (req, res) => {
+  try {
+    const { from, to, tokenId } = req.body
+    const result = getSimulatedContract(res).transfer(String(from), String(to), parseInt(tokenId))
+
+    res.json({
+      success: true,
+      message: `Transferred token ${tokenId} in block ${result.blockNumber}`,
+      data: result
+    })
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/simulator/random-seed:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Set the random seed on the simulated contract
+ *     description: Reveal the collection by emitting RandomSeedSet. Like the real contract this only works once.
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               randomSeed:
+ *                 type: string
+ *                 description: Decimal seed; a random one is drawn when omitted
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Seed already set
+ *       404:
+ *         description: Collection is not on a simulated chain
+ */
+router.post('/admin/simulator/random-seed', (req, res) => {
+  try {
+    const { randomSeed } = req.body ?? {}
+    const result = getSimulatedContract(res).setRandomSeed(randomSeed !== undefined ? BigInt(randomSeed) : undefined)
+
+    res.json({
+      success: true,
+      message: `Random seed set in block ${result.blockNumber}`,
+      data: { ...result, randomSeed: result.randomSeed.toString() }
+    })
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/simulator/delegate:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Delegate through the simulated delegation registry
+ *     description: Emits a DelegateAll, DelegateContract or DelegateERC721 log with full rights, like delegate.xyz v2
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [vault, delegate]
+ *             properties:
+ *               vault:
+ *                 type: string
+ *               delegate:
+ *                 type: string
+ *               scope:
+ *                 type: string
+ *                 enum: [all, contract, token]
+ *                 default: contract
+ *               tokenId:
+ *                 type: integer
+ *                 description: Required for the token scope
+ *               enable:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Delegation rejected
+ *       404:
+ *         description: Collection is not on a simulated chain
+ */
+router.post('/admin/simulator/delegate', (req, res) => {
+  try {
+    const { vault, delegate, scope = 'contract', tokenId, enable = true } = req.body
+    if (!['all', 'contract', 'token'].includes(scope)) {
+      return res.status(400).json({ success: false, error: 'scope must be all, contract or token' })
+    }
+    const result = getSimulatedContract(res).delegate(
+      String(vault),
+      String(delegate),
+      scope as DelegationScope,
+      enable !== false,
+      tokenId !== undefined ? parseInt(tokenId) : 0
+    )
+
+    res.json({
+      success: true,
+      message: `${enable !== false ? 'Delegated' : 'Revoked delegation'} (${scope}) in block ${result.blockNumber}`,
+      data: result
+    })
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/simulator/wallet:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Deploy a simulated contract wallet
+ *     description: The wallet's EIP-1271 isValidSignature accepts signatures by the owner key, like a 1-of-1 Safe
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [owner]
+ *             properties:
+ *               owner:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Success
+ *       400:
+ *         description: Invalid owner
+ *       404:
+ *         description: Collection is not on a simulated chain
+ */
+router.post('/admin/simulator/wallet', (req, res) => {
+  try {
+    const result = getSimulatedContract(res).deployWallet(String(req.body?.owner))
+
+    res.json({
+      success: true,
+      message: `Deployed wallet ${result.address} in block ${result.blockNumber}`,
+      data: result
+    })
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+/**
+ * @swagger
+ * /admin/simulator/mine:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Mine empty blocks on the simulated chain
+ *     description: Advance the chain so earlier transactions reach the configured confirmation depth
+ *     security:
+ *       - AdminApiKey: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               blocks:
+ *                 type: integer
+ *                 default: 1
+ *                 maximum: 10000
+ *     responses:
+ *       200:
+ *         description: Success
+ *       404:
+ *         description: Collection is not on a simulated chain
+ */
+router.post('/admin/simulator/mine', (req, res) => {
+  const blocks = req.body?.blocks !== undefined ? parseInt(req.body.blocks) : 1
+  if (isNaN(blocks) || blocks < 1 || blocks > 10000) {
+    return res.status(400).json({ success: false, error: 'blocks must be between 1 and 10000' })
+  }
+
+  const blockNumber = getSimulatedContract(res).mine(blocks)
+  res.json({
+    success: true,
+    message: `Mined ${blocks} blocks, head is now ${blockNumber}`,
+    data: { blockNumber }
+  })
+})
+
 export default router
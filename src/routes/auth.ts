@@ -0,0 +1,206 @@
+/**
+ * Holder Authentication Routes
+ *
+ * Sign-In with Ethereum (EIP-4361): fetch a nonce, sign a SIWE message with
+ * it and exchange the signature for a session token. Holder endpoints accept
+ * the token as `Authorization: Bearer <token>`. Sessions are issued for one
+ * collection (`/collections/:slug/auth/*`, `?collection=` or the default) and
+ * only that collection's endpoints accept them.
+ */
+
+import { Router } from 'express'
+import { resolveCollection, getCollection } from '../middleware/collection'
+import { holderSessionService } from '../services/holder-session'
+import { getHolderSession, requireHolderSession } from '../middleware/holder-session'
+
+const router = Router({ mergeParams: true })
+
+router.use('/auth', resolveCollection)
+
+/**
+ * @swagger
+ * /auth/nonce:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Issue a SIWE nonce
+ *     description: Nonce to put in the EIP-4361 message the holder signs next. It can be used once, until expiresAt.
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     nonce:
+ *                       type: string
+ *                       example: "a1B2c3D4e5F6g7H8i9"
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ */
+router.get('/auth/nonce', async (req, res) => {
+  try {
+    const { nonce, expiresAt } = await holderSessionService.issueNonce()
+    res.json({ success: true, data: { nonce, expiresAt: expiresAt.toISOString() } })
+  } catch (error) {
+    console.error('Error issuing SIWE nonce:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /auth/verify:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sign in with Ethereum
+ *     description: |
+ *       Verifies a signed EIP-4361 message and opens a holder session for its address on the collection.
+ *       The message must name SIWE_DOMAIN and the collection's chain ID.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *               - signature
+ *             properties:
+ *               message:
+ *                 type: string
+ *                 description: The EIP-4361 message, with the nonce from GET /auth/nonce
+ *               signature:
+ *                 type: string
+ *                 example: "0x..."
+ *     responses:
+ *       200:
+ *         description: Session opened
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       description: Session token, sent as `Authorization: Bearer <token>`
+ *                     address:
+ *                       type: string
+ *                       example: "0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6"
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Missing message or signature
+ *       401:
+ *         description: Invalid message, nonce, chain or signature
+ *       503:
+ *         description: SIWE_DOMAIN is not configured
+ */
+router.post('/auth/verify', async (req, res) => {
+  try {
+    const { message, signature } = req.body ?? {}
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return res.status(400).json({ success: false, error: 'Missing message or signature' })
+    }
+
+    const result = await holderSessionService.signIn(getCollection(res), message, signature)
+    if (!result.valid) {
+      return res.status(401).json({ success: false, error: result.error })
+    }
+
+    res.json({
+      success: true,
+      data: {
+        token: result.token,
+        address: result.session.address,
+        expiresAt: result.session.expiresAt.toISOString()
+      }
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'SIWE_DOMAIN is not configured') {
+      return res.status(503).json({ success: false, error: 'Sign-in is not configured' })
+    }
+    console.error('Error verifying SIWE message:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /auth/session:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Current holder session
+ *     security:
+ *       - HolderSession: []
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     address:
+ *                       type: string
+ *                     chainId:
+ *                       type: integer
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       401:
+ *         description: Missing, expired or revoked session
+ */
+router.get('/auth/session', requireHolderSession, (req, res) => {
+  const session = getHolderSession(res)!
+  res.json({
+    success: true,
+    data: { address: session.address, chainId: session.chainId, expiresAt: session.expiresAt.toISOString() }
+  })
+})
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Revoke the current holder session
+ *     security:
+ *       - HolderSession: []
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Missing, expired or revoked session
+ */
+router.post('/auth/logout', requireHolderSession, async (req, res) => {
+  try {
+    await holderSessionService.revoke(getCollection(res), { sessionId: getHolderSession(res)!.id })
+    res.json({ success: true, message: 'Session revoked' })
+  } catch (error) {
+    console.error('Error revoking holder session:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+export default router
@@ -0,0 +1,197 @@
+/**
+ * Collection API Routes
+ *
+ * Lists the collections served by this API and the chains they live on.
+ * Every metadata and mint route is also available under
+ * `/collections/{slug}`; the unscoped routes serve the default collection.
+ */
+
+import { Router } from 'express'
+import { ethers } from 'ethers'
+import { collectionService } from '../services/collection'
+import { getChainConfig, CHAIN_CONFIG } from '../config/contracts'
+import { getProviderPool } from '../services/provider-pool'
+
+const router = Router()
+
+/**
+ * @swagger
+ * /collections:
+ *   get:
+ *     tags: [Collections]
+ *     summary: List collections
+ *     description: Retrieve every active collection with its contract, mint settings and box types
+ *     parameters:
+ *       - name: chainId
+ *         in: query
+ *         required: false
+ *         description: Only list collections deployed on this chain
+ *         schema:
+ *           type: integer
+ *           example: 11155111
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Collection'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/collections', async (req, res) => {
+  try {
+    const chainId = req.query.chainId !== undefined ? parseInt(req.query.chainId as string) : undefined
+    if (chainId !== undefined && isNaN(chainId)) {
+      return res.status(400).json({ success: false, error: 'chainId must be an integer' })
+    }
+
+    const collections = await collectionService.listCollections(false, chainId)
+    res.json({
+      success: true,
+      data: collections.map(collection => ({
+        slug: collection.slug,
+        name: collection.name,
+        ...collectionService.getMintConfig(collection),
+        boxTypes: collectionService.getBoxTypes(collection)
+      }))
+    })
+  } catch (error) {
+    console.error('Error listing collections:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /chains:
+ *   get:
+ *     tags: [Collections]
+ *     summary: List chains
+ *     description: Every chain with active collections, whether it has RPC endpoints and a live subscription configured, and its confirmation depth
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       chainId:
+ *                         type: integer
+ *                         example: 11155111
+ *                       name:
+ *                         type: string
+ *                         example: sepolia
+ *                       primary:
+ *                         type: boolean
+ *                         example: false
+ *                       backend:
+ *                         type: string
+ *                         enum: [rpc, simulated]
+ *                         example: rpc
+ *                       rpcEndpoints:
+ *                         type: integer
+ *                         example: 2
+ *                       liveSubscription:
+ *                         type: boolean
+ *                         example: true
+ *                       confirmations:
+ *                         type: integer
+ *                         example: 2
+ *                       collections:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                           example: rog-avatar-staging
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/chains', async (req, res) => {
+  try {
+    const chains = await collectionService.listChains()
+    res.json({
+      success: true,
+      data: chains.map(chain => {
+        const config = getChainConfig(chain.chainId)
+        return {
+          chainId: chain.chainId,
+          name: ethers.Network.from(chain.chainId).name,
+          primary: chain.chainId === CHAIN_CONFIG.primaryChainId,
+          backend: config.backend,
+          rpcEndpoints: getProviderPool(chain.chainId).size(),
+          liveSubscription: config.wsUrl !== '',
+          confirmations: config.confirmations,
+          collections: chain.collections
+        }
+      })
+    })
+  } catch (error) {
+    console.error('Error listing chains:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /collections/{slug}/metadata/{tokenId}:
+ *   get:
+ *     tags: [Collections]
+ *     summary: Get NFT metadata of a collection
+ *     description: Same as /metadata/{tokenId} for the given collection. Every /metadata and /api route is available under /collections/{slug} in the same way.
+ *     parameters:
+ *       - name: slug
+ *         in: path
+ *         required: true
+ *         description: Collection slug
+ *         schema:
+ *           type: string
+ *           example: rog-avatar
+ *       - name: tokenId
+ *         in: path
+ *         required: true
+ *         description: The token ID of the NFT
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           example: 1
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenMetadata'
+ *       404:
+ *         description: Collection or token not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+export default router
@@ -3,21 +3,49 @@
  * 
  * This module defines RESTful API endpoints for managing NFT metadata,
  * token information, and Phase 2 holder verification.
+ *
+ * The router is mounted twice: at `/` for the default collection and at
+ * `/collections/:slug` for any collection.
  */
 
 import { Router } from 'express'
 import { MetadataService } from '../services/metadata'
 import { MappingService } from '../services/mapping'
 import { getAddress, isAddress, zeroAddress } from 'viem'
-import { MINT_CONFIG } from '../config/contracts'
-import { BlockchainService } from '../services/blockchain'
-import { verifyMessage } from 'ethers'
+import { getBlockchainService } from '../services/blockchain'
+import { collectionService } from '../services/collection'
+import { seedLifecycleService } from '../services/seed-lifecycle'
+import { originAssignmentService } from '../services/origin-assignment'
+import { provenanceService } from '../services/provenance'
+import { revealAuthService } from '../services/reveal-auth'
+import { HolderAuthorizationEntry, holderAuthorizationService } from '../services/holder-authorization'
+import { BatchRevealResult, revealService } from '../services/reveal'
+import { resolveCollection, getCollection } from '../middleware/collection'
+import { resolveHolderSession, getHolderSession } from '../middleware/holder-session'
 import prisma from '../config/database'
+import { REVEAL_BATCH_CONFIG } from '../config/contracts'
 
-const router = Router()
+const router = Router({ mergeParams: true })
 const metadataService = new MetadataService()
 const mappingService = new MappingService()
-const blockchainService = new BlockchainService()
+
+/**
+ * Distinct positive token IDs, at most a batch's worth, or null when the list is invalid
+ */
+function parseTokenIds(value: unknown): number[] | null {
+  if (!Array.isArray(value)) {
+    return null
+  }
+  const tokenIds = value.map(item => Number(item))
+  if (tokenIds.length === 0 || tokenIds.some(tokenId => !Number.isInteger(tokenId) || tokenId < 1)) {
+    return null
+  }
+  const distinct = [...new Set(tokenIds)].sort((a, b) => a - b)
+  return distinct.length <= REVEAL_BATCH_CONFIG.maxTokens ? distinct : null
+}
+
+// Every route below is scoped to the collection resolved here
+router.use(['/metadata', '/api', '/provenance'], resolveCollection)
 
 /**
  * @swagger
@@ -95,8 +123,9 @@ router.get('/metadata/nft-info/:tokenId', async (req, res) => {
     return res.status(400).json({ error: 'Invalid token ID' })
   }
   
+  const collection = getCollection(res)
   const nftInfo = await prisma.nftInfo.findUnique({
-    where: { tokenId: tokenIdNum }
+    where: { collectionId_tokenId: { collectionId: collection.id, tokenId: tokenIdNum } }
   })
   if(!nftInfo) {
     return res.status(404).json({ error: 'Token not found' })
@@ -104,7 +133,7 @@ router.get('/metadata/nft-info/:tokenId', async (req, res) => {
 
 
   const isRevealed = nftInfo?.originId !== 0
-  const metadata = await metadataService.getTokenMetadataByMetadataId(nftInfo.metadataId || 0)
+  const metadata = await metadataService.getTokenMetadataByMetadataId(collection, nftInfo.metadataId || 0)
 
   res.json({ success: true, data: {
     ...nftInfo,
@@ -165,7 +194,7 @@ router.get('/metadata/tokensOfOwner/:address', async (req, res) => {
     return res.status(400).json({ error: 'Invalid address' })
   }
   
-  const tokens = await blockchainService.getTokensOfOwner(getAddress(address))
+  const tokens = await getBlockchainService(getCollection(res)).getTokensOfOwner(getAddress(address))
   res.json({ success: true, data: tokens })
 })
 
@@ -219,7 +248,7 @@ router.get('/metadata/:tokenId', async (req, res) => {
       return res.status(400).json({ error: 'Invalid token ID' })
     }
 
-    const metadata = await metadataService.getTokenMetadata(tokenId)
+    const metadata = await metadataService.getTokenMetadata(getCollection(res).id, tokenId)
     
     if (!metadata) {
       return res.status(404).json({ error: 'Token not found' })
@@ -282,7 +311,7 @@ router.get('/metadata/revealed/:metadataId', async (req, res) => {
       return res.status(400).json({ error: 'Invalid token ID' })
     }
 
-    const metadata = await metadataService.getTokenMetadataByMetadataId(metadataId)
+    const metadata = await metadataService.getTokenMetadataByMetadataId(getCollection(res), metadataId)
     
     if (!metadata) {
       return res.status(404).json({ error: 'Token not found' })
@@ -295,13 +324,103 @@ router.get('/metadata/revealed/:metadataId', async (req, res) => {
   }
 })
 
+/**
+ * @swagger
+ * /metadata/by-metadata-id/{metadataId}/token:
+ *   get:
+ *     tags: [Metadata]
+ *     summary: Get the token ID holding a metadata ID
+ *     description: Computes the token ID from the collection's random seed by inverting the tokenId → metadataId permutation, without consulting the stored mapping
+ *     parameters:
+ *       - name: metadataId
+ *         in: path
+ *         required: true
+ *         description: The metadata ID
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           example: 42
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     metadataId:
+ *                       type: integer
+ *                       example: 42
+ *                     tokenId:
+ *                       type: integer
+ *                       example: 1337
+ *                     minted:
+ *                       type: boolean
+ *                       description: Whether the token has been minted and indexed yet
+ *                       example: true
+ *       400:
+ *         description: Invalid metadata ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Random seed not set yet, or metadata ID outside the collection's supply
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/metadata/by-metadata-id/:metadataId/token', async (req, res) => {
+  try {
+    const metadataId = parseInt(req.params.metadataId)
+
+    if (isNaN(metadataId) || metadataId < 1) {
+      return res.status(400).json({ success: false, error: 'Invalid metadata ID' })
+    }
+
+    const collection = getCollection(res)
+    const tokenId = await mappingService.getTokenIdForMetadataId(collection, metadataId)
+
+    if (tokenId === null) {
+      return res.status(404).json({ success: false, error: 'Metadata ID not assigned: random seed not set or outside max supply' })
+    }
+
+    const nftInfo = await prisma.nftInfo.findUnique({
+      where: { collectionId_tokenId: { collectionId: collection.id, tokenId } },
+      select: { tokenId: true }
+    })
+
+    res.json({ success: true, data: { metadataId, tokenId, minted: !!nftInfo } })
+  } catch (error) {
+    console.error(`Error resolving token for metadataId ${req.params.metadataId}:`, error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
 /**
  * @swagger
  * /metadata/reveal/message:
  *   get:
  *     tags: [Metadata]
- *     summary: Generate reveal message for signing
- *     description: Generate a message that needs to be signed by the token owner to prove ownership before revealing NFT metadata
+ *     summary: Generate reveal typed data for signing
+ *     description: |
+ *       Issues a single-use nonce and returns the EIP-712 typed data the signer signs (e.g. with eth_signTypedData_v4)
+ *       to reveal the token. The signer is the token owner, including contract wallets that validate signatures with
+ *       EIP-1271, or a wallet the owner registered as a delegate in the delegation registry. The signature must be
+ *       submitted to POST /metadata/reveal/{tokenId} before the deadline.
  *     parameters:
  *       - name: tokenId
  *         in: query
@@ -311,17 +430,24 @@ router.get('/metadata/revealed/:metadataId', async (req, res) => {
  *           type: integer
  *           minimum: 1
  *           example: 1
- *       - name: ownerAddress
+ *       - name: signerAddress
  *         in: query
  *         required: true
- *         description: The wallet address claiming to own the token
+ *         description: The wallet that will sign, either the token owner or a delegate of the owner
  *         schema:
  *           type: string
  *           pattern: '^0x[a-fA-F0-9]{40}$'
  *           example: "0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6"
+ *       - name: ownerAddress
+ *         in: query
+ *         required: false
+ *         deprecated: true
+ *         description: Former name of signerAddress
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: Success - Message generated for signing
+ *         description: Success - Typed data generated for signing
  *         content:
  *           application/json:
  *             schema:
@@ -333,10 +459,11 @@ router.get('/metadata/revealed/:metadataId', async (req, res) => {
  *                 data:
  *                   type: object
  *                   properties:
- *                     message:
+ *                     typedData:
+ *                       $ref: '#/components/schemas/RevealTypedData'
+ *                     expiresAt:
  *                       type: string
- *                       description: The message that should be signed by the owner
- *                       example: "Reveal token 1 by 0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6"
+ *                       format: date-time
  *       400:
  *         description: Invalid request parameters
  *         content:
@@ -349,9 +476,9 @@ router.get('/metadata/revealed/:metadataId', async (req, res) => {
  *                   example: false
  *                 error:
  *                   type: string
- *                   example: "Invalid token ID or owner address"
+ *                   example: "Invalid token ID or signer address"
  *       403:
- *         description: Address does not own the token
+ *         description: Address is neither the owner of the token nor a delegate of the owner
  *         content:
  *           application/json:
  *             schema:
@@ -362,7 +489,7 @@ router.get('/metadata/revealed/:metadataId', async (req, res) => {
  *                   example: false
  *                 error:
  *                   type: string
- *                   example: "Address does not own this token"
+ *                   example: "Address is not the owner of this token or a delegate of the owner"
  *       404:
  *         description: Token not found
  *         content:
@@ -393,7 +520,7 @@ router.get('/metadata/revealed/:metadataId', async (req, res) => {
 router.get('/metadata/reveal/message', async (req, res) => {
   try {
     const tokenId = parseInt(req.query.tokenId as string)
-    const ownerAddress = req.query.ownerAddress as string
+    const signerAddress = (req.query.signerAddress ?? req.query.ownerAddress) as string
 
     // Validate tokenId
     if (isNaN(tokenId) || tokenId < 1) {
@@ -403,19 +530,20 @@ router.get('/metadata/reveal/message', async (req, res) => {
       })
     }
 
-    // Validate owner address
-    if (!ownerAddress || !isAddress(ownerAddress, { strict: false })) {
+    // Validate signer address
+    if (!signerAddress || !isAddress(signerAddress, { strict: false })) {
       return res.status(400).json({ 
         success: false, 
-        error: 'Invalid owner address' 
+        error: 'Invalid signer address' 
       })
     }
 
     // Normalize the address to checksum format
-    const normalizedAddress = getAddress(ownerAddress)
+    const normalizedAddress = getAddress(signerAddress)
+    const collection = getCollection(res)
 
     // Check if token exists
-    const metadata = await metadataService.getTokenMetadata(tokenId)
+    const metadata = await metadataService.getTokenMetadata(collection.id, tokenId)
     if (!metadata) {
       return res.status(404).json({ 
         success: false, 
@@ -423,29 +551,29 @@ router.get('/metadata/reveal/message', async (req, res) => {
       })
     }
 
-    // // Verify ownership
-    // try {
-    //   const actualOwner = await blockchainService.getOwnerOf(tokenId)
-    //   if (getAddress(actualOwner) !== normalizedAddress) {
-    //     return res.status(403).json({ 
-    //       success: false, 
-    //       error: 'Address does not own this token' 
-    //     })
-    //   }
-    // } catch (error) {
-    //   console.error(`Error verifying ownership for token ${tokenId}:`, error)
-    //   return res.status(500).json({ 
-    //     success: false, 
-    //     error: 'Failed to verify token ownership' 
-    //   })
-    // }
-
-    // Generate the message for signing
-    const message = generateRevealMessage(tokenId, normalizedAddress)
+    // Verify ownership, so nonces are only issued to the holder or a delegate of the holder
+    let actualOwner: string
+    try {
+      actualOwner = getAddress(await getBlockchainService(collection).getOwnerOf(tokenId))
+    } catch (error) {
+      console.error(`Error verifying ownership for token ${tokenId}:`, error)
+      return res.status(500).json({ 
+        success: false, 
+        error: 'Failed to verify token ownership' 
+      })
+    }
+    if (!(await holderAuthorizationService.resolvePath(collection, tokenId, actualOwner, normalizedAddress))) {
+      return res.status(403).json({ 
+        success: false, 
+        error: 'Address is not the owner of this token or a delegate of the owner' 
+      })
+    }
+
+    const typedData = await revealAuthService.createRevealRequest(collection, tokenId, actualOwner, normalizedAddress)
 
     return res.json({ 
       success: true, 
-      data: { message } 
+      data: { typedData, expiresAt: new Date(typedData.message.deadline * 1000).toISOString() } 
     })
   } catch (error) {
     console.error('Error generating reveal message:', error)
@@ -456,19 +584,245 @@ router.get('/metadata/reveal/message', async (req, res) => {
   }
 })
 
-function generateRevealMessage(tokenId: number, ownerAddress: string): string {
-  return `SLASH206: Reveal token ${tokenId} by ${getAddress(ownerAddress)}`;
-}
+/**
+ * @swagger
+ * /metadata/reveal/batch/message:
+ *   get:
+ *     tags: [Metadata]
+ *     summary: Generate batch reveal typed data for signing
+ *     description: |
+ *       Issues a single-use nonce and returns EIP-712 `BatchReveal` typed data covering several tokens of one owner.
+ *       Without tokenIds it covers every unrevealed token the owner holds, up to REVEAL_BATCH_MAX_TOKENS (lowest token
+ *       IDs first; `remaining` tells how many are left for another batch). The signer is the owner or a delegate of the
+ *       owner, as for single reveals. Submit the signature to POST /metadata/reveal/batch before the deadline.
+ *     parameters:
+ *       - name: signerAddress
+ *         in: query
+ *         required: true
+ *         description: The wallet that will sign
+ *         schema:
+ *           type: string
+ *           example: "0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6"
+ *       - name: ownerAddress
+ *         in: query
+ *         required: false
+ *         description: The wallet holding the tokens, when a delegate signs; defaults to signerAddress
+ *         schema:
+ *           type: string
+ *       - name: tokenIds
+ *         in: query
+ *         required: false
+ *         description: Comma-separated token IDs; omit for every unrevealed token of the owner
+ *         schema:
+ *           type: string
+ *           example: "1,2,3"
+ *     responses:
+ *       200:
+ *         description: Success - Typed data generated for signing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     typedData:
+ *                       $ref: '#/components/schemas/BatchRevealTypedData'
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     remaining:
+ *                       type: integer
+ *                       description: Unrevealed tokens of the owner left out of this batch
+ *       400:
+ *         description: Invalid addresses or token IDs, too many tokens, or no unrevealed tokens
+ *       403:
+ *         description: A token is not held by the owner, or the signer is not the owner or a delegate for it
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/metadata/reveal/batch/message', async (req, res) => {
+  try {
+    const signerAddress = req.query.signerAddress as string
+    const ownerAddress = (req.query.ownerAddress ?? signerAddress) as string
+    if (!signerAddress || !isAddress(signerAddress, { strict: false }) || !isAddress(ownerAddress, { strict: false })) {
+      return res.status(400).json({ success: false, error: 'Invalid signer or owner address' })
+    }
+
+    const requested = req.query.tokenIds !== undefined ? parseTokenIds(String(req.query.tokenIds).split(',')) : undefined
+    if (requested === null) {
+      return res.status(400).json({ success: false, error: `tokenIds must be 1-${REVEAL_BATCH_CONFIG.maxTokens} positive integers` })
+    }
+
+    const collection = getCollection(res)
+    const owner = getAddress(ownerAddress)
+    const signer = getAddress(signerAddress)
+
+    let revealable: number[]
+    try {
+      revealable = await revealService.getRevealableTokenIds(collection, owner)
+    } catch (error) {
+      console.error(`Error listing tokens of ${owner}:`, error)
+      return res.status(500).json({ success: false, error: 'Failed to verify token ownership' })
+    }
+
+    let tokenIds: number[]
+    if (requested) {
+      const unrevealable = requested.filter(tokenId => !revealable.includes(tokenId))
+      if (unrevealable.length > 0) {
+        return res.status(403).json({ success: false, error: `Tokens ${unrevealable.join(', ')} are not unrevealed tokens held by the owner` })
+      }
+      tokenIds = requested
+    } else {
+      tokenIds = revealable.slice(0, REVEAL_BATCH_CONFIG.maxTokens)
+    }
+    if (tokenIds.length === 0) {
+      return res.status(400).json({ success: false, error: 'The owner holds no unrevealed tokens' })
+    }
 
-function verifySignature(message: string, signature: string): string {
+    for (const tokenId of tokenIds) {
+      if (!(await holderAuthorizationService.resolvePath(collection, tokenId, owner, signer))) {
+        return res.status(403).json({ success: false, error: `Address is not the owner of token ${tokenId} or a delegate of the owner` })
+      }
+    }
+
+    const typedData = await revealAuthService.createBatchRevealRequest(collection, tokenIds, owner, signer)
+    return res.json({
+      success: true,
+      data: {
+        typedData,
+        expiresAt: new Date(typedData.message.deadline * 1000).toISOString(),
+        remaining: requested ? 0 : revealable.length - tokenIds.length
+      }
+    })
+  } catch (error) {
+    console.error('Error generating batch reveal message:', error)
+    return res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /metadata/reveal/batch:
+ *   post:
+ *     tags: [Metadata]
+ *     summary: Reveal several tokens at once
+ *     description: |
+ *       Reveals a batch of one owner's tokens in a single database transaction, authorized either by the signature of
+ *       the typed data from GET /metadata/reveal/batch/message or by a holder session (of the owner or a delegate).
+ *       Tokens are revealed in ascending token order. A token that cannot be revealed, e.g. because it changed hands or
+ *       its box type's origin pool is exhausted, is reported in `results` while the other tokens are still revealed.
+ *     security:
+ *       - {}
+ *       - HolderSession: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               nonce:
+ *                 type: string
+ *                 description: The nonce of the batch typed data; required without a holder session
+ *               signature:
+ *                 type: string
+ *                 description: The signer's EIP-712 signature of that typed data
+ *               tokenIds:
+ *                 type: array
+ *                 description: With a holder session, the tokens to reveal; omit for every unrevealed token of the owner
+ *                 items:
+ *                   type: integer
+ *               ownerAddress:
+ *                 type: string
+ *                 description: With a holder session, the owner whose tokens a delegate reveals; defaults to the session address
+ *     responses:
+ *       200:
+ *         description: Batch processed; check `results` for tokens that were not revealed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BatchRevealResult'
+ *       400:
+ *         description: Missing nonce or signature, or invalid token IDs
+ *       401:
+ *         description: Invalid signature, or an unknown, used or expired nonce
+ *       409:
+ *         description: Reveals are not open yet
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/metadata/reveal/batch', resolveHolderSession, async (req, res) => {
   try {
-    const recoveredAddress = verifyMessage(message, signature)
-    return getAddress(recoveredAddress)
+    const { nonce, signature, tokenIds, ownerAddress } = req.body ?? {}
+    const holderSession = getHolderSession(res)
+    const collection = getCollection(res)
+
+    if (!(await seedLifecycleService.isRevealOpen(collection))) {
+      return res.status(409).json({ success: false, error: 'Reveal is not open yet' })
+    }
+
+    let result: BatchRevealResult
+    if (holderSession) {
+      const owner = ownerAddress ?? holderSession.address
+      if (typeof owner !== 'string' || !isAddress(owner, { strict: false })) {
+        return res.status(400).json({ success: false, error: 'Invalid owner address' })
+      }
+      const requested = tokenIds !== undefined ? parseTokenIds(tokenIds) : undefined
+      if (requested === null) {
+        return res.status(400).json({ success: false, error: `tokenIds must be 1-${REVEAL_BATCH_CONFIG.maxTokens} positive integers` })
+      }
+
+      const batch = requested ?? (await revealService.getRevealableTokenIds(collection, owner)).slice(0, REVEAL_BATCH_CONFIG.maxTokens)
+      if (batch.length === 0) {
+        return res.status(400).json({ success: false, error: 'The owner holds no unrevealed tokens' })
+      }
+      result = await revealService.revealBatch(collection, batch, {
+        owner,
+        signer: holderSession.address,
+        signatureType: 'session',
+        sessionId: holderSession.id
+      })
+    } else {
+      if (!nonce || !signature) {
+        return res.status(400).json({ success: false, error: 'Missing nonce or signature' })
+      }
+      const check = await revealAuthService.verifyBatchRevealSignature(collection, nonce, signature)
+      if (!check.valid) {
+        return res.status(401).json({ success: false, error: check.error })
+      }
+      result = await revealService.revealBatch(collection, check.tokenIds, {
+        owner: check.owner,
+        signer: check.signer,
+        signatureType: check.signatureType,
+        nonceId: check.nonceId,
+        signature
+      })
+    }
+
+    return res.json({ success: true, data: result })
   } catch (error) {
-    console.error('Error verifying signature:', error)
-    throw new Error('Invalid signature format')
+    console.error('Error revealing batch:', error)
+
+    if (error instanceof Error && error.message === 'Reveal nonce already used') {
+      return res.status(401).json({ success: false, error: error.message })
+    }
+    if (error instanceof Error && error.message === 'Reveal is not open yet') {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    return res.status(500).json({ success: false, error: 'Internal server error' })
   }
-}
+})
 
 /**
  * @swagger
@@ -476,7 +830,14 @@ function verifySignature(message: string, signature: string): string {
  *   post:
  *     tags: [Metadata]
  *     summary: Reveal NFT metadata
- *     description: Reveal the metadata for a specific NFT token using a signed message for authentication
+ *     description: |
+ *       Reveal the metadata for a specific NFT token, authorized by the EIP-712 signature of the typed data from
+ *       GET /metadata/reveal/message, or by a holder session (Sign-In with Ethereum, see /auth/verify). Either must
+ *       come from the owner or a delegate of the owner; contract wallets sign through EIP-1271. The path that
+ *       authorized the reveal is recorded and returned.
+ *     security:
+ *       - {}
+ *       - HolderSession: []
  *     parameters:
  *       - name: tokenId
  *         in: path
@@ -487,22 +848,19 @@ function verifySignature(message: string, signature: string): string {
  *           minimum: 1
  *           example: 1
  *     requestBody:
- *       required: true
+ *       description: Required unless the request carries a holder session
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - message
- *               - signature
  *             properties:
- *               message:
+ *               nonce:
  *                 type: string
- *                 description: The message that was signed by the token owner
- *                 example: "Reveal token 1 by 0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6"
+ *                 description: The nonce of the typed data returned by GET /metadata/reveal/message
+ *                 example: "0x..."
  *               signature:
  *                 type: string
- *                 description: The cryptographic signature proving ownership of the token
+ *                 description: The signer's EIP-712 signature of that typed data (ECDSA, or any signature its EIP-1271 wallet accepts)
  *                 pattern: '^0x[a-fA-F0-9]+$'
  *                 example: "0x..."
  *     responses:
@@ -527,6 +885,8 @@ function verifySignature(message: string, signature: string): string {
  *                       type: integer
  *                       description: The assigned origin metadata ID
  *                       example: 42
+ *                     authorization:
+ *                       $ref: '#/components/schemas/RevealAuthorization'
  *                     metadata:
  *                       type: object
  *                       description: The revealed NFT metadata (ERC-721 standard)
@@ -558,7 +918,7 @@ function verifySignature(message: string, signature: string): string {
  *                   type: string
  *                   example: "Invalid token ID or missing parameters"
  *       401:
- *         description: Unauthorized - Invalid signature
+ *         description: Unauthorized - Invalid signature, or an unknown, used or expired nonce
  *         content:
  *           application/json:
  *             schema:
@@ -570,6 +930,12 @@ function verifySignature(message: string, signature: string): string {
  *                 error:
  *                   type: string
  *                   example: "Invalid signature"
+ *       403:
+ *         description: The signed-in address is neither the owner of the token nor a delegate of the owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Token not found
  *         content:
@@ -583,6 +949,12 @@ function verifySignature(message: string, signature: string): string {
  *                 error:
  *                   type: string
  *                   example: "Token not found"
+ *       409:
+ *         description: Reveals are not open yet (the seed's mappings are not verified or the reveal start time has not passed), or the token's origin pool is not locked or no longer matches its commitment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -590,10 +962,10 @@ function verifySignature(message: string, signature: string): string {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/metadata/reveal/:tokenId', async (req, res) => {
+router.post('/metadata/reveal/:tokenId', resolveHolderSession, async (req, res) => {
   try {
     const tokenId = parseInt(req.params.tokenId)
-    const { message, signature } = req.body
+    const { nonce, signature } = req.body
 
     // Validate tokenId
     if (isNaN(tokenId) || tokenId < 1) {
@@ -603,17 +975,21 @@ router.post('/metadata/reveal/:tokenId', async (req, res) => {
       })
     }
 
-    // Validate required fields
-    if (!message || !signature) {
+    // A holder session stands in for the per-reveal signature
+    const holderSession = getHolderSession(res)
+    if (!holderSession && (!nonce || !signature)) {
       return res.status(400).json({ 
         success: false, 
-        error: 'Missing message or signature' 
+        error: 'Missing nonce or signature' 
       })
     }
 
+    const collection = getCollection(res)
+    const nftKey = { collectionId_tokenId: { collectionId: collection.id, tokenId } }
+
     // Get NFT info from database
     const nftInfo = await prisma.nftInfo.findUnique({
-      where: { tokenId }
+      where: nftKey
     })
 
     if (!nftInfo) {
@@ -631,10 +1007,17 @@ router.post('/metadata/reveal/:tokenId', async (req, res) => {
       })
     }
 
+    if (!(await seedLifecycleService.isRevealOpen(collection))) {
+      return res.status(409).json({
+        success: false,
+        error: 'Reveal is not open yet'
+      })
+    }
+
     // Get current owner from blockchain
     let nftOwner: string
     try {
-      nftOwner = await blockchainService.getOwnerOf(tokenId)
+      nftOwner = await getBlockchainService(collection).getOwnerOf(tokenId)
       nftOwner = getAddress(nftOwner) // Normalize address
     } catch (error) {
       console.error(`Error getting owner for token ${tokenId}:`, error)
@@ -644,95 +1027,97 @@ router.post('/metadata/reveal/:tokenId', async (req, res) => {
       })
     }
 
-    // Verify message format
-    const expectedMessage = generateRevealMessage(tokenId, nftOwner)
-    if (message !== expectedMessage) {
-      return res.status(400).json({ 
-        success: false, 
-        error: `Invalid message, expected: "${expectedMessage}"` 
-      })
-    }
-
-    // // Verify signature
-    // let recoveredAddress: string
-    // try {
-    //   recoveredAddress = verifySignature(message, signature)
-    // } catch {
-    //   return res.status(401).json({ 
-    //     success: false, 
-    //     error: 'Invalid signature format' 
-    //   })
-    // }
-
-    // if (recoveredAddress !== nftOwner) {
-    //   return res.status(401).json({ 
-    //     success: false, 
-    //     error: 'Signature does not match token owner' 
-    //   })
-    // }
-
-    // Perform the reveal using a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Find an available origin metadata for this box type
-      const txNftInfo = await tx.nftInfo.findUnique({
-        where: { tokenId }
-      })
-
-      if (!txNftInfo) {
-        throw new Error(`NFT info not found for tokenId: ${tokenId}`)
+    let nonceId: number | null = null
+    let authorization: HolderAuthorizationEntry
+    if (holderSession) {
+      const path = await holderAuthorizationService.resolvePath(collection, tokenId, nftOwner, holderSession.address)
+      if (!path) {
+        return res.status(403).json({ 
+          success: false, 
+          error: 'Signed-in address is not the owner of this token or a delegate of the owner' 
+        })
       }
-      if(txNftInfo.originId !== 0) {
-        throw new Error(`Token ${tokenId} already revealed`)
+      authorization = {
+        action: 'reveal',
+        tokenId,
+        owner: nftOwner,
+        signer: holderSession.address,
+        path,
+        signatureType: 'session',
+        sessionId: holderSession.id
       }
-    
-      // Get all available origins and select one randomly
-      const availableOrigins = await tx.originMetadataInfo.findMany({
-        select: {
-          originId: true
-        },
-        where: {
-          boxTypeId: txNftInfo.boxTypeId,
-          isAssigned: false
-        },
-        take: 500
-      })
-      
-      if (availableOrigins.length === 0) {
-        throw new Error(`No available metadata for box type ${txNftInfo.boxTypeId}`)
+    } else {
+      const check = await revealAuthService.verifyRevealSignature(collection, tokenId, nftOwner, nonce, signature)
+      if (!check.valid) {
+        return res.status(401).json({ 
+          success: false, 
+          error: check.error 
+        })
       }
-      
-      // Select a random origin from available ones
-      const randomIndex = Math.floor(Math.random() * availableOrigins.length)
-      const availableOrigin = availableOrigins[randomIndex]
-
-      // Update NFT with the origin ID
-      await tx.nftInfo.update({
-        where: { tokenId },
-        data: { originId: availableOrigin.originId }
-      })
+      nonceId = check.nonceId
+      authorization = {
+        action: 'reveal',
+        tokenId,
+        owner: nftOwner,
+        signer: check.signer,
+        path: check.path,
+        signatureType: check.signatureType
+      }
+    }
 
-      // Mark the origin metadata as assigned
-      await tx.originMetadataInfo.update({
-        where: { originId: availableOrigin.originId },
-        data: { isAssigned: true }
+    const randomSeed = await revealService.getCurrentSeed(collection)
+    if (randomSeed === null) {
+      return res.status(409).json({
+        success: false,
+        error: 'Reveal is not open yet'
       })
+    }
 
-      return {
-        originId: availableOrigin.originId
+    // Perform the reveal using a transaction
+    const result = await prisma.$transaction(async (tx) => {
+      if (nonceId !== null) {
+        await revealAuthService.consumeNonce(tx, nonceId)
       }
+      const revealed = await revealService.revealToken(tx, collection, tokenId, randomSeed, {
+        action: 'reveal',
+        owner: nftOwner,
+        signer: authorization.signer,
+        signature: holderSession ? null : signature
+      })
+      await holderAuthorizationService.record(tx, collection, authorization)
+      return revealed
     });
 
-    const metadata = await metadataService.getRevealedMetadata(result.originId)
-    console.log(`Revealed token ${tokenId}`)
+    const metadata = await metadataService.getRevealedMetadata(collection.id, result.originId)
+    console.log(`Revealed token ${tokenId} as origin ${result.originId} (draw attempt ${result.attempt}, ${authorization.path} via ${authorization.signatureType})`)
 
+    const { signer, path, signatureType } = authorization
     return res.json({ 
       success: true, 
-      data: { tokenId, metadataId: nftInfo.metadataId, metadata }
+      data: { tokenId, metadataId: nftInfo.metadataId, originId: result.originId, metadata, authorization: { signer, path, signatureType } }
     })
   } catch (error) {
     console.error('Error revealing token:', error)
     
     // Handle specific error cases
+    if (error instanceof Error && error.message === 'Reveal nonce already used') {
+      return res.status(401).json({ 
+        success: false, 
+        error: error.message 
+      })
+    }
+    if (error instanceof Error && error.message.endsWith('already revealed')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Token already revealed'
+      })
+    }
+    if (error instanceof Error && error.message.startsWith('Origin pool')) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      })
+    }
     if (error instanceof Error && error.message.includes('No available metadata')) {
       return res.status(500).json({ 
         success: false, 
@@ -749,6 +1134,242 @@ router.post('/metadata/reveal/:tokenId', async (req, res) => {
 
 
 
+/**
+ * @swagger
+ * /metadata/reveal/verify/{tokenId}:
+ *   get:
+ *     tags: [Metadata]
+ *     summary: Verify a token's origin assignment
+ *     description: |
+ *       Recomputes the token's origin draw. The box type's origin pool is ordered by originId ascending and
+ *       committed to as keccak256(abi.encodePacked(uint256[] originIds)). Attempt k of the draw picks pool index
+ *       keccak256(abi.encodePacked(uint256 seed, uint256 tokenId, uint256 k, "origin")) mod poolSize for k < poolSize,
+ *       then walks forward from the index of attempt 0; the first origin that is still free is assigned.
+ *       Every reveal records its seed, draw attempt and pool commitment in the reveal audit log. A revealed token's draw is
+ *       replayed from that record: the pool must still hash to the recorded commitment, every origin drawn before the
+ *       recorded attempt must have been held by another token at reveal time (rebuilt from the audit log), and the recorded
+ *       attempt must land on the assigned origin. An unrevealed token gets the draw it would make now under the current seed.
+ *       This is the collection's `uniform` allocation policy; under the `stratified` and `reserved` policies the draw
+ *       depends on the rarity tiers' state at reveal time, so only `nextOriginId` is computed.
+ *     parameters:
+ *       - name: tokenId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           example: 1
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tokenId:
+ *                       type: integer
+ *                       example: 1
+ *                     boxTypeId:
+ *                       type: integer
+ *                       example: 1
+ *                     randomSeed:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Seed the token was revealed with, or the current seed while unrevealed
+ *                       example: "12345678901234567890"
+ *                     policy:
+ *                       type: string
+ *                       enum: [uniform, stratified, reserved]
+ *                     assignedOriginId:
+ *                       type: integer
+ *                       nullable: true
+ *                       example: 42
+ *                     pool:
+ *                       type: object
+ *                       properties:
+ *                         ordering:
+ *                           type: string
+ *                           example: originId ascending
+ *                         size:
+ *                           type: integer
+ *                           example: 1500
+ *                         commitment:
+ *                           type: string
+ *                           description: Commitment to the pool as it is now
+ *                           example: "0x..."
+ *                         lockedCommitment:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Commitment stored when the pool was locked
+ *                           example: "0x..."
+ *                         originIds:
+ *                           type: array
+ *                           items:
+ *                             type: integer
+ *                     reveal:
+ *                       type: object
+ *                       nullable: true
+ *                       description: Draw recorded with the reveal; null while unrevealed, after an admin reassignment, or for reveals recorded before draws were stored
+ *                       properties:
+ *                         eventId:
+ *                           type: integer
+ *                         action:
+ *                           type: string
+ *                           enum: [reveal, batch_reveal, mass_reveal]
+ *                         randomSeed:
+ *                           type: string
+ *                         attempt:
+ *                           type: integer
+ *                         poolCommitment:
+ *                           type: string
+ *                         revealedAt:
+ *                           type: string
+ *                           format: date-time
+ *                     draws:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           attempt:
+ *                             type: integer
+ *                           index:
+ *                             type: integer
+ *                           originId:
+ *                             type: integer
+ *                           assigned:
+ *                             type: boolean
+ *                           heldByTokenId:
+ *                             type: integer
+ *                             nullable: true
+ *                     verified:
+ *                       type: boolean
+ *                       nullable: true
+ *                       description: Whether the recorded draw replays to the assigned origin (null while the token is not revealed, without a recorded draw or under a non-uniform policy)
+ *                     nextOriginId:
+ *                       type: integer
+ *                       nullable: true
+ *                       description: Origin an unrevealed token would be assigned if revealed now
+ *       400:
+ *         description: Invalid token ID
+ *       404:
+ *         description: Token not found or random seed not set yet
+ */
+router.get('/metadata/reveal/verify/:tokenId', async (req, res) => {
+  try {
+    const tokenId = parseInt(req.params.tokenId)
+    if (isNaN(tokenId) || tokenId < 1) {
+      return res.status(400).json({ success: false, error: 'Invalid token ID' })
+    }
+
+    const verification = await originAssignmentService.verifyAssignment(getCollection(res), tokenId)
+    if (!verification) {
+      return res.status(404).json({ success: false, error: 'Token not found' })
+    }
+
+    res.json({ success: true, data: verification })
+  } catch (error) {
+    console.error('Error verifying origin assignment:', error)
+    if (error instanceof Error && error.message.endsWith('is not set yet')) {
+      return res.status(404).json({ success: false, error: 'Random seed not set yet' })
+    }
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /provenance:
+ *   get:
+ *     tags: [Metadata]
+ *     summary: Origin pool provenance
+ *     description: |
+ *       Merkle root of every box type's origin pool. A leaf is keccak256(keccak256(abi.encode(uint256 originId, bytes32 metadataHash))),
+ *       as in OpenZeppelin's StandardMerkleTree, where metadataHash is keccak256 of the metadata as canonical JSON (keys sorted, no whitespace). Leaves are ordered by
+ *       originId and pairs are hashed sorted, as in OpenZeppelin's MerkleProof. `merkleRoot` is the root stored when the pool
+ *       was locked; `intact` tells whether the pool still hashes to it.
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PoolProvenance'
+ */
+router.get('/provenance', async (req, res) => {
+  try {
+    res.json({ success: true, data: await provenanceService.getPoolProvenance(getCollection(res)) })
+  } catch (error) {
+    console.error('Error getting origin pool provenance:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+/**
+ * @swagger
+ * /provenance/origins/{originId}:
+ *   get:
+ *     tags: [Metadata]
+ *     summary: Inclusion proof of an origin
+ *     description: Merkle proof of the origin's leaf against its pool's locked root, or against the current root while the pool is not locked
+ *     parameters:
+ *       - name: originId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           example: 42
+ *     responses:
+ *       200:
+ *         description: Success
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/OriginProof'
+ *       400:
+ *         description: Invalid origin ID
+ *       404:
+ *         description: Origin not found
+ */
+router.get('/provenance/origins/:originId', async (req, res) => {
+  try {
+    const originId = parseInt(req.params.originId)
+    if (isNaN(originId)) {
+      return res.status(400).json({ success: false, error: 'Invalid origin ID' })
+    }
+
+    const proof = await provenanceService.getOriginProof(getCollection(res), originId)
+    if (!proof) {
+      return res.status(404).json({ success: false, error: 'Origin not found' })
+    }
+
+    res.json({ success: true, data: proof })
+  } catch (error) {
+    console.error('Error getting origin inclusion proof:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
 /**
  * @swagger
  * /api/stats:
@@ -801,7 +1422,7 @@ router.post('/metadata/reveal/:tokenId', async (req, res) => {
  */
 router.get('/api/stats', async (req, res) => {
   try {
-    const stats = await metadataService.getStats()
+    const stats = await metadataService.getStats(getCollection(res).id)
     res.json({ success: true, data: stats })
   } catch (error) {
     console.error('Error getting stats:', error)
@@ -864,7 +1485,7 @@ router.get('/api/mint/config', async (req, res) => {
   try {
     res.json({ 
       success: true, 
-      data: MINT_CONFIG
+      data: collectionService.getMintConfig(getCollection(res))
     })
   } catch (error) {
     console.error('Error getting mint config:', error)
@@ -948,7 +1569,7 @@ router.get('/api/mint/soulbound/:address', async (req, res) => {
     const address = getAddress(_address);
     
     // Get all signatures for this holder
-    const mintInfo = await metadataService.getPhase2HolderMintInfo(address)
+    const mintInfo = await metadataService.getPhase2HolderMintInfo(getCollection(res).id, address)
     if (!mintInfo) {
       return res.json({
         success: false,
@@ -1021,10 +1642,11 @@ router.get('/api/mint/soulbound/:address', async (req, res) => {
  */
 router.get('/api/nft', async (req, res) => {
   try {
-    const totalSupply = await blockchainService.getTotalSupply()
+    const collection = getCollection(res)
+    const totalSupply = await getBlockchainService(collection).getTotalSupply()
     res.json({ success: true, data: {
-      totalSupply: MINT_CONFIG.maxSupply - totalSupply,
-      maxSupply: MINT_CONFIG.maxSupply,
+      totalSupply: collection.maxSupply - totalSupply,
+      maxSupply: collection.maxSupply,
     } })
   } catch (error) {
     console.error('Error getting max supply:', error)
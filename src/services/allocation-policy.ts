@@ -0,0 +1,398 @@
+/**
+ * Origin Allocation Policies
+ *
+ * Decides which origin of a box type's pool a reveal draws, inside the reveal
+ * transaction (see `origin-assignment.ts`). Every policy is a deterministic
+ * function of the committed seed, the tokenId, the pool and the time:
+ *
+ * - uniform: the draw walks `originDrawSequence` over the whole pool, so each
+ *   reveal draws from whatever is left and early revealers can drain the rare
+ *   tiers.
+ * - stratified: a tier is drawn first, weighted by each tier's share of the
+ *   whole pool rather than of what is left, then an origin within the tier.
+ *   A revealer's odds stay the same however far the pool has shrunk. When
+ *   the drawn tiers are empty, the next tier is drawn among those not tried.
+ * - reserved: each tier listed in the collection's quotas releases its
+ *   origins on a schedule (a share of the tier from a point in time); a tier
+ *   at its released count is skipped until the next release, unless nothing
+ *   else is left.
+ *
+ * Tiers come from the origin metadata's rarity trait; origins without one
+ * form the `untiered` tier. The policy cannot change once reveals started,
+ * so every assignment is drawn under the policy the collection shows.
+ */
+
+import { randomBytes } from 'crypto'
+import { Collection, Prisma } from '@prisma/client'
+import prisma from '../config/database'
+import { ALLOCATION_CONFIG } from '../config/contracts'
+import { calculateTierDrawValue, originDrawSequence } from '../utils/crypto'
+import { TokenMetadata } from './metadata'
+
+export type AllocationPolicyName = 'uniform' | 'stratified' | 'reserved'
+
+export const ALLOCATION_POLICIES: AllocationPolicyName[] = ['uniform', 'stratified', 'reserved']
+
+// Tier of origins whose metadata has no rarity trait
+export const UNTIERED = 'untiered'
+
+// Simulated reveals between yields to the event loop
+const SIMULATION_YIELD_INTERVAL = 250
+
+export interface TierQuota {
+  tier: string
+  // Share of the tier (0-1) released from each point in time; nothing is released before the first
+  schedule: Array<{ at: string; share: number }>
+}
+
+export interface AllocationSettings {
+  policy: AllocationPolicyName
+  quotas: TierQuota[]
+}
+
+export interface PoolOrigin {
+  originId: number
+  isAssigned: boolean
+  rarityTier: string | null
+}
+
+// A pool's positions by tier, built once per pool and kept current with `markAssigned`, so
+// drawing a whole pool doesn't rescan it on every draw
+export interface TierIndex {
+  // Tier names in name order
+  tiers: string[]
+  positions: Map<string, number[]>
+  assigned: Map<string, number>
+  // Positions outside the held tiers, keyed by the held tiers (reserved policy)
+  released: Map<string, number[]>
+  all: number[]
+}
+
+export interface AllocationDraw {
+  originId: number
+  // Attempt of the origin draw, within the tier for the stratified policy
+  attempt: number
+  // Position in the ordered pool
+  index: number
+  tier: string
+}
+
+export interface AllocationSimulation {
+  boxTypeId: number
+  runs: number
+  reveals: number
+  tiers: Array<{ tier: string; poolSize: number; share: number }>
+  // Expected share of each tier among the reveals of each quarter of the reveal order, per policy
+  policies: Array<{
+    policy: AllocationPolicyName
+    quarters: Array<{ fromReveal: number; toReveal: number; distribution: Record<string, number> }>
+  }>
+}
+
+export class AllocationPolicyService {
+  getSettings(collection: Collection): AllocationSettings {
+    return {
+      policy: collection.allocationPolicy as AllocationPolicyName,
+      quotas: (collection.allocationQuotas as unknown as TierQuota[] | null) ?? []
+    }
+  }
+
+  /**
+   * Check allocation settings, returning the first problem found or null
+   */
+  validateSettings(settings: AllocationSettings): string | null {
+    if (!ALLOCATION_POLICIES.includes(settings.policy)) {
+      return `Unknown policy ${settings.policy}, expected one of: ${ALLOCATION_POLICIES.join(', ')}`
+    }
+    if (!Array.isArray(settings.quotas)) {
+      return 'quotas must be an array'
+    }
+    if (settings.policy === 'reserved' && settings.quotas.length === 0) {
+      return 'The reserved policy needs at least one tier quota'
+    }
+    const tiers = new Set<string>()
+    for (const quota of settings.quotas) {
+      if (typeof quota?.tier !== 'string' || quota.tier === '' || tiers.has(quota.tier)) {
+        return 'Each quota needs a distinct tier'
+      }
+      tiers.add(quota.tier)
+      if (!Array.isArray(quota.schedule) || quota.schedule.length === 0) {
+        return `Quota of tier ${quota.tier} needs a schedule`
+      }
+      for (const release of quota.schedule) {
+        if (isNaN(new Date(release?.at).getTime()) || typeof release.share !== 'number' || release.share < 0 || release.share > 1) {
+          return `Quota of tier ${quota.tier} needs releases with a valid time and a share between 0 and 1`
+        }
+      }
+    }
+    return null
+  }
+
+  /**
+   * Change the collection's policy; only possible before its first reveal
+   */
+  async updateSettings(collection: Collection, settings: AllocationSettings): Promise<AllocationSettings> {
+    const invalid = this.validateSettings(settings)
+    if (invalid) {
+      throw new Error(invalid)
+    }
+
+    const revealed = await prisma.nftInfo.findFirst({
+      where: { collectionId: collection.id, originId: { not: 0 } },
+      select: { tokenId: true }
+    })
+    if (revealed) {
+      throw new Error(`Allocation policy of ${collection.slug} cannot change after reveals have started`)
+    }
+
+    const updated = await prisma.collection.update({
+      where: { id: collection.id },
+      data: {
+        allocationPolicy: settings.policy,
+        allocationQuotas: settings.quotas.length > 0
+          ? settings.quotas.map(quota => ({ tier: quota.tier, schedule: quota.schedule.map(({ at, share }) => ({ at, share })) }))
+          : Prisma.DbNull
+      }
+    })
+    console.log(`🎚️ Allocation policy of ${collection.slug} set to ${settings.policy}`)
+    return this.getSettings(updated)
+  }
+
+  /**
+   * Rarity tier of origin metadata
+   */
+  getRarityTier(metadata: TokenMetadata): string | null {
+    const attribute = metadata.attributes?.find(attribute => attribute.trait_type === ALLOCATION_CONFIG.rarityTraitType)
+    return attribute ? String(attribute.value).slice(0, 32) : null
+  }
+
+  /**
+   * Origin the policy picks for a token, given which origins of the pool are taken; null when all are.
+   * Callers drawing repeatedly from one pool pass its tier index and `markAssigned` each draw.
+   */
+  draw(
+    settings: AllocationSettings,
+    pool: PoolOrigin[],
+    randomSeed: bigint,
+    tokenId: number,
+    now: Date,
+    tiers: TierIndex = this.indexTiers(pool)
+  ): AllocationDraw | null {
+    switch (settings.policy) {
+      case 'stratified':
+        return this.drawStratified(pool, tiers, randomSeed, tokenId)
+      case 'reserved':
+        return this.drawReserved(pool, tiers, settings.quotas, randomSeed, tokenId, now)
+      default:
+        return this.drawFrom(pool, tiers.all, randomSeed, tokenId)
+    }
+  }
+
+  indexTiers(pool: PoolOrigin[]): TierIndex {
+    const index: TierIndex = { tiers: [], positions: new Map(), assigned: new Map(), released: new Map(), all: [] }
+    pool.forEach((origin, position) => {
+      const tier = this.tierOf(origin)
+      const positions = index.positions.get(tier) ?? []
+      positions.push(position)
+      index.positions.set(tier, positions)
+      index.assigned.set(tier, (index.assigned.get(tier) ?? 0) + (origin.isAssigned ? 1 : 0))
+      index.all.push(position)
+    })
+    index.tiers = [...index.positions.keys()].sort()
+    return index
+  }
+
+  /**
+   * Take the origin at a pool position, keeping the tier index current
+   */
+  markAssigned(pool: PoolOrigin[], tiers: TierIndex, position: number): void {
+    const origin = pool[position]
+    if (!origin.isAssigned) {
+      origin.isAssigned = true
+      const tier = this.tierOf(origin)
+      tiers.assigned.set(tier, (tiers.assigned.get(tier) ?? 0) + 1)
+    }
+  }
+
+  /**
+   * Expected tier distribution by reveal order when a whole pool is revealed under each policy,
+   * over random seeds. Reserved releases are spread evenly over the reveals.
+   */
+  async simulate(collection: Collection, boxTypeId: number, runs: number): Promise<AllocationSimulation> {
+    const origins = await prisma.originMetadataInfo.findMany({
+      where: { collectionId: collection.id, boxTypeId },
+      orderBy: { originId: 'asc' },
+      select: { originId: true, rarityTier: true }
+    })
+    if (origins.length === 0) {
+      throw new Error(`Origin pool of box type ${boxTypeId} is empty`)
+    }
+
+    const tierSizes = this.countTiers(origins)
+    const tiers = [...tierSizes.keys()].sort()
+    const quarterEnds = [1, 2, 3, 4].map(quarter => Math.ceil((origins.length * quarter) / 4))
+
+    // Reveals are timed from the first release to the last so every release takes effect
+    const quotas = this.getSettings(collection).quotas
+    const releaseTimes = quotas.flatMap(quota => quota.schedule.map(release => new Date(release.at).getTime()))
+    const firstRelease = releaseTimes.length > 0 ? Math.min(...releaseTimes) : Date.now()
+    const lastRelease = releaseTimes.length > 0 ? Math.max(...releaseTimes) : Date.now()
+
+    const policies: AllocationSimulation['policies'] = []
+    for (const policy of ALLOCATION_POLICIES) {
+      const settings: AllocationSettings = { policy, quotas }
+      const counts = quarterEnds.map(() => new Map<string, number>())
+
+      for (let run = 0; run < runs; run++) {
+        const randomSeed = BigInt('0x' + randomBytes(32).toString('hex'))
+        const pool: PoolOrigin[] = origins.map(origin => ({ ...origin, isAssigned: false }))
+        const tierIndex = this.indexTiers(pool)
+        for (let reveal = 0; reveal < pool.length; reveal++) {
+          // Every draw hashes like a real reveal, so let requests through during a run
+          if (reveal % SIMULATION_YIELD_INTERVAL === 0) {
+            await new Promise(resolve => setImmediate(resolve))
+          }
+          const now = new Date(firstRelease + ((lastRelease - firstRelease) * reveal) / Math.max(1, pool.length - 1))
+          const draw = this.draw(settings, pool, randomSeed, reveal + 1, now, tierIndex)
+          if (!draw) {
+            break
+          }
+          this.markAssigned(pool, tierIndex, draw.index)
+          const quarter = counts[quarterEnds.findIndex(end => reveal < end)]
+          quarter.set(draw.tier, (quarter.get(draw.tier) ?? 0) + 1)
+        }
+      }
+
+      policies.push({
+        policy,
+        quarters: quarterEnds.map((end, quarter) => {
+          const start = quarter === 0 ? 0 : quarterEnds[quarter - 1]
+          const size = (end - start) * runs
+          return {
+            fromReveal: start + 1,
+            toReveal: end,
+            distribution: Object.fromEntries(tiers.map(tier => [tier, size > 0 ? round((counts[quarter].get(tier) ?? 0) / size) : 0]))
+          }
+        })
+      })
+    }
+
+    console.log(`🎲 Simulated ${runs} reveal(s) of box type ${boxTypeId} of ${collection.slug} under ${ALLOCATION_POLICIES.length} policies`)
+    return {
+      boxTypeId,
+      runs,
+      reveals: origins.length,
+      tiers: tiers.map(tier => ({ tier, poolSize: tierSizes.get(tier) ?? 0, share: round((tierSizes.get(tier) ?? 0) / origins.length) })),
+      policies
+    }
+  }
+
+  /**
+   * Tier first, weighted by tier size. Once every tier had a hashed attempt, later attempts draw
+   * only among the tiers not tried yet, so a tier found empty doesn't pass its odds on by name order.
+   */
+  private drawStratified(pool: PoolOrigin[], tiers: TierIndex, randomSeed: bigint, tokenId: number): AllocationDraw | null {
+    if (pool.length === 0) {
+      return null
+    }
+
+    const tierSize = (tier: string): number => (tiers.positions.get(tier) as number[]).length
+    const pickTier = (candidates: string[], attempt: number): string => {
+      const totalWeight = candidates.reduce((sum, tier) => sum + tierSize(tier), 0)
+      let value = calculateTierDrawValue(randomSeed, tokenId, attempt, totalWeight)
+      for (const tier of candidates) {
+        value -= tierSize(tier)
+        if (value < 0) {
+          return tier
+        }
+      }
+      return candidates[candidates.length - 1]
+    }
+
+    const tried = new Set<string>()
+    for (let attempt = 0; tried.size < tiers.tiers.length; attempt++) {
+      const candidates = attempt < tiers.tiers.length ? tiers.tiers : tiers.tiers.filter(tier => !tried.has(tier))
+      const tier = pickTier(candidates, attempt)
+      if (tried.has(tier)) {
+        continue
+      }
+      tried.add(tier)
+      const positions = tiers.positions.get(tier) as number[]
+      if ((tiers.assigned.get(tier) ?? 0) >= positions.length) {
+        continue
+      }
+      const draw = this.drawFrom(pool, positions, randomSeed, tokenId)
+      if (draw) {
+        return draw
+      }
+    }
+    return null
+  }
+
+  /**
+   * Uniform over the origins not held back by a tier's release schedule, falling back to the whole pool
+   */
+  private drawReserved(
+    pool: PoolOrigin[],
+    tiers: TierIndex,
+    quotas: TierQuota[],
+    randomSeed: bigint,
+    tokenId: number,
+    now: Date
+  ): AllocationDraw | null {
+    const held: string[] = []
+    for (const quota of quotas) {
+      const released = quota.schedule
+        .filter(release => new Date(release.at).getTime() <= now.getTime())
+        .reduce((share, release) => Math.max(share, release.share), 0)
+      const size = tiers.positions.get(quota.tier)?.length ?? 0
+      if ((tiers.assigned.get(quota.tier) ?? 0) >= Math.floor(released * size)) {
+        held.push(quota.tier)
+      }
+    }
+
+    // The held tiers only change at a release or when a tier reaches its released count
+    const key = JSON.stringify(held)
+    let releasedIndices = tiers.released.get(key)
+    if (!releasedIndices) {
+      const heldTiers = new Set(held)
+      releasedIndices = tiers.all.filter(index => !heldTiers.has(this.tierOf(pool[index])))
+      tiers.released.set(key, releasedIndices)
+    }
+    return this.drawFrom(pool, releasedIndices, randomSeed, tokenId) ??
+      this.drawFrom(pool, tiers.all, randomSeed, tokenId)
+  }
+
+  /**
+   * `originDrawSequence` over the given pool positions; the first free origin wins
+   */
+  private drawFrom(pool: PoolOrigin[], indices: number[], randomSeed: bigint, tokenId: number): AllocationDraw | null {
+    for (const { attempt, index } of originDrawSequence(randomSeed, tokenId, indices.length)) {
+      const origin = pool[indices[index]]
+      if (!origin.isAssigned) {
+        return { originId: origin.originId, attempt, index: indices[index], tier: this.tierOf(origin) }
+      }
+    }
+    return null
+  }
+
+  private countTiers(origins: Array<{ rarityTier: string | null }>): Map<string, number> {
+    const sizes = new Map<string, number>()
+    for (const origin of origins) {
+      const tier = this.tierOf(origin)
+      sizes.set(tier, (sizes.get(tier) ?? 0) + 1)
+    }
+    return sizes
+  }
+
+  private tierOf(origin: { rarityTier: string | null }): string {
+    return origin.rarityTier ?? UNTIERED
+  }
+}
+
+function round(share: number): number {
+  return Math.round(share * 10000) / 10000
+}
+
+// Export singleton instance
+export const allocationPolicyService = new AllocationPolicyService()
@@ -0,0 +1,85 @@
+/**
+ * Block Range Scanner
+ *
+ * Splits a block range into windows for eth_getLogs style queries. A window
+ * is halved whenever the provider rejects it (block range or result size
+ * limits) and grows back after successful calls, so long backfills adapt to
+ * whatever limits the RPC endpoint enforces.
+ */
+
+const GROWTH_STREAK = 3
+
+export interface BlockRangeScannerOptions {
+  initialRange: number
+  minRange: number
+  maxRange: number
+}
+
+export class BlockRangeScanner {
+  private currentRange: number
+  private minRange: number
+  private maxRange: number
+  private successStreak = 0
+
+  constructor(options: BlockRangeScannerOptions) {
+    this.minRange = Math.max(1, options.minRange)
+    this.maxRange = Math.max(this.minRange, options.maxRange)
+    this.currentRange = this.clamp(options.initialRange)
+  }
+
+  /**
+   * Scan `fromBlock..toBlock` (inclusive) window by window.
+   *
+   * `fetch` is retried with a smaller window when it throws; once the window
+   * is already at the minimum size the error is rethrown. `handle` is called
+   * in block order after each successful fetch and is never retried, which
+   * makes it the place to checkpoint progress.
+   */
+  async scan<T>(
+    fromBlock: number,
+    toBlock: number,
+    fetch: (fromBlock: number, toBlock: number) => Promise<T>,
+    handle: (result: T, fromBlock: number, toBlock: number) => Promise<void>
+  ): Promise<void> {
+    let windowStart = fromBlock
+
+    while (windowStart <= toBlock) {
+      const windowEnd = Math.min(toBlock, windowStart + this.currentRange - 1)
+
+      let result: T
+      try {
+        result = await fetch(windowStart, windowEnd)
+      } catch (error) {
+        if (this.currentRange <= this.minRange) {
+          throw error
+        }
+        this.currentRange = this.clamp(Math.floor(this.currentRange / 2))
+        this.successStreak = 0
+        const message = error instanceof Error ? error.message : String(error)
+        console.warn(`⚠️ Provider rejected blocks ${windowStart}-${windowEnd}, shrinking window to ${this.currentRange}: ${message}`)
+        continue
+      }
+
+      await handle(result, windowStart, windowEnd)
+
+      // Grow back only after a few clean windows to avoid flapping at the limit
+      this.successStreak++
+      if (this.successStreak >= GROWTH_STREAK) {
+        this.currentRange = this.clamp(this.currentRange * 2)
+        this.successStreak = 0
+      }
+      windowStart = windowEnd + 1
+    }
+  }
+
+  /**
+   * Current window size in blocks
+   */
+  getRange(): number {
+    return this.currentRange
+  }
+
+  private clamp(range: number): number {
+    return Math.min(this.maxRange, Math.max(this.minRange, range))
+  }
+}
@@ -1,107 +1,109 @@
-import { ethers } from 'ethers'
-import { CONTRACT_CONFIG } from '../config/contracts'
+import { Collection, RandomSeedInfo } from '@prisma/client'
 import prisma from '../config/database'
+import { getChainConfig, SYNC_CONFIG } from '../config/contracts'
+import { BlockRangeScanner } from './block-scanner'
+import { getProviderPool } from './provider-pool'
+import { collectionService } from './collection'
+import { BlockHeader, ChainBackend, DelegationLog, RandomSeedLog, RpcChainBackend, TransferLog } from './chain-backend'
+import { SimulatedAvatarContract, getSimulatedChain } from './simulated-chain'
+
+export type { DelegationLog, RandomSeedLog, TransferLog } from './chain-backend'
 
 export class BlockchainService {
-  private provider: ethers.Provider | null = null
-  private contract: ethers.Contract | null = null
+  private collection: Collection
+  private backend: ChainBackend | null = null
   private isConfigured: boolean = false
   private transferListenerActive: boolean = false
   private randomSeedListenerActive: boolean = false
-  private errorHandlerSetup: boolean = false
 
-  constructor() {
+  constructor(collection: Collection) {
+    this.collection = collection
     this.initialize()
   }
 
   private initialize(): void {
     try {
-      // Validate configuration
-      if (!CONTRACT_CONFIG.rpcUrl || CONTRACT_CONFIG.rpcUrl === '') {
-        console.warn('⚠️ RPC_URL not configured, blockchain features will be disabled')
+      if (!this.collection.address || this.collection.address === '0x0000000000000000000000000000000000000000') {
+        console.warn(`⚠️ Contract address for collection ${this.collection.slug} not configured or invalid, blockchain features will be disabled`)
         return
       }
 
-      if (!CONTRACT_CONFIG.address || CONTRACT_CONFIG.address === '' || CONTRACT_CONFIG.address === '0x0000000000000000000000000000000000000000') {
-        console.warn('⚠️ CONTRACT_ADDRESS not configured or invalid, blockchain features will be disabled')
-        return
+      const chain = getChainConfig(this.collection.chainId)
+      if (chain.backend === 'simulated') {
+        if (process.env.NODE_ENV === 'production') {
+          console.warn(`⚠️ Chain ${this.collection.chainId} is configured as simulated, which is not available in production; blockchain features will be disabled for ${this.collection.slug}`)
+          return
+        }
+        this.backend = getSimulatedChain(this.collection.chainId).getContract(this.collection.address, this.collection.maxSupply)
+      } else {
+        const pool = getProviderPool(this.collection.chainId)
+        if (pool.size() === 0) {
+          console.warn(`⚠️ No RPC endpoints configured for chain ${this.collection.chainId} (collection ${this.collection.slug}), blockchain features will be disabled`)
+          return
+        }
+        this.backend = new RpcChainBackend(pool, this.collection.address, collectionService.getAbi(this.collection))
       }
-      console.log('CONTRACT_CONFIG.address', CONTRACT_CONFIG.address)
-
-      // Initialize provider and contract
-      this.provider = new ethers.JsonRpcProvider(CONTRACT_CONFIG.rpcUrl)
-      this.contract = new ethers.Contract(
-        CONTRACT_CONFIG.address,
-        CONTRACT_CONFIG.abi,
-        this.provider
-      )
+
+      console.log(`Collection ${this.collection.slug} contract address`, this.collection.address)
       this.isConfigured = true
-      // Set up global error handler for filter errors
-      this.setupErrorHandler()
       
-      console.log('✅ Blockchain service initialized successfully')
+      console.log(`✅ Blockchain service initialized successfully (${this.backend.describe()} on chain ${this.collection.chainId})`)
     } catch (error) {
       console.warn('⚠️ Failed to initialize blockchain service:', error)
       this.isConfigured = false
     }
   }
 
-  private setupErrorHandler(): void {
-    if (this.errorHandlerSetup || !this.provider) {
-      return
+  private checkConfiguration(): ChainBackend {
+    if (!this.isConfigured || !this.backend) {
+      throw new Error(`Blockchain service not properly configured for collection ${this.collection.slug}. Please check the collection address and the RPC_URL settings for chain ${this.collection.chainId}.`)
     }
+    return this.backend
+  }
 
-    // Suppress filter not found errors - these are expected when filters expire
-    // ethers.js will automatically recreate the filter on next poll
-    this.provider.on('error', (error: unknown) => {
-      const err = error as { error?: { message?: string; code?: number }; code?: string }
-      console.log('error!!', err)
-      if (err?.error?.message?.includes('filter not found') || 
-          (err?.code === 'UNKNOWN_ERROR' && err?.error?.code === -32000)) {
-        // Silently ignore filter expiration errors - this is normal behavior
-        return
-      }
-      // Log other errors
-      console.error('Provider error:', error)
-    })
+  /**
+   * Critical read: must agree across the configured RPC quorum
+   */
+  async getRandomSeedStatus(): Promise<{ randomSeed: bigint; isRevealed: boolean }> {
+    return await this.checkConfiguration().getRandomSeedStatus()
+  }
 
-    this.errorHandlerSetup = true
+  async getMaxSupply(): Promise<number> {
+    return await this.checkConfiguration().getMaxSupply()
   }
 
-  private checkConfiguration(): void {
-    if (!this.isConfigured || !this.contract) {
-      throw new Error('Blockchain service not properly configured. Please check CONTRACT_ADDRESS and RPC_URL environment variables.')
-    }
+  async getTotalSupply(): Promise<number> {
+    return await this.checkConfiguration().getTotalSupply()
   }
 
-  async getRandomSeedStatus(): Promise<{ randomSeed: bigint; isRevealed: boolean }> {
-    this.checkConfiguration()
-    const [randomSeed, isRevealed] = await this.contract!.getRandomSeedStatus()
-    return {
-      randomSeed: BigInt(randomSeed.toString()),
-      isRevealed
-    }
+  async getOwnerOf(tokenId: number, blockTag?: number): Promise<string> {
+    return await this.checkConfiguration().getOwnerOf(tokenId, blockTag)
   }
 
-  async getMaxSupply(): Promise<number> {
-    this.checkConfiguration()
-    const maxSupply = await this.contract!.maxSupply()
-    return Number(maxSupply)
+  /**
+   * Soulbound token a Phase 3 avatar was minted with, or 0 for public and giveaway mints.
+   * Critical read: must agree across the configured RPC quorum
+   */
+  async getSoulboundTokenId(tokenId: number): Promise<number> {
+    return await this.checkConfiguration().getSoulboundTokenId(tokenId)
   }
 
-  async getTotalSupply(): Promise<number> {
-    this.checkConfiguration()
-    const totalSupply = await this.contract!.totalSupply()
-    return Number(totalSupply)
+  async getTokenURI(tokenId: number): Promise<string> {
+    return await this.checkConfiguration().getTokenURI(tokenId)
   }
 
-  async getOwnerOf(tokenId: number): Promise<string> {
-    this.checkConfiguration()
-    const owner = await this.contract!.ownerOf(tokenId)
-    return owner
+  /**
+   * In-memory contract when the collection's chain is simulated, otherwise null
+   */
+  getSimulatedContract(): SimulatedAvatarContract | null {
+    return this.backend instanceof SimulatedAvatarContract ? this.backend : null
   }
 
-  async syncRandomSeedFromContract(): Promise<{ randomSeed: bigint; needToGenerateMappings: boolean }> {
+  /**
+   * Record the contract's seed when it differs from the collection's current one. This is the only
+   * place seeds are recorded; `log` is the live RandomSeedSet log that prompted the call, if any.
+   */
+  async syncRandomSeedFromContract(log?: RandomSeedLog): Promise<{ randomSeed: bigint; needToGenerateMappings: boolean }> {
     try {
       this.checkConfiguration()
       let needToGenerateMappings = false;
@@ -115,26 +117,18 @@ export class BlockchainService {
         }
       }
 
-      const existing = await prisma.randomSeedInfo.findUnique({
-        where: { randomSeed: randomSeed.toString() }
+      // The latest seed row is the current one; earlier seeds are kept as history
+      const existing = await prisma.randomSeedInfo.findFirst({
+        where: { collectionId: this.collection.id },
+        orderBy: { syncedAt: 'desc' }
       })
 
-      if (!existing || (existing && existing.randomSeed !== randomSeed.toString())) {
+      if (!existing || existing.randomSeed !== randomSeed.toString()) {
+        needToGenerateMappings = true;
+        await this.recordRandomSeed(randomSeed, log?.randomSeed === randomSeed ? log : undefined)
+      } else if (!existing.mappingsGenerated) {
+        // Mapping generation was interrupted, e.g. by a restart; it resumes from its cursor
         needToGenerateMappings = true;
-        await prisma.randomSeedInfo.upsert({
-          where: {
-            id: 1,
-          },
-          create: {
-            randomSeed: randomSeed.toString(),
-            syncedAt: new Date()
-          },
-          update: {
-            randomSeed: randomSeed.toString(),
-            syncedAt: new Date()
-          }
-        })
-        console.log(`Synced new random seed: ${randomSeed.toString()}`)
       }
 
       return {
@@ -147,8 +141,100 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Store a newly observed seed as the collection's current seed, keeping earlier seeds as history.
+   * The block and transaction come from the RandomSeedSet log, which is looked up when not given.
+   *
+   * The seed it replaces has its mapping progress reset, since its metadataIds are about to be
+   * overwritten; if it comes back (e.g. after a reorg dropped its replacement) it is mapped again.
+   * A seed that already is current is left alone.
+   */
+  private async recordRandomSeed(randomSeed: bigint, log?: RandomSeedLog): Promise<RandomSeedInfo> {
+    const seedLog = log ?? await this.findRandomSeedSetLog(randomSeed)
+    const now = new Date()
+
+    const { seedInfo, replaced } = await prisma.$transaction(async tx => {
+      // Same lock as the mapping run's current-seed check, so no chunk for the replaced seed lands after this
+      await tx.$queryRaw`SELECT "id" FROM "collection" WHERE "id" = ${this.collection.id} FOR UPDATE`
+      const current = await tx.randomSeedInfo.findFirst({
+        where: { collectionId: this.collection.id },
+        orderBy: { syncedAt: 'desc' }
+      })
+      if (current?.randomSeed === randomSeed.toString()) {
+        return { seedInfo: current, replaced: undefined }
+      }
+
+      if (current) {
+        await tx.randomSeedInfo.update({
+          where: { id: current.id },
+          data: {
+            mappingsGenerated: false,
+            mappingCursor: 0,
+            state: 'seed_observed',
+            stateUpdatedAt: now,
+            lastError: null,
+            parityAttempts: 0
+          }
+        })
+      }
+
+      const recorded = await tx.randomSeedInfo.upsert({
+        where: { collectionId_randomSeed: { collectionId: this.collection.id, randomSeed: randomSeed.toString() } },
+        update: {
+          syncedAt: now,
+          blockNumber: seedLog ? BigInt(seedLog.blockNumber) : undefined,
+          transactionHash: seedLog?.transactionHash
+        },
+        create: {
+          collectionId: this.collection.id,
+          randomSeed: randomSeed.toString(),
+          blockNumber: seedLog ? BigInt(seedLog.blockNumber) : null,
+          transactionHash: seedLog?.transactionHash ?? null,
+          syncedAt: now
+        }
+      })
+      return { seedInfo: recorded, replaced: current }
+    })
+
+    if (replaced !== undefined) {
+      console.log(`Synced new random seed for ${this.collection.slug}: ${randomSeed.toString()}` +
+        (seedLog ? ` (block ${seedLog.blockNumber}, tx ${seedLog.transactionHash})` : '') +
+        (replaced ? `, replacing ${replaced.randomSeed}` : ''))
+    }
+    return seedInfo
+  }
+
+  /**
+   * Latest RandomSeedSet log carrying the seed, scanning from the collection's start block
+   */
+  private async findRandomSeedSetLog(randomSeed: bigint): Promise<RandomSeedLog | null> {
+    const backend = this.checkConfiguration()
+    const scanner = new BlockRangeScanner({
+      initialRange: SYNC_CONFIG.maxBlockRange,
+      minRange: SYNC_CONFIG.minBlockRange,
+      maxRange: SYNC_CONFIG.maxBlockRange
+    })
+
+    let found: RandomSeedLog | null = null
+    try {
+      const latestBlock = await backend.getLatestBlockNumber()
+      await scanner.scan(
+        this.collection.startBlock,
+        latestBlock,
+        (fromBlock, toBlock) => backend.getRandomSeedSetEvents(fromBlock, toBlock),
+        async logs => {
+          found = logs.filter(log => log.randomSeed === randomSeed).pop() ?? found
+        }
+      )
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.warn(`⚠️ Could not look up the RandomSeedSet log for ${this.collection.slug}:`, errorMessage)
+    }
+    return found
+  }
+
   async startEventListener(onRandomSeedSet: (randomSeed: bigint) => Promise<void>): Promise<void> {
-    this.checkConfiguration()
+    const backend = this.checkConfiguration()
     
     if (this.randomSeedListenerActive) {
       console.log('RandomSeedSet listener already active')
@@ -158,25 +244,23 @@ export class BlockchainService {
     this.randomSeedListenerActive = true
     
     // Remove any existing listeners first
-    this.contract!.removeAllListeners('RandomSeedSet')
+    backend.removeEventListeners('RandomSeedSet')
     
-    this.contract!.on('RandomSeedSet', async (randomSeed: bigint) => {
+    backend.onEvent('RandomSeedSet', async (randomSeed: bigint) => {
       try {
         console.log(`RandomSeedSet event detected: ${randomSeed.toString()}`)
         
         const existing = await prisma.randomSeedInfo.findUnique({
-          where: { randomSeed: randomSeed.toString() }
+          where: {
+            collectionId_randomSeed: {
+              collectionId: this.collection.id,
+              randomSeed: randomSeed.toString()
+            }
+          }
         })
 
+        // The handler records the seed through syncRandomSeedFromContract
         if (!existing) {
-          await prisma.randomSeedInfo.create({
-            data: {
-              randomSeed: randomSeed.toString(),
-              syncedAt: new Date()
-            }
-          })
-          console.log(`Stored random seed from event: ${randomSeed.toString()}`)
-          
           await onRandomSeedSet(randomSeed)
         }
       } catch (error) {
@@ -188,15 +272,15 @@ export class BlockchainService {
   }
 
   stopEventListener(): void {
-    if (this.contract) {
-      this.contract.removeAllListeners('RandomSeedSet')
+    if (this.backend) {
+      this.backend.removeEventListeners('RandomSeedSet')
     }
     this.randomSeedListenerActive = false
     console.log('Stopped RandomSeedSet event listener')
   }
 
   async startTransferEventListener(onTransfer: (from: string, to: string, tokenId: bigint) => Promise<void>): Promise<void> {
-    this.checkConfiguration()
+    const backend = this.checkConfiguration()
     
     if (this.transferListenerActive) {
       console.log('Transfer listener already active')
@@ -206,9 +290,9 @@ export class BlockchainService {
     this.transferListenerActive = true
     
     // Remove any existing listeners first
-    this.contract!.removeAllListeners('Transfer')
+    backend.removeEventListeners('Transfer')
     
-    this.contract!.on('Transfer', async (from: string, to: string, tokenId: bigint) => {
+    backend.onEvent('Transfer', async (from: string, to: string, tokenId: bigint) => {
       try {
         console.log(`Transfer event detected: from=${from}, to=${to}, tokenId=${tokenId.toString()}`)
         await onTransfer(from, to, tokenId)
@@ -221,66 +305,74 @@ export class BlockchainService {
   }
 
   stopTransferEventListener(): void {
-    if (this.contract) {
-      this.contract.removeAllListeners('Transfer')
+    if (this.backend) {
+      this.backend.removeEventListeners('Transfer')
     }
     this.transferListenerActive = false
     console.log('Stopped Transfer event listener')
   }
 
   async getLatestBlockNumber(): Promise<number> {
-    this.checkConfiguration()
-    const blockNumber = await this.provider!.getBlockNumber()
-    return blockNumber
+    return await this.checkConfiguration().getLatestBlockNumber()
   }
 
-  async getTransferEvents(fromBlock: number, toBlock?: number): Promise<Array<{
-    from: string;
-    to: string;
-    tokenId: bigint;
-    blockNumber: number;
-    transactionHash: string;
-  }>> {
-    this.checkConfiguration()
-    
-    const filter = this.contract!.filters.Transfer()
-    const events = await this.contract!.queryFilter(filter, fromBlock, toBlock)
-    
-    return events.map(event => {
-      // Type guard to ensure we have an EventLog with args
-      if ('args' in event && event.args) {
-        return {
-          from: event.args[0] as string,
-          to: event.args[1] as string,
-          tokenId: BigInt(event.args[2].toString()),
-          blockNumber: event.blockNumber,
-          transactionHash: event.transactionHash
-        }
-      }
-      throw new Error('Invalid event format')
-    })
+  async getTransferEvents(fromBlock: number, toBlock?: number): Promise<TransferLog[]> {
+    return await this.checkConfiguration().getTransferEvents(fromBlock, toBlock)
+  }
+
+  async getBlockHeader(blockNumber: number): Promise<BlockHeader | null> {
+    return await this.checkConfiguration().getBlockHeader(blockNumber)
   }
 
   async getBlockTimestamp(blockNumber: number): Promise<number> {
-    this.checkConfiguration()
-    const block = await this.provider!.getBlock(blockNumber)
+    const block = await this.checkConfiguration().getBlockHeader(blockNumber)
     if (!block) {
       throw new Error(`Block ${blockNumber} not found`)
     }
     return block.timestamp
   }
 
+  /**
+   * Delegation registry of the collection's chain, or an empty string when delegation is disabled
+   */
+  getDelegateRegistry(): string {
+    return getChainConfig(this.collection.chainId).delegateRegistry
+  }
+
+  async getDelegationEvents(fromBlock: number, toBlock?: number): Promise<DelegationLog[]> {
+    const registry = this.getDelegateRegistry()
+    if (!registry) {
+      return []
+    }
+    return await this.checkConfiguration().getDelegationEvents(registry, fromBlock, toBlock)
+  }
+
+  /**
+   * Whether a contract account accepts the signature of the hash (EIP-1271)
+   */
+  async isValidSignature(account: string, hash: string, signature: string): Promise<boolean> {
+    return await this.checkConfiguration().isValidSignature(account, hash, signature)
+  }
+
   isServiceConfigured(): boolean {
     return this.isConfigured
   }
 
-  async getTokensOfOwner(address: string): Promise<Array<{
-    tokenId: bigint;
-    metadataId: number;
-    metadata: any;
-  }>> {
-    this.checkConfiguration()
-    const tokens = await this.contract!.tokensOfOwner(address)
-    return tokens.map((tokenId: bigint) => Number(tokenId));
+  async getTokensOfOwner(address: string): Promise<number[]> {
+    return await this.checkConfiguration().getTokensOfOwner(address)
+  }
+}
+
+const blockchainServices = new Map<number, BlockchainService>()
+
+/**
+ * Shared BlockchainService for a collection
+ */
+export function getBlockchainService(collection: Collection): BlockchainService {
+  let service = blockchainServices.get(collection.id)
+  if (!service) {
+    service = new BlockchainService(collection)
+    blockchainServices.set(collection.id, service)
   }
+  return service
 }
@@ -0,0 +1,285 @@
+/**
+ * Chain Backends
+ *
+ * `BlockchainService` talks to a collection's contract through a
+ * `ChainBackend`. The RPC backend reads a deployed contract through the
+ * chain's provider pool; the simulated backend (`simulated-chain.ts`) keeps
+ * an in-memory PhaseThreeAvatar so the whole flow runs without a network.
+ * Which one a chain uses is set with CHAIN_BACKEND / CHAIN_BACKEND_<chainId>.
+ */
+
+import { ethers, Listener } from 'ethers'
+import { ProviderPool } from './provider-pool'
+import { DELEGATE_REGISTRY_ABI } from '../config/contracts'
+
+// Returned by isValidSignature(bytes32,bytes) when an EIP-1271 wallet accepts a signature
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e'
+
+const EIP1271_ABI = ['function isValidSignature(bytes32 hash, bytes signature) external view returns (bytes4)']
+
+export interface TransferLog {
+  from: string
+  to: string
+  tokenId: bigint
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+}
+
+export interface RandomSeedLog {
+  randomSeed: bigint
+  blockNumber: number
+  transactionHash: string
+}
+
+// Whole wallet, the collection's contract, or a single token of it
+export type DelegationScope = 'all' | 'contract' | 'token'
+
+export interface DelegationLog {
+  vault: string
+  delegate: string
+  scope: DelegationScope
+  // 0 unless the scope is a single token
+  tokenId: number
+  enabled: boolean
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+}
+
+export interface BlockHeader {
+  number: number
+  hash: string
+  parentHash: string
+  timestamp: number
+}
+
+export interface ChainBackend {
+  // Short description for logs, e.g. "3 RPC endpoints"
+  describe(): string
+  getRandomSeedStatus(): Promise<{ randomSeed: bigint; isRevealed: boolean }>
+  getMaxSupply(): Promise<number>
+  getTotalSupply(): Promise<number>
+  getOwnerOf(tokenId: number, blockTag?: number): Promise<string>
+  getSoulboundTokenId(tokenId: number): Promise<number>
+  getTokensOfOwner(address: string): Promise<number[]>
+  getTokenURI(tokenId: number): Promise<string>
+  getLatestBlockNumber(): Promise<number>
+  getTransferEvents(fromBlock: number, toBlock?: number): Promise<TransferLog[]>
+  getRandomSeedSetEvents(fromBlock: number, toBlock?: number): Promise<RandomSeedLog[]>
+  getBlockHeader(blockNumber: number): Promise<BlockHeader | null>
+  // Full-rights delegations from the registry that cover this contract
+  getDelegationEvents(registry: string, fromBlock: number, toBlock?: number): Promise<DelegationLog[]>
+  // EIP-1271 check; false for accounts without code or that reject the signature
+  isValidSignature(account: string, hash: string, signature: string): Promise<boolean>
+  // Contract event listeners, called with the decoded event arguments
+  onEvent(eventName: string, listener: Listener): void
+  removeEventListeners(eventName: string): void
+}
+
+/**
+ * Deployed contract read through a provider pool
+ */
+export class RpcChainBackend implements ChainBackend {
+  private pool: ProviderPool
+  private address: string
+  private abi: string[]
+  private contracts = new Map<ethers.Provider, ethers.Contract>()
+  private listenerContract: ethers.Contract | null = null
+
+  constructor(pool: ProviderPool, address: string, abi: string[]) {
+    this.pool = pool
+    this.address = address
+    this.abi = abi
+  }
+
+  describe(): string {
+    return `${this.pool.size()} RPC endpoints`
+  }
+
+  private contractFor(provider: ethers.Provider): ethers.Contract {
+    let contract = this.contracts.get(provider)
+    if (!contract) {
+      contract = new ethers.Contract(this.address, this.abi, provider)
+      this.contracts.set(provider, contract)
+    }
+    return contract
+  }
+
+  /**
+   * Call the contract through the provider pool
+   */
+  private read<T>(fn: (contract: ethers.Contract) => Promise<T>): Promise<T> {
+    return this.pool.execute(provider => fn(this.contractFor(provider)))
+  }
+
+  /**
+   * Critical read: must agree across the configured RPC quorum
+   */
+  async getRandomSeedStatus(): Promise<{ randomSeed: bigint; isRevealed: boolean }> {
+    const [randomSeed, isRevealed] = await this.pool.executeQuorum(
+      provider => this.contractFor(provider).getRandomSeedStatus(),
+      ([seed, revealed]) => `${seed.toString()}:${revealed}`
+    )
+    return {
+      randomSeed: BigInt(randomSeed.toString()),
+      isRevealed
+    }
+  }
+
+  async getMaxSupply(): Promise<number> {
+    const maxSupply = await this.read(contract => contract.maxSupply())
+    return Number(maxSupply)
+  }
+
+  async getTotalSupply(): Promise<number> {
+    const totalSupply = await this.read(contract => contract.totalSupply())
+    return Number(totalSupply)
+  }
+
+  async getOwnerOf(tokenId: number, blockTag?: number): Promise<string> {
+    return blockTag === undefined
+      ? await this.read(contract => contract.ownerOf(tokenId))
+      : await this.read(contract => contract.ownerOf(tokenId, { blockTag }))
+  }
+
+  /**
+   * Critical read: must agree across the configured RPC quorum
+   */
+  async getSoulboundTokenId(tokenId: number): Promise<number> {
+    const soulboundTokenId = await this.pool.executeQuorum(
+      provider => this.contractFor(provider).avatarToSoulbound(tokenId),
+      value => value.toString()
+    )
+    return Number(soulboundTokenId)
+  }
+
+  async getTokensOfOwner(address: string): Promise<number[]> {
+    const tokens = await this.read(contract => contract.tokensOfOwner(address))
+    return tokens.map((tokenId: bigint) => Number(tokenId))
+  }
+
+  async getTokenURI(tokenId: number): Promise<string> {
+    return await this.read(contract => contract.tokenURI(tokenId))
+  }
+
+  async getLatestBlockNumber(): Promise<number> {
+    return await this.pool.execute(provider => provider.getBlockNumber())
+  }
+
+  async getTransferEvents(fromBlock: number, toBlock?: number): Promise<TransferLog[]> {
+    const events = await this.read(contract => contract.queryFilter(contract.filters.Transfer(), fromBlock, toBlock))
+
+    return events.map(event => {
+      // Type guard to ensure we have an EventLog with args
+      if ('args' in event && event.args) {
+        return {
+          from: event.args[0] as string,
+          to: event.args[1] as string,
+          tokenId: BigInt(event.args[2].toString()),
+          blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
+          transactionHash: event.transactionHash,
+          logIndex: event.index
+        }
+      }
+      throw new Error('Invalid event format')
+    })
+  }
+
+  async getRandomSeedSetEvents(fromBlock: number, toBlock?: number): Promise<RandomSeedLog[]> {
+    const events = await this.read(contract => contract.queryFilter(contract.filters.RandomSeedSet(), fromBlock, toBlock))
+
+    return events.map(event => {
+      if ('args' in event && event.args) {
+        return {
+          randomSeed: BigInt(event.args[0].toString()),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash
+        }
+      }
+      throw new Error('Invalid event format')
+    })
+  }
+
+  async getBlockHeader(blockNumber: number): Promise<BlockHeader | null> {
+    const block = await this.pool.execute(provider => provider.getBlock(blockNumber))
+    if (!block || !block.hash) {
+      return null
+    }
+    return {
+      number: block.number,
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: block.timestamp
+    }
+  }
+
+  async getDelegationEvents(registry: string, fromBlock: number, toBlock?: number): Promise<DelegationLog[]> {
+    const events = await this.pool.execute(async provider => {
+      const contract = new ethers.Contract(registry, DELEGATE_REGISTRY_ABI, provider)
+      return [
+        ...await contract.queryFilter(contract.filters.DelegateAll(), fromBlock, toBlock),
+        ...await contract.queryFilter(contract.filters.DelegateContract(null, null, this.address), fromBlock, toBlock),
+        ...await contract.queryFilter(contract.filters.DelegateERC721(null, null, this.address), fromBlock, toBlock)
+      ]
+    })
+
+    const logs: DelegationLog[] = []
+    for (const event of events) {
+      if (!(event instanceof ethers.EventLog)) {
+        throw new Error('Invalid event format')
+      }
+      const isToken = event.eventName === 'DelegateERC721'
+      // Delegations limited to specific rights are meant for other apps
+      if (event.args.rights !== ethers.ZeroHash) {
+        continue
+      }
+      logs.push({
+        vault: event.args.from as string,
+        delegate: event.args.to as string,
+        scope: event.eventName === 'DelegateAll' ? 'all' : isToken ? 'token' : 'contract',
+        tokenId: isToken ? Number(event.args.tokenId) : 0,
+        enabled: event.args.enable as boolean,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        logIndex: event.index
+      })
+    }
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+  }
+
+  async isValidSignature(account: string, hash: string, signature: string): Promise<boolean> {
+    return await this.pool.execute(async provider => {
+      if (await provider.getCode(account) === '0x') {
+        return false
+      }
+      try {
+        const wallet = new ethers.Contract(account, EIP1271_ABI, provider)
+        const result: string = await wallet.isValidSignature(hash, signature)
+        return result.toLowerCase() === EIP1271_MAGIC_VALUE
+      } catch (error) {
+        // A revert is a rejection; anything else is an RPC failure the pool retries
+        if (ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'BAD_DATA')) {
+          return false
+        }
+        throw error
+      }
+    })
+  }
+
+  // Event listeners stay on the primary endpoint; reads go through the pool
+  onEvent(eventName: string, listener: Listener): void {
+    if (!this.listenerContract) {
+      this.listenerContract = this.contractFor(this.pool.getPrimary())
+    }
+    void this.listenerContract.on(eventName, listener)
+  }
+
+  removeEventListeners(eventName: string): void {
+    if (this.listenerContract) {
+      void this.listenerContract.removeAllListeners(eventName)
+    }
+  }
+}
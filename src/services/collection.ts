@@ -0,0 +1,176 @@
+/**
+ * Collection Service
+ *
+ * Every NFT drop served by this API is a row in the Collection table holding
+ * its contract address, chain, ABI profile, mint windows, supply and box
+ * types. All other tables are scoped to a collection.
+ */
+
+import { Collection, Prisma } from '@prisma/client'
+import { isAddress, getAddress } from 'viem'
+import prisma from '../config/database'
+import { ABI_PROFILES, COLLECTION_CONFIG } from '../config/contracts'
+
+export interface BoxType {
+  id: number
+  name: string
+}
+
+export interface CreateCollectionInput {
+  slug: string
+  name: string
+  chainId: number
+  address: string
+  abiProfile: string
+  maxSupply: number
+  mintPrice?: string
+  soulboundStartTime?: string | null
+  soulboundEndTime?: string | null
+  publicStartTime?: string | null
+  publicEndTime?: string | null
+  // Per-token reveals open once the mappings are verified and this time has passed (immediately when unset)
+  revealStartTime?: string | null
+  boxTypes: BoxType[]
+  publicBoxTypeId: number
+  startBlock?: number
+  confirmations?: number | null
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export class CollectionService {
+  async listCollections(includeInactive = false, chainId?: number): Promise<Collection[]> {
+    return await prisma.collection.findMany({
+      where: {
+        ...(includeInactive ? {} : { isActive: true }),
+        ...(chainId !== undefined ? { chainId } : {})
+      },
+      orderBy: { id: 'asc' }
+    })
+  }
+
+  async getCollectionBySlug(slug: string): Promise<Collection | null> {
+    return await prisma.collection.findUnique({
+      where: { slug }
+    })
+  }
+
+  /**
+   * Collection served by the unscoped routes
+   */
+  async getDefaultCollection(): Promise<Collection | null> {
+    if (COLLECTION_CONFIG.defaultSlug) {
+      return await this.getCollectionBySlug(COLLECTION_CONFIG.defaultSlug)
+    }
+    return await prisma.collection.findFirst({
+      where: { isActive: true },
+      orderBy: { id: 'asc' }
+    })
+  }
+
+  /**
+   * Check collection settings, returning the first problem found or null
+   */
+  validateCollectionInput(input: CreateCollectionInput): string | null {
+    if (!SLUG_PATTERN.test(input.slug)) {
+      return 'slug must be lowercase letters, digits and dashes'
+    }
+    if (!isAddress(input.address, { strict: false })) {
+      return 'address must be a valid contract address'
+    }
+    if (!ABI_PROFILES[input.abiProfile]) {
+      return `Unknown abiProfile ${input.abiProfile}, expected one of: ${Object.keys(ABI_PROFILES).join(', ')}`
+    }
+    if (isNaN(input.chainId) || isNaN(input.maxSupply) || input.maxSupply < 1) {
+      return 'chainId and maxSupply must be positive integers'
+    }
+    if (input.confirmations !== undefined && input.confirmations !== null && (isNaN(input.confirmations) || input.confirmations < 0)) {
+      return 'confirmations must be a non-negative integer'
+    }
+    if (!input.boxTypes.some(boxType => boxType.id === input.publicBoxTypeId)) {
+      return `publicBoxTypeId ${input.publicBoxTypeId} is not one of the collection's box types`
+    }
+    return null
+  }
+
+  async createCollection(input: CreateCollectionInput): Promise<Collection> {
+    const invalid = this.validateCollectionInput(input)
+    if (invalid) {
+      throw new Error(invalid)
+    }
+
+    const collection = await prisma.collection.create({
+      data: {
+        slug: input.slug,
+        name: input.name,
+        chainId: input.chainId,
+        address: getAddress(input.address),
+        abiProfile: input.abiProfile,
+        maxSupply: input.maxSupply,
+        mintPrice: input.mintPrice ?? '0',
+        soulboundStartTime: input.soulboundStartTime ? new Date(input.soulboundStartTime) : null,
+        soulboundEndTime: input.soulboundEndTime ? new Date(input.soulboundEndTime) : null,
+        publicStartTime: input.publicStartTime ? new Date(input.publicStartTime) : null,
+        publicEndTime: input.publicEndTime ? new Date(input.publicEndTime) : null,
+        revealStartTime: input.revealStartTime ? new Date(input.revealStartTime) : null,
+        boxTypes: input.boxTypes as unknown as Prisma.InputJsonValue,
+        publicBoxTypeId: input.publicBoxTypeId,
+        startBlock: input.startBlock ?? 0,
+        confirmations: input.confirmations ?? null
+      }
+    })
+    console.log(`Created collection ${collection.slug} (${collection.address} on chain ${collection.chainId})`)
+    return collection
+  }
+
+  getBoxTypes(collection: Collection): BoxType[] {
+    return collection.boxTypes as unknown as BoxType[]
+  }
+
+  getAbi(collection: Collection): string[] {
+    const abi = ABI_PROFILES[collection.abiProfile]
+    if (!abi) {
+      throw new Error(`Unknown abiProfile ${collection.abiProfile} for collection ${collection.slug}`)
+    }
+    return abi
+  }
+
+  /**
+   * Chains that have at least one active collection, with their collection slugs
+   */
+  async listChains(): Promise<{ chainId: number; collections: string[] }[]> {
+    const chains = new Map<number, string[]>()
+    for (const collection of await this.listCollections()) {
+      chains.set(collection.chainId, [...(chains.get(collection.chainId) ?? []), collection.slug])
+    }
+    return [...chains.entries()].map(([chainId, collections]) => ({ chainId, collections }))
+  }
+
+  /**
+   * Mint settings in the shape served by /api/mint/config
+   */
+  getMintConfig(collection: Collection): {
+    chainId: number;
+    maxSupply: number;
+    nftAddress: string;
+    soulboundStartTime: string | null;
+    soulboundEndTime: string | null;
+    publicStartTime: string | null;
+    publicEndTime: string | null;
+    mintPrice: string;
+  } {
+    return {
+      chainId: collection.chainId,
+      maxSupply: collection.maxSupply,
+      nftAddress: collection.address,
+      soulboundStartTime: collection.soulboundStartTime?.toISOString() ?? null,
+      soulboundEndTime: collection.soulboundEndTime?.toISOString() ?? null,
+      publicStartTime: collection.publicStartTime?.toISOString() ?? null,
+      publicEndTime: collection.publicEndTime?.toISOString() ?? null,
+      mintPrice: collection.mintPrice
+    }
+  }
+}
+
+// Export singleton instance
+export const collectionService = new CollectionService()
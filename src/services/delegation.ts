@@ -0,0 +1,149 @@
+/**
+ * Wallet Delegations
+ *
+ * Holders who keep tokens in a cold vault can sign with a hot wallet they
+ * registered as a delegate in the chain's delegation registry (delegate.xyz
+ * v2). The registry's DelegateAll, DelegateContract and DelegateERC721 logs
+ * that cover a collection are indexed into wallet_delegation, keeping the
+ * latest state of each (vault, delegate, scope) pair, so checking a delegate
+ * costs a database lookup instead of RPC calls. Only blocks with the
+ * collection's confirmations are indexed. Indexing starts at the registry's
+ * deployment block, configured per chain: vaults usually delegate long before
+ * a collection deploys, so a later start would miss their delegates.
+ */
+
+import { Collection, WalletDelegation } from '@prisma/client'
+import { getAddress } from 'viem'
+import prisma from '../config/database'
+import { getChainConfig, SYNC_CONFIG } from '../config/contracts'
+import { collectionService } from './collection'
+import { BlockRangeScanner } from './block-scanner'
+import { DelegationLog, getBlockchainService } from './blockchain'
+
+const DELEGATION_SYNC_TYPE = 'delegations'
+
+export class DelegationService {
+  /**
+   * Chains of active collections that index a delegate registry without a configured start block
+   */
+  async getChainsMissingRegistryStartBlock(): Promise<number[]> {
+    const chainIds = new Set((await collectionService.listCollections()).map(collection => collection.chainId))
+    return [...chainIds]
+      .filter(chainId => {
+        const chain = getChainConfig(chainId)
+        return chain.delegateRegistry !== '' && chain.delegateRegistryStartBlock === null
+      })
+      .sort((a, b) => a - b)
+  }
+
+  /**
+   * Index registry logs up to the confirmed head. Returns the number of logs applied.
+   */
+  async syncDelegations(collection: Collection): Promise<number> {
+    const blockchainService = getBlockchainService(collection)
+    if (!blockchainService.isServiceConfigured() || !blockchainService.getDelegateRegistry()) {
+      return 0
+    }
+
+    const chain = getChainConfig(collection.chainId)
+    const syncKey = { collectionId: collection.id, chainId: collection.chainId, syncType: DELEGATION_SYNC_TYPE }
+    const syncStatus = await prisma.syncStatus.findUnique({ where: { collectionId_chainId_syncType: syncKey } })
+    let fromBlock: number
+    if (syncStatus) {
+      fromBlock = syncStatus.lastProcessedBlock + 1
+    } else if (chain.delegateRegistryStartBlock !== null) {
+      fromBlock = chain.delegateRegistryStartBlock
+    } else {
+      throw new Error(`DELEGATE_REGISTRY_START_BLOCK_${collection.chainId} is not set`)
+    }
+    const safeHead = await blockchainService.getLatestBlockNumber() - (collection.confirmations ?? chain.confirmations)
+    if (safeHead < fromBlock) {
+      return 0
+    }
+
+    const scanner = new BlockRangeScanner({
+      initialRange: SYNC_CONFIG.initialBlockRange,
+      minRange: SYNC_CONFIG.minBlockRange,
+      maxRange: SYNC_CONFIG.maxBlockRange
+    })
+
+    let applied = 0
+    await scanner.scan(
+      fromBlock,
+      safeHead,
+      (from, to) => blockchainService.getDelegationEvents(from, to),
+      async (logs, _from, to) => {
+        // Logs come in chain order, so the last one for a pair is its current state
+        await prisma.$transaction(async (tx) => {
+          for (const log of logs) {
+            await tx.walletDelegation.upsert({
+              where: { collectionId_vault_delegate_scope_tokenId: this.delegationKey(collection.id, log) },
+              update: { enabled: log.enabled, blockNumber: log.blockNumber, transactionHash: log.transactionHash },
+              create: {
+                ...this.delegationKey(collection.id, log),
+                enabled: log.enabled,
+                blockNumber: log.blockNumber,
+                transactionHash: log.transactionHash
+              }
+            })
+          }
+          await tx.syncStatus.upsert({
+            where: { collectionId_chainId_syncType: syncKey },
+            update: { lastProcessedBlock: to, updatedAt: new Date() },
+            create: { ...syncKey, lastProcessedBlock: to, updatedAt: new Date() }
+          })
+        })
+        applied += logs.length
+      }
+    )
+
+    if (applied > 0) {
+      console.log(`🤝 Indexed ${applied} delegation log(s) for ${collection.slug} up to block ${safeHead}`)
+    }
+    return applied
+  }
+
+  /**
+   * Whether the vault delegated to the wallet for all contracts, this collection or the token
+   */
+  async isDelegate(collection: Collection, vault: string, delegate: string, tokenId: number): Promise<boolean> {
+    const delegation = await prisma.walletDelegation.findFirst({
+      where: {
+        collectionId: collection.id,
+        vault: getAddress(vault),
+        delegate: getAddress(delegate),
+        enabled: true,
+        OR: [{ scope: { in: ['all', 'contract'] } }, { scope: 'token', tokenId }]
+      }
+    })
+    return !!delegation
+  }
+
+  /**
+   * Enabled delegations from or to an address
+   */
+  async listDelegations(collection: Collection, address?: string): Promise<WalletDelegation[]> {
+    const wallet = address ? getAddress(address) : undefined
+    return await prisma.walletDelegation.findMany({
+      where: {
+        collectionId: collection.id,
+        enabled: true,
+        ...(wallet && { OR: [{ vault: wallet }, { delegate: wallet }] })
+      },
+      orderBy: { blockNumber: 'desc' }
+    })
+  }
+
+  private delegationKey(collectionId: number, log: DelegationLog) {
+    return {
+      collectionId,
+      vault: getAddress(log.vault),
+      delegate: getAddress(log.delegate),
+      scope: log.scope,
+      tokenId: log.tokenId
+    }
+  }
+}
+
+// Export singleton instance
+export const delegationService = new DelegationService()
@@ -0,0 +1,105 @@
+/**
+ * Holder Authorization
+ *
+ * A holder action on a token is authorized when the signing wallet is the
+ * token owner or a delegate the owner registered (see `delegation.ts`), and
+ * the signature checks out either as an ECDSA signature of that wallet or,
+ * for contract wallets such as a Safe, through EIP-1271 `isValidSignature`.
+ * Each authorized action is recorded with the path and signature type that
+ * authorized it.
+ */
+
+import { Collection, HolderAuthorization, Prisma } from '@prisma/client'
+import { ethers } from 'ethers'
+import { getAddress } from 'viem'
+import prisma from '../config/database'
+import { getBlockchainService } from './blockchain'
+import { delegationService } from './delegation'
+
+// Whether the owner or a delegate of the owner signed
+export type AuthorizationPath = 'owner' | 'delegate'
+
+// How the signature was checked: recovered with ECDSA, or accepted by the signer's contract (EIP-1271)
+export type SignatureType = 'ecdsa' | 'eip1271'
+
+export interface HolderAuthorizationEntry {
+  action: string
+  tokenId: number
+  owner: string
+  signer: string
+  path: AuthorizationPath
+  // 'session' when a holder session stood in for a signature
+  signatureType: SignatureType | 'session'
+  sessionId?: number
+}
+
+export class HolderAuthorizationService {
+  /**
+   * How the signer signed the hash, or null when the signature is not the signer's.
+   * Contract accounts are asked through EIP-1271 on the collection's chain.
+   */
+  async verifySignature(collection: Collection, signer: string, hash: string, signature: string): Promise<SignatureType | null> {
+    try {
+      if (ethers.recoverAddress(hash, signature) === getAddress(signer)) {
+        return 'ecdsa'
+      }
+    } catch {
+      // Not a plain ECDSA signature, e.g. a Safe's concatenated owner signatures
+    }
+
+    const blockchainService = getBlockchainService(collection)
+    if (blockchainService.isServiceConfigured() && await blockchainService.isValidSignature(signer, hash, signature)) {
+      return 'eip1271'
+    }
+    return null
+  }
+
+  /**
+   * Whether the signer may act for the owner on the token, and through which path
+   */
+  async resolvePath(collection: Collection, tokenId: number, owner: string, signer: string): Promise<AuthorizationPath | null> {
+    if (getAddress(signer) === getAddress(owner)) {
+      return 'owner'
+    }
+    return await delegationService.isDelegate(collection, owner, signer, tokenId) ? 'delegate' : null
+  }
+
+  /**
+   * Record an authorized action, inside the transaction performing it
+   */
+  async record(tx: Prisma.TransactionClient, collection: Collection, entry: HolderAuthorizationEntry): Promise<void> {
+    await tx.holderAuthorization.create({
+      data: {
+        collectionId: collection.id,
+        action: entry.action,
+        tokenId: entry.tokenId,
+        owner: getAddress(entry.owner),
+        signer: getAddress(entry.signer),
+        path: entry.path,
+        signatureType: entry.signatureType,
+        sessionId: entry.sessionId ?? null
+      }
+    })
+  }
+
+  async listAuthorizations(
+    collection: Collection,
+    filter: { tokenId?: number; address?: string },
+    paging: { limit: number; offset: number }
+  ): Promise<{ total: number; items: HolderAuthorization[] }> {
+    const address = filter.address ? getAddress(filter.address) : undefined
+    const where: Prisma.HolderAuthorizationWhereInput = {
+      collectionId: collection.id,
+      ...(filter.tokenId !== undefined && { tokenId: filter.tokenId }),
+      ...(address && { OR: [{ owner: address }, { signer: address }] })
+    }
+    const [total, items] = await Promise.all([
+      prisma.holderAuthorization.count({ where }),
+      prisma.holderAuthorization.findMany({ where, orderBy: { id: 'desc' }, take: paging.limit, skip: paging.offset })
+    ])
+    return { total, items }
+  }
+}
+
+// Export singleton instance
+export const holderAuthorizationService = new HolderAuthorizationService()
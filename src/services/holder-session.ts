@@ -0,0 +1,168 @@
+/**
+ * Holder Sessions
+ *
+ * Holders sign in once with an EIP-4361 (Sign-In with Ethereum) message and
+ * get a short-lived bearer token that holder endpoints such as reveal accept
+ * instead of a signature per action. Messages must name the configured
+ * SIWE_DOMAIN and the chain of the collection signed in to, and a session is
+ * only accepted by that collection's endpoints. Contract wallets sign in
+ * through EIP-1271 on the collection's chain. Nonces and sessions live in
+ * Postgres, so sessions survive restarts and can be revoked; only a hash of
+ * the token is stored.
+ */
+
+import { Collection, HolderSession } from '@prisma/client'
+import { ethers } from 'ethers'
+import { getAddress } from 'viem'
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe'
+import prisma from '../config/database'
+import { SIWE_CONFIG } from '../config/contracts'
+import { holderAuthorizationService, SignatureType } from './holder-authorization'
+
+export type SignInResult =
+  | { valid: true; token: string; session: HolderSession }
+  | { valid: false; error: string }
+
+function hashSessionToken(token: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(token))
+}
+
+export class HolderSessionService {
+  /**
+   * Nonce for the SIWE message the holder signs next
+   */
+  async issueNonce(): Promise<{ nonce: string; expiresAt: Date }> {
+    const now = new Date()
+    const expiresAt = new Date(now.getTime() + SIWE_CONFIG.nonceTtlSeconds * 1000)
+
+    // Expired nonces can never be used; drop them while issuing new ones
+    await prisma.siweNonce.deleteMany({ where: { expiresAt: { lt: now } } })
+
+    const { nonce } = await prisma.siweNonce.create({
+      data: { nonce: generateSiweNonce(), expiresAt }
+    })
+    return { nonce, expiresAt }
+  }
+
+  /**
+   * Verify a signed SIWE message and open a session for its address on the collection.
+   * Throws when SIWE_DOMAIN is not configured: the domain is never taken from the request.
+   */
+  async signIn(collection: Collection, message: string, signature: string): Promise<SignInResult> {
+    const domain = SIWE_CONFIG.domain
+    if (!domain) {
+      throw new Error('SIWE_DOMAIN is not configured')
+    }
+
+    const fields = parseSiweMessage(message)
+    const { nonce, chainId } = fields
+    if (!fields.address || !nonce || chainId === undefined) {
+      return { valid: false, error: 'Malformed SIWE message' }
+    }
+
+    if (chainId !== collection.chainId) {
+      return { valid: false, error: `SIWE message is for chain ${chainId}, but ${collection.slug} is on chain ${collection.chainId}` }
+    }
+
+    if (!validateSiweMessage({ message: fields, domain })) {
+      return { valid: false, error: `SIWE message is not valid for ${domain} at this time` }
+    }
+
+    const siweNonce = await prisma.siweNonce.findUnique({ where: { nonce } })
+    if (!siweNonce || siweNonce.usedAt || siweNonce.expiresAt.getTime() < Date.now()) {
+      return { valid: false, error: 'Unknown, used or expired nonce' }
+    }
+
+    const address = getAddress(fields.address)
+    const signatureType = await this.verifySignature(collection, message, signature, address)
+    if (!signatureType) {
+      return { valid: false, error: 'Signature does not match the message address' }
+    }
+
+    const sessionExpiry = Date.now() + SIWE_CONFIG.sessionTtlSeconds * 1000
+    const expiresAt = new Date(fields.expirationTime ? Math.min(sessionExpiry, fields.expirationTime.getTime()) : sessionExpiry)
+    const token = ethers.hexlify(ethers.randomBytes(32))
+
+    try {
+      const session = await prisma.$transaction(async (tx) => {
+        const consumed = await tx.siweNonce.updateMany({
+          where: { nonce, usedAt: null },
+          data: { usedAt: new Date() }
+        })
+        if (consumed.count === 0) {
+          throw new Error('SIWE nonce already used')
+        }
+        return await tx.holderSession.create({
+          data: { tokenHash: hashSessionToken(token), collectionId: collection.id, address, chainId, signatureType, expiresAt }
+        })
+      })
+
+      console.log(`🔑 Holder session ${session.id} opened on ${collection.slug} for ${address} (${signatureType})`)
+      return { valid: true, token, session }
+    } catch (error) {
+      if (error instanceof Error && error.message === 'SIWE nonce already used') {
+        return { valid: false, error: 'Unknown, used or expired nonce' }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * ECDSA signature of the address, or an EIP-1271 signature of the contract at the address on the collection's chain
+   */
+  private async verifySignature(collection: Collection, message: string, signature: string, address: string): Promise<SignatureType | null> {
+    let hash: string
+    try {
+      hash = ethers.hashMessage(message)
+      ethers.getBytes(signature)
+    } catch {
+      return null
+    }
+    return await holderAuthorizationService.verifySignature(collection, address, hash, signature)
+  }
+
+  /**
+   * Live session for a bearer token on the collection, or null when it is unknown, expired,
+   * revoked or was issued for another collection
+   */
+  async getSession(collection: Collection, token: string): Promise<HolderSession | null> {
+    const session = await prisma.holderSession.findUnique({ where: { tokenHash: hashSessionToken(token) } })
+    if (!session || session.revokedAt || session.expiresAt.getTime() < Date.now()) {
+      return null
+    }
+    if (session.collectionId !== collection.id || session.chainId !== collection.chainId) {
+      return null
+    }
+    return session
+  }
+
+  async listSessions(collection: Collection, address?: string): Promise<HolderSession[]> {
+    return await prisma.holderSession.findMany({
+      where: {
+        collectionId: collection.id,
+        ...(address && { address: getAddress(address) }),
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * Revoke one session, or every live session of an address, on the collection. Returns how many were revoked.
+   */
+  async revoke(collection: Collection, target: { sessionId: number } | { address: string }): Promise<number> {
+    const where = 'sessionId' in target ? { id: target.sessionId } : { address: getAddress(target.address) }
+    const { count } = await prisma.holderSession.updateMany({
+      where: { ...where, collectionId: collection.id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+    if (count > 0) {
+      console.log(`🚫 Revoked ${count} holder session(s) on ${collection.slug}`)
+    }
+    return count
+  }
+}
+
+// Export singleton instance
+export const holderSessionService = new HolderSessionService()
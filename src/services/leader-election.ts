@@ -0,0 +1,184 @@
+/**
+ * Leader Election
+ *
+ * Makes sure only one API instance runs the indexers and mapping jobs. The
+ * leader holds a row in the `scheduler_lease` table and renews it on an
+ * interval; when it stops renewing (crash, network split, shutdown) the
+ * lease expires and the next instance to try takes it over. All times are
+ * taken from the database clock so instances with skewed clocks agree on
+ * when a lease has expired.
+ */
+
+import { Prisma } from '@prisma/client'
+import prisma from '../config/database'
+
+export interface LeaderElectionOptions {
+  name: string
+  instanceId: string
+  leaseTtlMs: number
+  renewIntervalMs: number
+}
+
+export interface LeaderElectionHandlers {
+  onElected: () => Promise<void>
+  onDemoted: () => Promise<void>
+}
+
+export interface LeaderStatus {
+  instanceId: string
+  isLeader: boolean
+  leaseHolder: string | null
+  leaseAcquiredAt: string | null
+  leaseExpiresAt: string | null
+}
+
+interface LeaseRow {
+  holder: string
+  acquired_at: Date
+  expires_at: Date
+}
+
+// Lease times are stored as UTC, matching how Prisma reads TIMESTAMP columns
+const DB_NOW = Prisma.sql`(now() AT TIME ZONE 'UTC')`
+
+export class LeaderElection {
+  private options: LeaderElectionOptions
+  private handlers: LeaderElectionHandlers
+  private intervalId: NodeJS.Timeout | null = null
+  private isLeader = false
+  // Local time the last successful renewal was sent, used to step down before the lease can run out
+  private lastRenewalStartedAt = 0
+  private lease: LeaseRow | null = null
+  private transition: Promise<void> = Promise.resolve()
+
+  constructor(options: LeaderElectionOptions, handlers: LeaderElectionHandlers) {
+    this.options = options
+    this.handlers = handlers
+  }
+
+  /**
+   * Start competing for the lease
+   */
+  async start(): Promise<void> {
+    if (this.intervalId) {
+      return
+    }
+
+    console.log(`🗳️ Instance ${this.options.instanceId} competing for lease ${this.options.name}`)
+    this.intervalId = setInterval(() => {
+      void this.tick()
+    }, this.options.renewIntervalMs)
+    await this.tick()
+  }
+
+  /**
+   * Stop competing and hand the lease back so another instance can take over right away
+   */
+  async stop(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+
+    if (this.isLeader) {
+      await this.demote('shutting down')
+      try {
+        await prisma.schedulerLease.deleteMany({
+          where: { name: this.options.name, holder: this.options.instanceId }
+        })
+        console.log(`👋 Released lease ${this.options.name}`)
+      } catch (error) {
+        console.error('Error releasing lease:', error)
+      }
+    }
+  }
+
+  isLeaderInstance(): boolean {
+    return this.isLeader
+  }
+
+  getStatus(): LeaderStatus {
+    return {
+      instanceId: this.options.instanceId,
+      isLeader: this.isLeader,
+      leaseHolder: this.lease?.holder ?? null,
+      leaseAcquiredAt: this.lease?.acquired_at.toISOString() ?? null,
+      leaseExpiresAt: this.lease?.expires_at.toISOString() ?? null
+    }
+  }
+
+  private async tick(): Promise<void> {
+    const startedAt = Date.now()
+    try {
+      const acquired = await this.tryAcquire()
+      if (acquired) {
+        this.lastRenewalStartedAt = startedAt
+        if (!this.isLeader) {
+          await this.promote()
+        }
+      } else {
+        this.lease = await this.readLease()
+        if (this.isLeader) {
+          await this.demote(`lease taken over by ${this.lease?.holder ?? 'another instance'}`)
+        }
+      }
+    } catch (error) {
+      console.error(`Error renewing lease ${this.options.name}:`, error)
+      // Without renewals the lease runs out and another instance may take over; stop working before that happens
+      if (this.isLeader && Date.now() - this.lastRenewalStartedAt >= this.options.leaseTtlMs - this.options.renewIntervalMs) {
+        await this.demote('lease could not be renewed')
+      }
+    }
+  }
+
+  /**
+   * Take the lease if it is free, expired or already ours, extending it in the same statement
+   */
+  private async tryAcquire(): Promise<boolean> {
+    const rows = await prisma.$queryRaw<LeaseRow[]>`
+      INSERT INTO "scheduler_lease" ("name", "holder", "acquired_at", "renewed_at", "expires_at")
+      VALUES (${this.options.name}, ${this.options.instanceId}, ${DB_NOW}, ${DB_NOW}, ${DB_NOW} + ${this.options.leaseTtlMs}::int * interval '1 millisecond')
+      ON CONFLICT ("name") DO UPDATE SET
+        "holder" = EXCLUDED."holder",
+        "acquired_at" = CASE WHEN "scheduler_lease"."holder" = EXCLUDED."holder" THEN "scheduler_lease"."acquired_at" ELSE EXCLUDED."acquired_at" END,
+        "renewed_at" = EXCLUDED."renewed_at",
+        "expires_at" = EXCLUDED."expires_at"
+      WHERE "scheduler_lease"."holder" = EXCLUDED."holder" OR "scheduler_lease"."expires_at" < ${DB_NOW}
+      RETURNING "holder", "acquired_at", "expires_at"`
+
+    if (rows.length === 0) {
+      return false
+    }
+    this.lease = rows[0]
+    return true
+  }
+
+  private async readLease(): Promise<LeaseRow | null> {
+    const lease = await prisma.schedulerLease.findUnique({
+      where: { name: this.options.name }
+    })
+    return lease ? { holder: lease.holder, acquired_at: lease.acquiredAt, expires_at: lease.expiresAt } : null
+  }
+
+  private promote(): Promise<void> {
+    this.isLeader = true
+    console.log(`👑 Instance ${this.options.instanceId} acquired lease ${this.options.name}`)
+    return this.runTransition(this.handlers.onElected)
+  }
+
+  private demote(reason: string): Promise<void> {
+    this.isLeader = false
+    console.warn(`⚠️ Instance ${this.options.instanceId} gave up lease ${this.options.name}: ${reason}`)
+    return this.runTransition(this.handlers.onDemoted)
+  }
+
+  /**
+   * Run election callbacks one after another so a quick demote never overtakes a slow start
+   */
+  private runTransition(handler: () => Promise<void>): Promise<void> {
+    this.transition = this.transition.then(handler).catch(error => {
+      console.error(`Error handling leadership change for ${this.options.name}:`, error)
+    })
+    return this.transition
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * WebSocket Log Subscriber
+ *
+ * Keeps an eth_subscribe connection open for the contract's Transfer,
+ * RandomSeedSet and MintTokens logs and for new block headers. Dropped
+ * connections are detected through the socket close event and a heartbeat,
+ * and re-established with exponential backoff. Anything missed while
+ * disconnected is left to the historical poller; `onReconnect` tells the
+ * owner when a catch-up sync is due.
+ */
+
+import { ethers } from 'ethers'
+
+const SUBSCRIBED_EVENTS = ['Transfer', 'RandomSeedSet', 'MintTokens']
+
+export interface LogSubscriberOptions {
+  url: string
+  chainId: number
+  address: string
+  abi: string[]
+  reconnectBaseDelayMs: number
+  reconnectMaxDelayMs: number
+  heartbeatIntervalMs: number
+}
+
+export interface LogSubscriberHandlers {
+  onLog: (event: ethers.LogDescription, log: ethers.Log) => Promise<void>
+  onBlock: (blockNumber: number) => Promise<void>
+  onReconnect: () => Promise<void>
+}
+
+export interface LogSubscriberStatus {
+  isRunning: boolean
+  isConnected: boolean
+  reconnects: number
+  lastLogAt: string | null
+}
+
+export class LogSubscriber {
+  private options: LogSubscriberOptions
+  private handlers: LogSubscriberHandlers
+  private iface: ethers.Interface
+  private provider: ethers.WebSocketProvider | null = null
+  private heartbeatId: NodeJS.Timeout | null = null
+  private reconnectId: NodeJS.Timeout | null = null
+  private isRunning = false
+  private isConnected = false
+  private reconnectAttempts = 0
+  private reconnects = 0
+  private lastLogAt: Date | null = null
+
+  constructor(options: LogSubscriberOptions, handlers: LogSubscriberHandlers) {
+    this.options = options
+    this.handlers = handlers
+    this.iface = new ethers.Interface(options.abi)
+  }
+
+  /**
+   * Open the connection and subscribe; reconnects until stopped
+   */
+  start(): void {
+    if (this.isRunning) {
+      return
+    }
+    this.isRunning = true
+    void this.connect()
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.reconnectId) {
+      clearTimeout(this.reconnectId)
+      this.reconnectId = null
+    }
+    await this.teardown()
+    console.log('Stopped WebSocket log subscription')
+  }
+
+  getStatus(): LogSubscriberStatus {
+    return {
+      isRunning: this.isRunning,
+      isConnected: this.isConnected,
+      reconnects: this.reconnects,
+      lastLogAt: this.lastLogAt?.toISOString() ?? null
+    }
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      const network = ethers.Network.from(this.options.chainId)
+      const provider = new ethers.WebSocketProvider(this.options.url, network, { staticNetwork: network })
+      this.provider = provider
+
+      // ethers does not reconnect by itself, so watch the socket for errors and closes
+      const socket = provider.websocket as ethers.WebSocketLike & { onclose?: ((...args: Array<unknown>) => unknown) | null }
+      socket.onerror = (error: unknown) => {
+        this.handleDisconnect(`socket error: ${(error as { message?: string })?.message ?? String(error)}`)
+      }
+      socket.onclose = () => this.handleDisconnect('socket closed')
+
+      // Wait for the socket to open before subscribing; a subscription still
+      // pending when the provider is destroyed ends in an unhandled rejection
+      await provider.getBlockNumber()
+      if (this.provider !== provider) {
+        return
+      }
+
+      const topics = SUBSCRIBED_EVENTS.map(name => this.iface.getEvent(name)!.topicHash)
+      await provider.on({ address: this.options.address, topics: [topics] }, (log: ethers.Log) => {
+        this.dispatchLog(log)
+      })
+      await provider.on('block', (blockNumber: number) => {
+        this.handlers.onBlock(blockNumber).catch(error => {
+          console.error('Error handling new block from WebSocket:', error)
+        })
+      })
+
+      this.heartbeatId = setInterval(() => {
+        provider.getBlockNumber().catch(error => {
+          this.handleDisconnect(`heartbeat failed: ${error instanceof Error ? error.message : String(error)}`)
+        })
+      }, this.options.heartbeatIntervalMs)
+
+      const isReconnect = this.reconnectAttempts > 0
+      this.isConnected = true
+      this.reconnectAttempts = 0
+      console.log(`🔌 WebSocket log subscription ${isReconnect ? 're-established' : 'started'}`)
+      if (isReconnect) {
+        this.reconnects++
+        await this.handlers.onReconnect()
+      }
+    } catch (error) {
+      this.handleDisconnect(`connect failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  private dispatchLog(log: ethers.Log): void {
+    const event = this.iface.parseLog({ topics: [...log.topics], data: log.data })
+    if (!event) {
+      return
+    }
+    this.lastLogAt = new Date()
+    this.handlers.onLog(event, log).catch(error => {
+      console.error(`Error handling ${event.name} log from WebSocket:`, error)
+    })
+  }
+
+  private handleDisconnect(reason: string): void {
+    if (!this.provider) {
+      // Already torn down and waiting to reconnect
+      return
+    }
+
+    console.warn(`⚠️ WebSocket log subscription lost (${reason}), historical poller covers the gap`)
+    void this.teardown()
+
+    if (!this.isRunning) {
+      return
+    }
+
+    const delay = Math.min(
+      this.options.reconnectMaxDelayMs,
+      this.options.reconnectBaseDelayMs * 2 ** this.reconnectAttempts
+    )
+    this.reconnectAttempts++
+    this.reconnectId = setTimeout(() => {
+      this.reconnectId = null
+      void this.connect()
+    }, delay)
+  }
+
+  private async teardown(): Promise<void> {
+    this.isConnected = false
+    if (this.heartbeatId) {
+      clearInterval(this.heartbeatId)
+      this.heartbeatId = null
+    }
+    const provider = this.provider
+    this.provider = null
+    if (provider) {
+      try {
+        await provider.destroy()
+      } catch {
+        // The socket is usually already gone
+      }
+    }
+  }
+}
@@ -1,94 +1,406 @@
+import { Collection, NftInfo, Prisma, RandomSeedInfo } from '@prisma/client'
 import prisma from '../config/database'
-import { calculateMetadataId } from '../utils/crypto'
+import { MAPPING_CONFIG } from '../config/contracts'
+import { createMetadataIdMapper, createTokenIdMapper } from '../utils/crypto'
+import { getBlockchainService } from './blockchain'
+import { ParityReport, tokenUriParityService } from './token-uri-parity'
 
-export class MappingService {
-  async generateAllMappings(randomSeed: bigint, maxSupply: number): Promise<void> {
-    console.log(`Generating mappings for ${maxSupply} tokens with seed: ${randomSeed.toString()}`)
+export interface MappingProgress {
+  randomSeed: string
+  mappingsGenerated: boolean
+  // Highest tokenId whose metadataId has been committed for this seed
+  mappingCursor: number
+  mappedTokens: number
+  totalTokens: number
+}
+
+export interface SeedHistoryEntry {
+  id: number
+  randomSeed: string
+  blockNumber: number | null
+  transactionHash: string | null
+  syncedAt: string
+  state: string
+  current: boolean
+  // Tokens whose stored metadataId was derived from this seed
+  mappedTokens: number
+  // Tokens whose metadataId changed when this seed replaced an earlier one
+  remappedTokens: number
+}
+
+export interface TokenSeedEntry {
+  tokenId: number
+  metadataId: number | null
+  randomSeedId: number | null
+  randomSeed: string | null
+  current: boolean
+}
+
+interface SeedPermutation {
+  randomSeedId: number
+  randomSeed: string
+  maxSupply: number
+  toMetadataId: (tokenId: number) => number
+  toTokenId: (metadataId: number) => number
+}
 
-    const existingNfts = await prisma.nftInfo.findMany({
-      orderBy: { tokenId: 'asc' }
+// tokenId <-> metadataId permutation of each collection's current seed, by collection ID
+const seedPermutations = new Map<number, SeedPermutation>()
+
+export class MappingService {
+  /**
+   * Write the metadataId of every minted token for a seed.
+   *
+   * Tokens are mapped in tokenId order, MAPPING_CONFIG.chunkSize at a time,
+   * with one set-based UPDATE per chunk. Each chunk commits in the same
+   * transaction as the seed's mapping cursor, after checking under a lock on
+   * the collection row that this seed is still the collection's latest one;
+   * once a newer seed is recorded the run stops with an error instead of
+   * writing stale metadataIds. After a restart the run picks up after the
+   * cursor instead of starting over.
+   *
+   * Every token records the seed its metadataId came from. When a new seed
+   * replaces an earlier one, each token whose metadataId changes gets a
+   * MetadataRemap row with its before and after values, written by the same
+   * statement that remaps it.
+   *
+   * Afterwards a sample is checked against the contract's tokenURI; the
+   * parity report is returned, or null when the check could not run.
+   */
+  async generateAllMappings(collection: Collection, randomSeed: bigint, maxSupply: number): Promise<ParityReport | null> {
+    const collectionId = collection.id
+    // Seeds are recorded by BlockchainService.syncRandomSeedFromContract only
+    const seedInfo = await prisma.randomSeedInfo.findUnique({
+      where: { collectionId_randomSeed: { collectionId, randomSeed: randomSeed.toString() } }
     })
+    if (!seedInfo) {
+      throw new Error(`Seed ${randomSeed.toString()} has not been recorded for ${collection.slug}`)
+    }
 
-    if (existingNfts.length === 0) {
+    const totalTokens = await prisma.nftInfo.count({ where: { collectionId } })
+    if (totalTokens === 0) {
       console.log('No existing NFTs found, skipping mapping generation')
-      return
+      return await this.checkParity(collection)
+    }
+
+    let cursor = seedInfo.mappingCursor
+    if (cursor > 0) {
+      console.log(`Resuming mappings for collection ${collectionId} after token ${cursor}`)
+    } else {
+      console.log(`Generating mappings for ${totalTokens} tokens of collection ${collectionId} with seed: ${randomSeed.toString()}`)
     }
-    for (const nft of existingNfts) {
-      const metadataId = calculateMetadataId(nft.tokenId, randomSeed, maxSupply)
 
-      await prisma.nftInfo.update({
-        where: { tokenId: nft.tokenId },
-        data: { metadataId }
+    const toMetadataId = createMetadataIdMapper(randomSeed, maxSupply)
+    let mappedTokens = await prisma.nftInfo.count({ where: { collectionId, tokenId: { lte: cursor } } })
+
+    for (;;) {
+      const chunk = await prisma.nftInfo.findMany({
+        where: { collectionId, tokenId: { gt: cursor } },
+        select: { tokenId: true },
+        orderBy: { tokenId: 'asc' },
+        take: MAPPING_CONFIG.chunkSize
       })
-      console.log(`Updated NFT ${nft.tokenId} with metadataId ${metadataId}`)
-    }
-    await prisma.randomSeedInfo.upsert({
-      where: { randomSeed: randomSeed.toString() },
-      update: { mappingsGenerated: true },
-      create: { randomSeed: randomSeed.toString(), mappingsGenerated: true }
-    });
-    console.log('✅ Mappings generated for existing NFTs')
-    return;
-
-    await prisma.$transaction(async (tx: any) => {
-      for (const nft of existingNfts) {
-        const metadataId = calculateMetadataId(nft.tokenId, randomSeed, maxSupply)
-
-        await tx.nftInfo.update({
-          where: { tokenId: nft.tokenId },
-          data: { metadataId }
+      if (chunk.length === 0) {
+        break
+      }
+
+      const tokenIds = chunk.map(nft => nft.tokenId)
+      const metadataIds = tokenIds.map(toMetadataId)
+      const chunkCursor = tokenIds[tokenIds.length - 1]
+
+      await prisma.$transaction(async tx => {
+        await this.assertCurrentSeed(tx, collection, seedInfo)
+        await this.writeMetadataIds(tx, collectionId, seedInfo.id, tokenIds, metadataIds)
+        await tx.randomSeedInfo.update({
+          where: { id: seedInfo.id },
+          data: { mappingCursor: chunkCursor }
         })
+      })
 
-        // const availableOrigin = await tx.originMetadataInfo.findFirst({
-        //   where: {
-        //     boxTypeId: nft.boxTypeId,
-        //     isAssigned: false
-        //   },
-        //   orderBy: { originId: 'asc' }
-        // })
-
-        // if (availableOrigin) {
-        //   await tx.nftInfo.update({
-        //     where: { tokenId: nft.tokenId },
-        //     data: {
-        //       metadataId,
-        //       originId: availableOrigin.originId
-        //     }
-        //   })
-
-        //   await tx.originMetadataInfo.update({
-        //     where: { originId: availableOrigin.originId },
-        //     data: { isAssigned: true }
-        //   })
-
-        //   console.log(`Token ${nft.tokenId} -> MetadataId ${metadataId}, OriginId ${availableOrigin.originId}`)
-        // } else {
-        //   console.warn(`No available origin metadata for boxType ${nft.boxTypeId}`)
-        // }
-      }
-      
+      cursor = chunkCursor
+      mappedTokens += chunk.length
+      const percent = Math.min(100, Math.round((mappedTokens / totalTokens) * 100))
+      console.log(`📊 Mapping progress for collection ${collectionId}: ${mappedTokens}/${totalTokens} tokens (${percent}%), through token ${cursor}`)
+    }
+
+    await prisma.$transaction(async tx => {
+      await this.assertCurrentSeed(tx, collection, seedInfo)
       await tx.randomSeedInfo.update({
-        where: { randomSeed: randomSeed.toString() },
+        where: { id: seedInfo.id },
         data: { mappingsGenerated: true }
       })
     })
+    console.log(`✅ Generated mappings for ${mappedTokens} NFTs`)
+
+    const remapped = await prisma.metadataRemap.count({ where: { collectionId, randomSeedId: seedInfo.id } })
+    if (remapped > 0) {
+      console.log(`🔀 ${remapped} tokens of collection ${collectionId} were remapped from an earlier seed to seed ${randomSeed.toString()}`)
+    }
+
+    return await this.checkParity(collection)
+  }
+
+  /**
+   * Fail unless `seedInfo` is still the collection's latest seed. The
+   * collection row stays locked until the transaction ends, so
+   * BlockchainService.recordRandomSeed waits for the caller's writes to commit.
+   */
+  private async assertCurrentSeed(tx: Prisma.TransactionClient, collection: Collection, seedInfo: RandomSeedInfo): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "collection" WHERE "id" = ${collection.id} FOR UPDATE`
+    const current = await tx.randomSeedInfo.findFirst({
+      where: { collectionId: collection.id },
+      orderBy: { syncedAt: 'desc' },
+      select: { id: true }
+    })
+    if (current?.id !== seedInfo.id) {
+      throw new Error(`Seed ${seedInfo.randomSeed} is no longer the current seed of ${collection.slug}; stopping its mapping run`)
+    }
+  }
+
+  /**
+   * Sample tokenURI parity check; a failed check is reported but does not undo the mappings
+   */
+  private async checkParity(collection: Collection): Promise<ParityReport | null> {
+    try {
+      return await tokenUriParityService.checkParity(collection)
+    } catch (error) {
+      console.error(`❌ tokenURI parity check failed for ${collection.slug}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * metadataId function for the collection's current seed and that seed's row ID,
+   * or null while the seed is unknown
+   */
+  async getSeedMapping(collection: Collection): Promise<{ randomSeedId: number; toMetadataId: (tokenId: number) => number } | null> {
+    const permutation = await this.getSeedPermutation(collection)
+    return permutation ? { randomSeedId: permutation.randomSeedId, toMetadataId: permutation.toMetadataId } : null
+  }
+
+  /**
+   * Token holding a metadataId, computed from the seed's inverse permutation.
+   * Null while the seed is unknown or when the metadataId is outside 1..maxSupply.
+   */
+  async getTokenIdForMetadataId(collection: Collection, metadataId: number): Promise<number | null> {
+    const permutation = await this.getSeedPermutation(collection)
+    if (!permutation || !Number.isInteger(metadataId) || metadataId < 1 || metadataId > permutation.maxSupply) {
+      return null
+    }
+    return permutation.toTokenId(metadataId)
+  }
+
+  private async getSeedPermutation(collection: Collection): Promise<SeedPermutation | null> {
+    const seedInfo = await prisma.randomSeedInfo.findFirst({
+      where: { collectionId: collection.id },
+      orderBy: { syncedAt: 'desc' }
+    })
+    if (!seedInfo) {
+      return null
+    }
+
+    const cached = seedPermutations.get(collection.id)
+    if (cached && cached.randomSeedId === seedInfo.id) {
+      return cached
+    }
+
+    const maxSupply = await getBlockchainService(collection).getMaxSupply()
+    const randomSeed = BigInt(seedInfo.randomSeed)
+    const permutation = {
+      randomSeedId: seedInfo.id,
+      randomSeed: seedInfo.randomSeed,
+      maxSupply,
+      toMetadataId: createMetadataIdMapper(randomSeed, maxSupply),
+      toTokenId: createTokenIdMapper(randomSeed, maxSupply)
+    }
+    seedPermutations.set(collection.id, permutation)
+    return permutation
+  }
+
+  /**
+   * Fill in the metadataId of tokens that were stored without one after the seed was set,
+   * e.g. mints indexed while the seed was being synced. Returns the number of tokens fixed.
+   */
+  async sweepMissingMappings(collection: Collection): Promise<number> {
+    const missing = await prisma.nftInfo.count({
+      where: { collectionId: collection.id, metadataId: null }
+    })
+    if (missing === 0) {
+      return 0
+    }
+
+    const mapping = await this.getSeedMapping(collection)
+    if (!mapping) {
+      return 0
+    }
+
+    let fixed = 0
+    for (;;) {
+      const chunk = await prisma.nftInfo.findMany({
+        where: { collectionId: collection.id, metadataId: null },
+        select: { tokenId: true },
+        orderBy: { tokenId: 'asc' },
+        take: MAPPING_CONFIG.chunkSize
+      })
+      if (chunk.length === 0) {
+        break
+      }
+
+      const tokenIds = chunk.map(nft => nft.tokenId)
+      await this.writeMetadataIds(prisma, collection.id, mapping.randomSeedId, tokenIds, tokenIds.map(mapping.toMetadataId))
+      fixed += chunk.length
+    }
+
+    console.log(`🧹 Filled in metadataId for ${fixed} tokens of ${collection.slug}`)
+    return fixed
+  }
+
+  /**
+   * Set-based metadataId update for a chunk of tokens. All parts of the
+   * statement see the rows as they were before it, so `previous` holds the
+   * values being replaced; a change of seed is recorded in metadata_remap.
+   */
+  private writeMetadataIds(client: Prisma.TransactionClient, collectionId: number, randomSeedId: number, tokenIds: number[], metadataIds: number[]) {
+    return client.$executeRaw`
+      WITH m AS (
+        SELECT * FROM UNNEST(${tokenIds}::int[], ${metadataIds}::int[]) AS m("token_id", "metadata_id")
+      ), previous AS (
+        SELECT n."token_id", n."metadata_id", n."random_seed_id"
+        FROM "nft_info" AS n JOIN m ON n."token_id" = m."token_id"
+        WHERE n."collection_id" = ${collectionId}
+      ), updated AS (
+        UPDATE "nft_info" AS n
+        SET "metadata_id" = m."metadata_id", "random_seed_id" = ${randomSeedId}
+        FROM m
+        WHERE n."collection_id" = ${collectionId} AND n."token_id" = m."token_id"
+        RETURNING n."token_id", n."metadata_id"
+      )
+      INSERT INTO "metadata_remap" ("collection_id", "random_seed_id", "previous_seed_id", "token_id", "before_metadata_id", "after_metadata_id")
+      SELECT ${collectionId}, ${randomSeedId}, p."random_seed_id", u."token_id", p."metadata_id", u."metadata_id"
+      FROM updated AS u JOIN previous AS p ON p."token_id" = u."token_id"
+      WHERE p."metadata_id" IS NOT NULL
+        AND p."random_seed_id" IS DISTINCT FROM ${randomSeedId}
+        AND p."metadata_id" <> u."metadata_id"`
+  }
+
+  /**
+   * Mapping progress of the collection's current seed, or null before a seed is synced
+   */
+  async getMappingProgress(collectionId: number): Promise<MappingProgress | null> {
+    const seedInfo = await prisma.randomSeedInfo.findFirst({
+      where: { collectionId },
+      orderBy: { syncedAt: 'desc' }
+    })
+    if (!seedInfo) {
+      return null
+    }
+
+    const [mappedTokens, totalTokens] = await Promise.all([
+      prisma.nftInfo.count({ where: { collectionId, tokenId: { lte: seedInfo.mappingCursor } } }),
+      prisma.nftInfo.count({ where: { collectionId } })
+    ])
+    return {
+      randomSeed: seedInfo.randomSeed,
+      mappingsGenerated: seedInfo.mappingsGenerated,
+      mappingCursor: seedInfo.mappingCursor,
+      mappedTokens,
+      totalTokens
+    }
+  }
 
-    console.log(`Generated mappings for ${existingNfts.length} NFTs`)
+  /**
+   * Every seed observed for the collection, newest first
+   */
+  async getSeedHistory(collectionId: number): Promise<SeedHistoryEntry[]> {
+    const [seeds, mapped, remapped] = await Promise.all([
+      prisma.randomSeedInfo.findMany({ where: { collectionId }, orderBy: { syncedAt: 'desc' } }),
+      prisma.nftInfo.groupBy({ by: ['randomSeedId'], where: { collectionId }, _count: { _all: true } }),
+      prisma.metadataRemap.groupBy({ by: ['randomSeedId'], where: { collectionId }, _count: { _all: true } })
+    ])
+    const mappedCounts = new Map(mapped.map(group => [group.randomSeedId, group._count._all]))
+    const remappedCounts = new Map(remapped.map(group => [group.randomSeedId, group._count._all]))
+
+    return seeds.map((seed, index) => ({
+      id: seed.id,
+      randomSeed: seed.randomSeed,
+      blockNumber: seed.blockNumber !== null ? Number(seed.blockNumber) : null,
+      transactionHash: seed.transactionHash,
+      syncedAt: seed.syncedAt.toISOString(),
+      state: seed.state,
+      current: index === 0,
+      mappedTokens: mappedCounts.get(seed.id) ?? 0,
+      remappedTokens: remappedCounts.get(seed.id) ?? 0
+    }))
+  }
+
+  /**
+   * Before/after metadataIds of the tokens remapped when the seed replaced an earlier one
+   */
+  async getRemaps(collectionId: number, randomSeedId: number, limit: number, offset: number) {
+    const where = { collectionId, randomSeedId }
+    const [total, remaps] = await Promise.all([
+      prisma.metadataRemap.count({ where }),
+      prisma.metadataRemap.findMany({
+        where,
+        orderBy: { tokenId: 'asc' },
+        take: limit,
+        skip: offset,
+        select: { tokenId: true, previousSeedId: true, beforeMetadataId: true, afterMetadataId: true, createdAt: true }
+      })
+    ])
+    return { total, remaps }
+  }
+
+  /**
+   * The seed each token's stored metadataId came from
+   */
+  async getTokenSeeds(collectionId: number, options: { tokenId?: number; limit: number; offset: number }): Promise<{ total: number; tokens: TokenSeedEntry[] }> {
+    const where = { collectionId, ...(options.tokenId !== undefined && { tokenId: options.tokenId }) }
+    const [total, nfts, seeds] = await Promise.all([
+      prisma.nftInfo.count({ where }),
+      prisma.nftInfo.findMany({
+        where,
+        orderBy: { tokenId: 'asc' },
+        take: options.limit,
+        skip: options.offset,
+        select: { tokenId: true, metadataId: true, randomSeedId: true }
+      }),
+      prisma.randomSeedInfo.findMany({
+        where: { collectionId },
+        orderBy: { syncedAt: 'desc' },
+        select: { id: true, randomSeed: true }
+      })
+    ])
+    const seedsById = new Map(seeds.map(seed => [seed.id, seed.randomSeed]))
+    const currentSeedId = seeds[0]?.id ?? null
+
+    return {
+      total,
+      tokens: nfts.map(nft => ({
+        tokenId: nft.tokenId,
+        metadataId: nft.metadataId,
+        randomSeedId: nft.randomSeedId,
+        randomSeed: nft.randomSeedId !== null ? seedsById.get(nft.randomSeedId) ?? null : null,
+        current: nft.randomSeedId !== null && nft.randomSeedId === currentSeedId
+      }))
+    }
   }
 
-  async getNftInfo(tokenId: number): Promise<any> {
+  async getNftInfo(collectionId: number, tokenId: number): Promise<NftInfo | null> {
     return await prisma.nftInfo.findUnique({
-      where: { tokenId }
+      where: { collectionId_tokenId: { collectionId, tokenId } }
     })
   }
 
   async createNftInfo(data: {
+    collectionId: number
     tokenId: number
     userAddress: string
     boxTypeId: number
   }): Promise<void> {
     await prisma.nftInfo.create({
       data: {
+        collectionId: data.collectionId,
         tokenId: data.tokenId,
         userAddress: data.userAddress,
         boxTypeId: data.boxTypeId,
@@ -0,0 +1,384 @@
+/**
+ * Mass Reveal
+ *
+ * Admins schedule a reveal of every unrevealed token of a collection, or of
+ * one box type, for a point in time (by default the collection's reveal
+ * start time); the origin pools it draws from must be locked first. Once the
+ * job is due and reveals are open, the scheduler leader reveals the tokens
+ * in tokenId order, MASS_REVEAL_CONFIG.chunkSize per transaction, with the
+ * same draw as the public reveal route. The public reveal routes stay open
+ * meanwhile; a token revealed through them first is skipped (reveals lock
+ * the token, see `reveal.ts`). Each chunk commits together with the job's
+ * cursor and counters, so a job interrupted by a restart or a leader change
+ * resumes after its cursor. A dry run plans the same draw in memory without
+ * writing anything.
+ */
+
+import { Collection, MassRevealJob } from '@prisma/client'
+import prisma from '../config/database'
+import { MASS_REVEAL_CONFIG, REVEAL_BATCH_CONFIG } from '../config/contracts'
+import { allocationPolicyService } from './allocation-policy'
+import { collectionService } from './collection'
+import { originAssignmentService } from './origin-assignment'
+import { provenanceService } from './provenance'
+import { isTokenRevealError, revealService } from './reveal'
+import { seedLifecycleService } from './seed-lifecycle'
+
+export type MassRevealStatus = 'scheduled' | 'running' | 'completed' | 'cancelled'
+
+const ACTIVE_STATUSES: MassRevealStatus[] = ['scheduled', 'running']
+
+export interface MassRevealProgress {
+  id: number
+  boxTypeId: number | null
+  status: string
+  scheduledAt: string
+  startedAt: string | null
+  completedAt: string | null
+  // Unrevealed tokens in scope when the job started
+  totalTokens: number | null
+  cursor: number
+  revealedCount: number
+  failedCount: number
+  skippedCount: number
+  // Unrevealed tokens in scope after the cursor
+  remaining: number
+  percent: number | null
+  lastError: string | null
+}
+
+export interface PlannedAssignment {
+  tokenId: number
+  boxTypeId: number
+  // null when the box type's pool runs out before the token
+  originId: number | null
+  attempt: number | null
+  rarityTier: string | null
+}
+
+export interface MassRevealPlan {
+  randomSeed: string
+  totalTokens: number
+  unassignable: number
+  boxTypes: Array<{ boxTypeId: number; unrevealed: number; available: number; unassignable: number }>
+  assignments: PlannedAssignment[]
+}
+
+export class MassRevealService {
+  // Collections whose due jobs this process is running
+  private running = new Set<number>()
+
+  /**
+   * Schedule a mass reveal; without scheduledAt it runs at the collection's reveal start time
+   */
+  async scheduleJob(collection: Collection, options: { boxTypeId?: number | null; scheduledAt?: Date }): Promise<MassRevealProgress> {
+    const boxTypeId = options.boxTypeId ?? null
+    if (boxTypeId !== null && !collectionService.getBoxTypes(collection).some(boxType => boxType.id === boxTypeId)) {
+      throw new Error(`Unknown box type ${boxTypeId}`)
+    }
+
+    const unlocked = await provenanceService.getUnlockedBoxTypes(collection, boxTypeId !== null ? [boxTypeId] : undefined)
+    if (unlocked.length > 0) {
+      throw new Error(`Origin pools of box types ${unlocked.join(', ')} are not locked`)
+    }
+
+    const scheduledAt = options.scheduledAt ?? collection.revealStartTime
+    if (!scheduledAt) {
+      throw new Error('scheduledAt is required when the collection has no reveal start time')
+    }
+
+    // Two active jobs over the same tokens would only race each other
+    const overlapping = await prisma.massRevealJob.findFirst({
+      where: {
+        collectionId: collection.id,
+        status: { in: ACTIVE_STATUSES },
+        ...(boxTypeId !== null && { OR: [{ boxTypeId: null }, { boxTypeId }] })
+      }
+    })
+    if (overlapping) {
+      throw new Error(`Mass reveal job ${overlapping.id} already covers these tokens`)
+    }
+
+    const job = await prisma.massRevealJob.create({
+      data: { collectionId: collection.id, boxTypeId, scheduledAt }
+    })
+    console.log(`📅 Scheduled mass reveal ${job.id} of ${collection.slug}` +
+      `${boxTypeId !== null ? ` box type ${boxTypeId}` : ''} for ${scheduledAt.toISOString()}`)
+    return await this.toProgress(job)
+  }
+
+  async cancelJob(collection: Collection, jobId: number): Promise<MassRevealProgress> {
+    const job = await this.findJob(collection, jobId)
+    const { count } = await prisma.massRevealJob.updateMany({
+      where: { id: job.id, status: { in: ACTIVE_STATUSES } },
+      data: { status: 'cancelled', completedAt: new Date() }
+    })
+    if (count === 0) {
+      throw new Error(`Mass reveal job ${jobId} is already ${job.status}`)
+    }
+    console.log(`🛑 Cancelled mass reveal ${job.id} of ${collection.slug}`)
+    return await this.getJob(collection, jobId) as MassRevealProgress
+  }
+
+  async listJobs(collection: Collection): Promise<MassRevealProgress[]> {
+    const jobs = await prisma.massRevealJob.findMany({
+      where: { collectionId: collection.id },
+      orderBy: { id: 'desc' }
+    })
+    return await Promise.all(jobs.map(job => this.toProgress(job)))
+  }
+
+  async getJob(collection: Collection, jobId: number): Promise<MassRevealProgress | null> {
+    const job = await prisma.massRevealJob.findFirst({ where: { id: jobId, collectionId: collection.id } })
+    return job ? await this.toProgress(job) : null
+  }
+
+  /**
+   * Run the collection's due jobs; called by the scheduler leader. `shouldContinue` is checked
+   * between chunks, so a demoted leader stops after the chunk in flight.
+   */
+  async runDueJobs(collection: Collection, shouldContinue: () => boolean): Promise<void> {
+    if (this.running.has(collection.id)) {
+      return
+    }
+
+    this.running.add(collection.id)
+    try {
+      const dueJobs = await prisma.massRevealJob.findMany({
+        where: { collectionId: collection.id, status: { in: ACTIVE_STATUSES }, scheduledAt: { lte: new Date() } },
+        orderBy: { id: 'asc' }
+      })
+      if (dueJobs.length === 0) {
+        return
+      }
+
+      const randomSeed = await revealService.getCurrentSeed(collection)
+      if (randomSeed === null || !(await seedLifecycleService.isRevealOpen(collection))) {
+        await prisma.massRevealJob.updateMany({
+          where: { id: { in: dueJobs.map(job => job.id) } },
+          data: { lastError: 'Waiting for reveals to open' }
+        })
+        return
+      }
+
+      for (const job of dueJobs) {
+        if (!shouldContinue()) {
+          return
+        }
+        await this.runJob(collection, job, randomSeed, shouldContinue)
+      }
+    } finally {
+      this.running.delete(collection.id)
+    }
+  }
+
+  /**
+   * Plan the assignments a mass reveal would make now, without writing them. Reveals made in
+   * the meantime (e.g. through the public route) change the plan.
+   */
+  async planReveal(
+    collection: Collection,
+    boxTypeId: number | null,
+    paging: { limit: number; offset: number }
+  ): Promise<MassRevealPlan> {
+    const randomSeed = await revealService.getCurrentSeed(collection)
+    if (randomSeed === null) {
+      throw new Error(`Random seed for ${collection.slug} is not set yet`)
+    }
+
+    const now = new Date()
+    const boxTypeIds = boxTypeId !== null
+      ? [boxTypeId]
+      : collectionService.getBoxTypes(collection).map(boxType => boxType.id)
+
+    const boxTypes: MassRevealPlan['boxTypes'] = []
+    const assignments: PlannedAssignment[] = []
+    for (const id of boxTypeIds) {
+      const [pool, tokens] = await Promise.all([
+        originAssignmentService.getOriginPool(prisma, collection.id, id),
+        prisma.nftInfo.findMany({
+          where: { collectionId: collection.id, boxTypeId: id, originId: 0 },
+          orderBy: { tokenId: 'asc' },
+          select: { tokenId: true }
+        })
+      ])
+      const available = pool.filter(origin => !origin.isAssigned).length
+
+      // Pools are per box type, so planning each box type in tokenId order matches the job's order
+      let unassignable = 0
+      const tiers = allocationPolicyService.indexTiers(pool)
+      for (const { tokenId } of tokens) {
+        const draw = originAssignmentService.drawOrigin(collection, pool, randomSeed, tokenId, now, tiers)
+        if (draw) {
+          allocationPolicyService.markAssigned(pool, tiers, draw.index)
+        } else {
+          unassignable++
+        }
+        assignments.push({
+          tokenId,
+          boxTypeId: id,
+          originId: draw?.originId ?? null,
+          attempt: draw?.attempt ?? null,
+          rarityTier: draw?.tier ?? null
+        })
+      }
+      boxTypes.push({ boxTypeId: id, unrevealed: tokens.length, available, unassignable })
+    }
+
+    const unassignable = boxTypes.reduce((sum, boxType) => sum + boxType.unassignable, 0)
+    console.log(`🧪 Mass reveal dry run for ${collection.slug}: ${assignments.length} tokens, ${unassignable} without an origin`)
+
+    return {
+      randomSeed: randomSeed.toString(),
+      totalTokens: assignments.length,
+      unassignable,
+      boxTypes,
+      assignments: assignments
+        .sort((a, b) => a.tokenId - b.tokenId)
+        .slice(paging.offset, paging.offset + paging.limit)
+    }
+  }
+
+  private async runJob(collection: Collection, job: MassRevealJob, randomSeed: bigint, shouldContinue: () => boolean): Promise<void> {
+    const scope = { collectionId: collection.id, originId: 0, ...(job.boxTypeId !== null && { boxTypeId: job.boxTypeId }) }
+
+    if (job.status === 'scheduled') {
+      job = await prisma.massRevealJob.update({
+        where: { id: job.id },
+        data: { status: 'running', startedAt: new Date(), totalTokens: await prisma.nftInfo.count({ where: scope }), lastError: null }
+      })
+      console.log(`🎁 Starting mass reveal ${job.id} of ${collection.slug}: ${job.totalTokens} tokens`)
+    } else {
+      console.log(`🎁 Resuming mass reveal ${job.id} of ${collection.slug} after token ${job.cursor}`)
+    }
+
+    let { cursor, revealedCount, failedCount, skippedCount } = job
+    try {
+      for (;;) {
+        if (!shouldContinue()) {
+          console.log(`⏸️ Mass reveal ${job.id} paused after token ${cursor}`)
+          return
+        }
+
+        const chunk = await prisma.nftInfo.findMany({
+          where: { ...scope, tokenId: { gt: cursor } },
+          orderBy: { tokenId: 'asc' },
+          select: { tokenId: true },
+          take: MASS_REVEAL_CONFIG.chunkSize
+        })
+        if (chunk.length === 0) {
+          break
+        }
+
+        const chunkCursor = chunk[chunk.length - 1].tokenId
+        const outcome = await prisma.$transaction(async (tx) => {
+          let revealed = 0
+          let failed = 0
+          let skipped = 0
+          let lastFailure: string | null = null
+          for (const { tokenId } of chunk) {
+            try {
+              await revealService.revealToken(tx, collection, tokenId, randomSeed, {
+                action: 'mass_reveal',
+                owner: null,
+                signer: null,
+                signature: null
+              })
+              revealed++
+            } catch (error) {
+              if (!isTokenRevealError(error)) {
+                throw error
+              }
+              // Revealed through the public routes since the chunk was read
+              if (error.message.endsWith('already revealed')) {
+                skipped++
+                continue
+              }
+              failed++
+              lastFailure = `Token ${tokenId}: ${error.message}`
+            }
+          }
+
+          // Only lands while the job is still running, so a cancelled job keeps its last chunk undone
+          const { count } = await tx.massRevealJob.updateMany({
+            where: { id: job.id, status: 'running' },
+            data: {
+              cursor: chunkCursor,
+              revealedCount: { increment: revealed },
+              failedCount: { increment: failed },
+              skippedCount: { increment: skipped },
+              ...(lastFailure && { lastError: lastFailure })
+            }
+          })
+          if (count === 0) {
+            throw new Error(`Mass reveal job ${job.id} is no longer running`)
+          }
+          return { revealed, failed, skipped }
+        }, { timeout: REVEAL_BATCH_CONFIG.transactionTimeoutMs })
+
+        cursor = chunkCursor
+        revealedCount += outcome.revealed
+        failedCount += outcome.failed
+        skippedCount += outcome.skipped
+        const processed = revealedCount + failedCount + skippedCount
+        const percent = job.totalTokens ? Math.min(100, Math.round((processed / job.totalTokens) * 100)) : 100
+        console.log(`📊 Mass reveal ${job.id} progress: ${processed}/${job.totalTokens} tokens (${percent}%), ${failedCount} failed, ${skippedCount} skipped, through token ${cursor}`)
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      if (errorMessage.endsWith('is no longer running')) {
+        console.log(`🛑 Mass reveal ${job.id} stopped: ${errorMessage}`)
+        return
+      }
+      // Left running; the next scheduler cycle resumes after the cursor
+      console.error(`❌ Mass reveal ${job.id} of ${collection.slug} interrupted after token ${cursor}:`, errorMessage)
+      await prisma.massRevealJob.update({ where: { id: job.id }, data: { lastError: errorMessage } })
+      return
+    }
+
+    await prisma.massRevealJob.updateMany({
+      where: { id: job.id, status: 'running' },
+      data: { status: 'completed', completedAt: new Date() }
+    })
+    console.log(`✅ Mass reveal ${job.id} of ${collection.slug} completed: ${revealedCount} revealed, ${failedCount} failed, ${skippedCount} skipped`)
+  }
+
+  private async findJob(collection: Collection, jobId: number): Promise<MassRevealJob> {
+    const job = await prisma.massRevealJob.findFirst({ where: { id: jobId, collectionId: collection.id } })
+    if (!job) {
+      throw new Error(`Mass reveal job ${jobId} not found`)
+    }
+    return job
+  }
+
+  private async toProgress(job: MassRevealJob): Promise<MassRevealProgress> {
+    const remaining = await prisma.nftInfo.count({
+      where: {
+        collectionId: job.collectionId,
+        originId: 0,
+        tokenId: { gt: job.cursor },
+        ...(job.boxTypeId !== null && { boxTypeId: job.boxTypeId })
+      }
+    })
+    const processed = job.revealedCount + job.failedCount + job.skippedCount
+    return {
+      id: job.id,
+      boxTypeId: job.boxTypeId,
+      status: job.status,
+      scheduledAt: job.scheduledAt.toISOString(),
+      startedAt: job.startedAt?.toISOString() ?? null,
+      completedAt: job.completedAt?.toISOString() ?? null,
+      totalTokens: job.totalTokens,
+      cursor: job.cursor,
+      revealedCount: job.revealedCount,
+      failedCount: job.failedCount,
+      skippedCount: job.skippedCount,
+      remaining,
+      percent: job.totalTokens ? Math.min(100, Math.round((processed / job.totalTokens) * 100)) : null,
+      lastError: job.lastError
+    }
+  }
+}
+
+// Export singleton instance
+export const massRevealService = new MassRevealService()
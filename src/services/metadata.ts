@@ -1,6 +1,10 @@
+import { Collection, Prisma } from '@prisma/client'
 import prisma from '../config/database'
 import { METADATA_CONFIG } from '../config/contracts'
 import { generatePhase2Signature, verifyPhase2Signature } from '../utils/crypto'
+import { MappingService } from './mapping'
+import { provenanceService } from './provenance'
+import { allocationPolicyService } from './allocation-policy'
 
 export interface TokenMetadata {
   name: string
@@ -14,9 +18,20 @@ export interface TokenMetadata {
 }
 
 export class MetadataService {
-  async getTokenMetadataByMetadataId(metadataId: number): Promise<TokenMetadata | null> {
-    const nftInfo = await prisma.nftInfo.findFirst({
-      where: { metadataId }
+  private mappingService = new MappingService()
+
+  /**
+   * Metadata served at a metadataId. The token is found through the seed's
+   * inverse permutation rather than by searching the stored mapping.
+   */
+  async getTokenMetadataByMetadataId(collection: Collection, metadataId: number): Promise<TokenMetadata | null> {
+    const tokenId = await this.mappingService.getTokenIdForMetadataId(collection, metadataId)
+    if (tokenId === null) {
+      return null
+    }
+
+    const nftInfo = await prisma.nftInfo.findUnique({
+      where: { collectionId_tokenId: { collectionId: collection.id, tokenId } }
     })
 
     if (!nftInfo) {
@@ -24,22 +39,22 @@ export class MetadataService {
     }
 
     if (nftInfo.originId === 0) {
-      return await this.getBlindBoxMetadata(nftInfo.boxTypeId)
+      return await this.getBlindBoxMetadata(collection.id, nftInfo.boxTypeId)
     } else {
-      return await this.getRevealedMetadata(nftInfo.originId)
+      return await this.getRevealedMetadata(collection.id, nftInfo.originId)
     }
   }
 
-  async getTokenMetadata(tokenId: number): Promise<TokenMetadata | null> {
+  async getTokenMetadata(collectionId: number, tokenId: number): Promise<TokenMetadata | null> {
     const nftInfo = await prisma.nftInfo.findUnique({
-      where: { tokenId }
+      where: { collectionId_tokenId: { collectionId, tokenId } }
     })
 
     if (!nftInfo) {
       return null
     }
 
-    return await this.getBlindBoxMetadata(nftInfo.boxTypeId)
+    return await this.getBlindBoxMetadata(collectionId, nftInfo.boxTypeId)
 
     // TODO: 
     // if (nftInfo.originId === 0) {
@@ -49,9 +64,9 @@ export class MetadataService {
     // }
   }
 
-  async getBlindBoxMetadata(boxTypeId: number): Promise<TokenMetadata> {
+  async getBlindBoxMetadata(collectionId: number, boxTypeId: number): Promise<TokenMetadata> {
     const unrevealMetadata = await prisma.unrevealMetadataInfo.findUnique({
-      where: { boxTypeId }
+      where: { collectionId_boxTypeId: { collectionId, boxTypeId } }
     })
 
     if (unrevealMetadata) {
@@ -61,9 +76,9 @@ export class MetadataService {
     throw new Error(`Blind box metadata not found for boxType ${boxTypeId}`)
   }
 
-  async getRevealedMetadata(originId: number): Promise<TokenMetadata> {
+  async getRevealedMetadata(collectionId: number, originId: number): Promise<TokenMetadata> {
     const originMetadata = await prisma.originMetadataInfo.findUnique({
-      where: { originId }
+      where: { collectionId_originId: { collectionId, originId } }
     })
 
     if (!originMetadata) {
@@ -73,30 +88,36 @@ export class MetadataService {
     return originMetadata.metadata as unknown as TokenMetadata
   }
 
-  async createBlindBoxMetadata(boxTypeId: number, metadata: TokenMetadata): Promise<void> {
+  async createBlindBoxMetadata(collectionId: number, boxTypeId: number, metadata: TokenMetadata): Promise<void> {
     await prisma.unrevealMetadataInfo.upsert({
-      where: { boxTypeId },
-      update: { metadata: metadata as any },
-      create: { boxTypeId, metadata: metadata as any }
+      where: { collectionId_boxTypeId: { collectionId, boxTypeId } },
+      update: { metadata: metadata as unknown as Prisma.InputJsonValue },
+      create: { collectionId, boxTypeId, metadata: metadata as unknown as Prisma.InputJsonValue }
     })
     console.log(`Created blind box metadata for boxType ${boxTypeId}`)
   }
 
-  async createOriginMetadata(originId: number, boxTypeId: number, metadata: TokenMetadata): Promise<void> {
-    await prisma.originMetadataInfo.create({
-      data: {
-        originId,
-        boxTypeId,
-        metadata: metadata as any,
-        isAssigned: false
-      }
+  async createOriginMetadata(collectionId: number, originId: number, boxTypeId: number, metadata: TokenMetadata): Promise<void> {
+    await prisma.$transaction(async tx => {
+      await provenanceService.assertPoolUnlocked(tx, collectionId, boxTypeId)
+      await tx.originMetadataInfo.create({
+        data: {
+          collectionId,
+          originId,
+          boxTypeId,
+          metadata: metadata as unknown as Prisma.InputJsonValue,
+          rarityTier: allocationPolicyService.getRarityTier(metadata),
+          isAssigned: false
+        }
+      })
     })
     console.log(`Created origin metadata for originId ${originId}, boxType ${boxTypeId}`)
   }
 
-  async addPhase2Holder(userAddress: string, boxTypeId: number, tokenId: number): Promise<void> {
+  async addPhase2Holder(collectionId: number, userAddress: string, boxTypeId: number, tokenId: number): Promise<void> {
     await prisma.phase2Holders.create({
       data: {
+        collectionId,
         id: tokenId,
         userAddress,
         boxTypeId
@@ -107,6 +128,7 @@ export class MetadataService {
 
   /**
    * Generate and store signature for a Phase2 holder
+   * @param collectionId - The collection the holder belongs to
    * @param userAddress - The wallet address of the holder
    * @param tokenId - The token ID to generate signature for
    * @param boxTypeId - The box type ID
@@ -114,6 +136,7 @@ export class MetadataService {
    * @returns The generated signature
    */
   async generateAndStorePhase2Signature(
+    collectionId: number,
     userAddress: string, 
     tokenId: number, 
     boxTypeId: number,
@@ -125,6 +148,7 @@ export class MetadataService {
     // Update the Phase2Holders record with the signature
     await prisma.phase2Holders.updateMany({
       where: {
+        collectionId,
         userAddress,
         boxTypeId
       },
@@ -139,13 +163,15 @@ export class MetadataService {
 
   /**
    * Get signature for a Phase2 holder
+   * @param collectionId - The collection the holder belongs to
    * @param userAddress - The wallet address of the holder
    * @param boxTypeId - The box type ID
    * @returns The signature if found, null otherwise
    */
-  async getPhase2HolderSignature(userAddress: string, boxTypeId: number): Promise<string | null> {
+  async getPhase2HolderSignature(collectionId: number, userAddress: string, boxTypeId: number): Promise<string | null> {
     const holder = await prisma.phase2Holders.findFirst({
       where: {
+        collectionId,
         userAddress,
         boxTypeId
       },
@@ -159,12 +185,14 @@ export class MetadataService {
 
   /**
    * Get all signatures for a Phase2 holder
+   * @param collectionId - The collection the holder belongs to
    * @param userAddress - The wallet address of the holder
    * @returns Array of signatures with boxTypeId
    */
-  async getPhase2HolderMintInfo(userAddress: string) {
+  async getPhase2HolderMintInfo(collectionId: number, userAddress: string) {
     const holder = await prisma.phase2Holders.findFirst({
       where: {
+        collectionId,
         userAddress,
         signature: {
           not: null
@@ -175,9 +203,10 @@ export class MetadataService {
     return holder;
   }
 
-  async isPhase2Holder(userAddress: string, boxTypeId: number): Promise<boolean> {
+  async isPhase2Holder(collectionId: number, userAddress: string, boxTypeId: number): Promise<boolean> {
     const holder = await prisma.phase2Holders.findFirst({
       where: {
+        collectionId,
         userAddress,
         boxTypeId
       }
@@ -185,13 +214,14 @@ export class MetadataService {
     return !!holder
   }
 
-  async getPhase2HolderInfo(userAddress: string): Promise<{
+  async getPhase2HolderInfo(collectionId: number, userAddress: string): Promise<{
     isPhase2Holder: boolean;
     address: string;
     boxTypeIds: number[];
   }> {
     const holders = await prisma.phase2Holders.findMany({
       where: {
+        collectionId,
         userAddress
       },
       select: {
@@ -208,19 +238,22 @@ export class MetadataService {
     }
   }
 
-  async getStats(): Promise<{
+  async getStats(collectionId: number): Promise<{
     totalNfts: number
     revealedNfts: number
     unrevealedNfts: number
     boxTypeStats: Array<{ boxTypeId: number; count: number; revealed: number }>
   }> {
-    const totalNfts = await prisma.nftInfo.count()
+    const totalNfts = await prisma.nftInfo.count({
+      where: { collectionId }
+    })
     const revealedNfts = await prisma.nftInfo.count({
-      where: { originId: { gt: 0 } }
+      where: { collectionId, originId: { gt: 0 } }
     })
 
     const boxTypeStats = await prisma.nftInfo.groupBy({
       by: ['boxTypeId'],
+      where: { collectionId },
       _count: {
         tokenId: true
       }
@@ -230,6 +263,7 @@ export class MetadataService {
       boxTypeStats.map(async (stat: { boxTypeId: number; _count: { tokenId: number } }) => {
         const revealed = await prisma.nftInfo.count({
           where: {
+            collectionId,
             boxTypeId: stat.boxTypeId,
             originId: { gt: 0 }
           }
@@ -1,24 +1,89 @@
 /**
  * NFT Sync Service for Transfer Event Monitoring
  * 
- * This service monitors Transfer events from the ERC721 contract
- * and updates the NftInfo table when mint events are detected.
+ * This service monitors Transfer events from a collection's ERC721
+ * contract, stores every event in the TransferEvent ledger and derives
+ * NftInfo ownership from that ledger. One instance runs per collection,
+ * see `getNftSyncService`.
+ *
+ * When WS_RPC_URL is set, a WebSocket subscription delivers logs as they
+ * are mined. The historical poller stays the source of truth: the live path
+ * only applies events when no confirmation depth is required and otherwise
+ * triggers a poll once the block is deep enough. Both paths write through
+ * the ledger, which is unique on (transactionHash, logIndex), so an event
+ * seen by both is only applied once.
  */
 
-import { BlockchainService } from './blockchain'
+import { ethers } from 'ethers'
+import { Collection } from '@prisma/client'
+import { BlockchainService, RandomSeedLog, TransferLog, getBlockchainService } from './blockchain'
 import prisma from '../config/database'
 import { zeroAddress } from 'viem'
-import { MINT_CONFIG } from '../config/contracts'
+import { getChainConfig, SYNC_CONFIG } from '../config/contracts'
+import { BlockRangeScanner } from './block-scanner'
+import { LogSubscriber, LogSubscriberStatus } from './log-subscriber'
+import { collectionService } from './collection'
+import { MappingService } from './mapping'
+import { originAssignmentService } from './origin-assignment'
+import { revealAuditService } from './reveal-audit'
 
 const ZERO_ADDRESS = zeroAddress;
+const TRANSFER_SYNC_TYPE = 'transfer_events'
+const MAX_REORG_RETRIES = 3
+
+/**
+ * Why a token received its box type:
+ * - soulbound_linkage: minted with a soulbound token found in Phase2Holders
+ * - soulbound_holder_missing: minted with a soulbound token that has no Phase2Holders row
+ * - no_soulbound_linkage: public or giveaway mint
+ */
+type BoxTypeReason = 'soulbound_linkage' | 'soulbound_holder_missing' | 'no_soulbound_linkage'
+
+interface SyncTotals {
+  processed: number
+  mints: number
+  transfers: number
+  errors: number
+}
+
+/**
+ * Raised mid-scan when a block no longer links to the stored parent hash
+ */
+class ReorgDetectedError extends Error {
+  constructor(public forkBlock: number) {
+    super(`Chain reorg detected, last common block ${forkBlock}`)
+    this.name = 'ReorgDetectedError'
+  }
+}
 
 export class NftSyncService {
+  private collection: Collection
   private blockchainService: BlockchainService
+  private mappingService = new MappingService()
   private isListening = false
+  private isSyncing = false
   private lastProcessedBlock = 0
-
-  constructor() {
-    this.blockchainService = new BlockchainService()
+  private blockScanner: BlockRangeScanner
+  private logSubscriber: LogSubscriber | null = null
+  // Highest block seen live that still has to be picked up by the poller
+  private pendingLiveBlock = 0
+  private catchUpRequested = false
+  private randomSeedHandler: ((log: RandomSeedLog) => Promise<void>) | null = null
+  // Blocks behind the head before a block is indexed; the collection can override its chain's setting
+  private confirmations: number
+  private wsUrl: string
+
+  constructor(collection: Collection) {
+    this.collection = collection
+    const chain = getChainConfig(collection.chainId)
+    this.confirmations = collection.confirmations ?? chain.confirmations
+    this.wsUrl = chain.wsUrl
+    this.blockchainService = getBlockchainService(collection)
+    this.blockScanner = new BlockRangeScanner({
+      initialRange: SYNC_CONFIG.initialBlockRange,
+      minRange: SYNC_CONFIG.minBlockRange,
+      maxRange: SYNC_CONFIG.maxBlockRange
+    })
   }
 
   /**
@@ -26,27 +91,43 @@ export class NftSyncService {
    */
   async startTransferMonitoring(): Promise<void> {
     if (this.isListening) {
-      console.log('Transfer monitoring is already running')
+      console.log(`Transfer monitoring for ${this.collection.slug} is already running`)
       return
     }
 
     if (!this.blockchainService.isServiceConfigured()) {
-      console.warn('⚠️ Blockchain service not configured, Transfer monitoring disabled')
+      console.warn(`⚠️ Blockchain service not configured for ${this.collection.slug}, Transfer monitoring disabled`)
       return
     }
 
-    console.log('🎯 Starting Transfer event monitoring...')
+    console.log(`🎯 Starting Transfer event monitoring for ${this.collection.slug}...`)
     this.isListening = true
 
     // Get the last processed block from database or start from current block
     await this.initializeLastProcessedBlock()
 
-    // Start real-time event listener
-    // await this.blockchainService.startTransferEventListener(async (from, to, tokenId) => {
-    //   await this.handleTransferEvent(from, to, tokenId)
-    // })
+    // Start real-time log subscription when a WebSocket endpoint is configured
+    if (this.wsUrl) {
+      this.logSubscriber = new LogSubscriber({
+        url: this.wsUrl,
+        chainId: this.collection.chainId,
+        address: this.collection.address,
+        abi: collectionService.getAbi(this.collection),
+        reconnectBaseDelayMs: SYNC_CONFIG.wsReconnectBaseDelayMs,
+        reconnectMaxDelayMs: SYNC_CONFIG.wsReconnectMaxDelayMs,
+        heartbeatIntervalMs: SYNC_CONFIG.wsHeartbeatIntervalMs
+      }, {
+        onLog: (event, log) => this.handleLiveLog(event, log),
+        onBlock: blockNumber => this.handleLiveBlock(blockNumber),
+        // Anything missed while disconnected is filled in by the poller
+        onReconnect: () => this.requestCatchUp()
+      })
+      this.logSubscriber.start()
+    } else {
+      console.log(`ℹ️ No WebSocket endpoint for chain ${this.collection.chainId}, relying on periodic historical sync only`)
+    }
 
-    console.log('✅ Transfer event monitoring started')
+    console.log(`✅ Transfer event monitoring started for ${this.collection.slug}`)
   }
 
   /**
@@ -54,7 +135,18 @@ export class NftSyncService {
    */
   stopTransferMonitoring(): void {
     this.isListening = false
-    console.log('Transfer monitoring stopped')
+    if (this.logSubscriber) {
+      void this.logSubscriber.stop()
+      this.logSubscriber = null
+    }
+    console.log(`Transfer monitoring stopped for ${this.collection.slug}`)
+  }
+
+  /**
+   * Register a callback for live RandomSeedSet logs
+   */
+  setRandomSeedHandler(handler: (log: RandomSeedLog) => Promise<void>): void {
+    this.randomSeedHandler = handler
   }
 
   /**
@@ -64,6 +156,27 @@ export class NftSyncService {
     return this.isListening
   }
 
+  /**
+   * Check if a historical sync is currently in progress
+   */
+  isSyncInProgress(): boolean {
+    return this.isSyncing
+  }
+
+  /**
+   * Collection this service indexes
+   */
+  getCollection(): Collection {
+    return this.collection
+  }
+
+  /**
+   * First block to index; the collection's deployment block wins over the global setting
+   */
+  private getStartBlock(): number {
+    return this.collection.startBlock || SYNC_CONFIG.startBlock
+  }
+
   /**
    * Initialize the last processed block number
    */
@@ -71,22 +184,39 @@ export class NftSyncService {
     try {
       // Try to get the last processed block from database
       const syncStatus = await prisma.syncStatus.findFirst({
-        where: { syncType: 'transfer_events' },
+        where: { collectionId: this.collection.id, chainId: this.collection.chainId, syncType: TRANSFER_SYNC_TYPE },
         orderBy: { lastProcessedBlock: 'desc' }
       })
 
       if (syncStatus) {
         this.lastProcessedBlock = syncStatus.lastProcessedBlock
-        console.log(`📍 Resuming from block: ${this.lastProcessedBlock}`)
+        console.log(`📍 Resuming ${this.collection.slug} from block: ${this.lastProcessedBlock}`)
+      } else if (this.getStartBlock() > 0) {
+        // Backfill from the configured start block on the next sync
+        this.lastProcessedBlock = this.getStartBlock() - 1
+        console.log(`📍 Starting from configured block: ${this.getStartBlock()}`)
+
+        await prisma.syncStatus.create({
+          data: {
+            collectionId: this.collection.id,
+            chainId: this.collection.chainId,
+            syncType: TRANSFER_SYNC_TYPE,
+            lastProcessedBlock: this.lastProcessedBlock,
+            updatedAt: new Date()
+          }
+        })
       } else {
-        // Start from current block if no previous sync status
-        this.lastProcessedBlock = await this.blockchainService.getLatestBlockNumber()
+        // Start from the current confirmed block if no previous sync status
+        // A young chain (e.g. a simulated one) can be shallower than the confirmation depth
+        this.lastProcessedBlock = Math.max(0, await this.blockchainService.getLatestBlockNumber() - this.confirmations)
         console.log(`📍 Starting from current block: ${this.lastProcessedBlock}`)
         
         // Create initial sync status record
         await prisma.syncStatus.create({
           data: {
-            syncType: 'transfer_events',
+            collectionId: this.collection.id,
+            chainId: this.collection.chainId,
+            syncType: TRANSFER_SYNC_TYPE,
             lastProcessedBlock: this.lastProcessedBlock,
             updatedAt: new Date()
           }
@@ -100,158 +230,344 @@ export class NftSyncService {
   }
 
   /**
-   * Handle Transfer event
+   * Reload the checkpoint from the database; only startTransferMonitoring loads it otherwise,
+   * so a forced sync on a service that was never started or has stopped would scan from block 1
    */
-  private async handleTransferEvent(from: string, to: string, tokenId: bigint, blockNumber?: number): Promise<void> {
-    try {
-      const tokenIdNum = Number(tokenId)
-      console.log(`🔄 Processing Transfer: from=${from}, to=${to}, tokenId=${tokenIdNum}`)
+  private async loadCheckpoint(): Promise<void> {
+    const syncStatus = await prisma.syncStatus.findFirst({
+      where: { collectionId: this.collection.id, chainId: this.collection.chainId, syncType: TRANSFER_SYNC_TYPE },
+      orderBy: { lastProcessedBlock: 'desc' }
+    })
+    if (syncStatus) {
+      this.lastProcessedBlock = syncStatus.lastProcessedBlock
+    } else {
+      await this.initializeLastProcessedBlock()
+    }
+  }
 
-      // Check if this is a mint event (from zero address)
-      if (from.toLowerCase() === ZERO_ADDRESS.toLowerCase()) {
-        await this.handleMintEvent(to, tokenIdNum, blockNumber)
-      } else {
-        // Handle regular transfer (update owner)
-        await this.handleOwnershipTransfer(from, to, tokenIdNum)
-      }
+  /**
+   * Handle a log delivered by the WebSocket subscription
+   */
+  private async handleLiveLog(event: ethers.LogDescription, log: ethers.Log): Promise<void> {
+    if (log.removed) {
+      // The block was reorged out; the poller reconciles the ledger for it
+      console.warn(`⛓️ Live ${event.name} log in block ${log.blockNumber} was removed, scheduling catch-up`)
+      this.pendingLiveBlock = Math.max(this.pendingLiveBlock, log.blockNumber)
+      return
+    }
 
-      // Update last processed block
-      const currentBlock = blockNumber || await this.blockchainService.getLatestBlockNumber()
-      await this.updateLastProcessedBlock(currentBlock)
+    switch (event.name) {
+      case 'RandomSeedSet':
+        console.log(`🎲 RandomSeedSet log received in block ${log.blockNumber}`)
+        if (this.randomSeedHandler) {
+          await this.randomSeedHandler({
+            randomSeed: BigInt(event.args.randomSeed.toString()),
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash
+          })
+        }
+        return
+
+      case 'MintTokens':
+        console.log(`🎉 MintTokens log received: to=${event.args.to}, quantity=${event.args.quantity}, block=${log.blockNumber}`)
+        this.pendingLiveBlock = Math.max(this.pendingLiveBlock, log.blockNumber)
+        return
+
+      case 'Transfer':
+        // Apply immediately only when blocks need no confirmations and the poller is idle
+        if (this.confirmations === 0 && !this.isSyncing) {
+          await this.handleTransferEvent({
+            from: event.args.from,
+            to: event.args.to,
+            tokenId: event.args.tokenId,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            transactionHash: log.transactionHash,
+            logIndex: log.index
+          })
+        } else {
+          this.pendingLiveBlock = Math.max(this.pendingLiveBlock, log.blockNumber)
+        }
+        return
+    }
+  }
+
+  /**
+   * Start a catch-up sync once the newest live block has enough confirmations
+   */
+  private async handleLiveBlock(blockNumber: number): Promise<void> {
+    if (this.pendingLiveBlock === 0 || blockNumber - this.confirmations < this.pendingLiveBlock) {
+      return
+    }
+    this.pendingLiveBlock = 0
+    await this.requestCatchUp()
+  }
 
+  /**
+   * Run a historical sync now, or right after the one in progress
+   */
+  private async requestCatchUp(): Promise<void> {
+    if (this.isSyncing) {
+      this.catchUpRequested = true
+      return
+    }
+    try {
+      await this.syncHistoricalEvents()
     } catch (error) {
-      console.error(`❌ Error handling Transfer event for tokenId ${tokenId}:`, error)
+      console.error('❌ Error during live catch-up sync:', error)
     }
   }
 
   /**
-   * Handle mint event (from = zero address)
+   * Handle a single Transfer event received outside the historical scan
    */
-  private async handleMintEvent(to: string, tokenId: number, blockNumber?: number): Promise<void> {
+  private async handleTransferEvent(event: TransferLog): Promise<void> {
     try {
-      console.log(`🎉 Mint detected: tokenId=${tokenId}, to=${to}`)
+      console.log(`🔄 Processing Transfer: from=${event.from}, to=${event.to}, tokenId=${event.tokenId}`)
+      await this.applyTransferEvents([event], { processed: 0, mints: 0, transfers: 0, errors: 0 })
+    } catch (error) {
+      console.error(`❌ Error handling Transfer event for tokenId ${event.tokenId}:`, error)
+    }
+  }
 
-      let boxTypeId: number
+  /**
+   * Record Transfer events in the ledger and re-derive the affected tokens.
+   *
+   * Events are unique on (transactionHash, logIndex), so applying the same
+   * events again only re-derives state that is already correct.
+   */
+  private async applyTransferEvents(events: TransferLog[], totals: SyncTotals): Promise<void> {
+    const blockTimestamps = new Map<number, Date>()
+    const touchedTokens = new Set<number>()
+    const newMints = new Set<number>()
+
+    for (const event of events) {
+      try {
+        const tokenId = Number(event.tokenId)
+        const isMint = event.from.toLowerCase() === ZERO_ADDRESS.toLowerCase()
+
+        let blockTimestamp = blockTimestamps.get(event.blockNumber)
+        if (!blockTimestamp) {
+          blockTimestamp = new Date(await this.blockchainService.getBlockTimestamp(event.blockNumber) * 1000)
+          blockTimestamps.set(event.blockNumber, blockTimestamp)
+        }
 
-      // Priority 1: Check if block time > publicStartTime
-      if (blockNumber) {
-        try {
-          const blockTimestamp = await this.blockchainService.getBlockTimestamp(blockNumber)
-          const publicStartTime = new Date(MINT_CONFIG.publicStartTime).getTime() / 1000 // Convert to seconds
-          
-          if (blockTimestamp > publicStartTime) {
-            boxTypeId = 3
-            console.log(`⏰ After public start time: ${to}, boxTypeId=${boxTypeId}`)
-          } else {
-            // Priority 2: Check if user is a Phase2 holder (only if before public start time)
-            const phase2Holder = await prisma.phase2Holders.findFirst({
-              where: { userAddress: to }
-            })
+        const { count } = await prisma.transferEvent.createMany({
+          data: [{
+            collectionId: this.collection.id,
+            blockNumber: event.blockNumber,
+            blockHash: event.blockHash,
+            transactionHash: event.transactionHash,
+            logIndex: event.logIndex,
+            fromAddress: event.from,
+            toAddress: event.to,
+            tokenId,
+            blockTimestamp
+          }],
+          skipDuplicates: true
+        })
 
-            if (phase2Holder) {
-              boxTypeId = phase2Holder.boxTypeId
-              console.log(`👑 Phase2 holder (before public start): ${to}, boxTypeId=${boxTypeId}`)
-            } else {
-              boxTypeId = 3
-              console.log(`👤 Regular user (before public start): ${to}, boxTypeId=${boxTypeId}`)
-            }
+        if (isMint) {
+          if (count > 0) {
+            console.log(`🎉 Mint detected: tokenId=${tokenId}, to=${event.to}`)
+            newMints.add(tokenId)
           }
-        } catch (error) {
-          console.warn(`⚠️ Could not get block timestamp for block ${blockNumber}, falling back to Phase2 check`)
-          
-          // Fallback: Check Phase2 holder if timestamp check fails
-          const phase2Holder = await prisma.phase2Holders.findFirst({
-            where: { userAddress: to }
-          })
-
-          if (phase2Holder) {
-            boxTypeId = phase2Holder.boxTypeId
-            console.log(`👑 Phase2 holder (timestamp check failed): ${to}, boxTypeId=${boxTypeId}`)
-          } else {
-            boxTypeId = 3
-            console.log(`👤 Regular user (timestamp check failed): ${to}, boxTypeId=${boxTypeId}`)
+          totals.mints++
+        } else {
+          if (count > 0) {
+            console.log(`🔄 Transfer detected: tokenId=${tokenId}, from=${event.from}, to=${event.to}`)
           }
+          totals.transfers++
         }
-      } else {
-        // No block number available, check Phase2 holder
-        const phase2Holder = await prisma.phase2Holders.findFirst({
-          where: { userAddress: to }
-        })
 
-        if (phase2Holder) {
-          boxTypeId = phase2Holder.boxTypeId
-          console.log(`👑 Phase2 holder (no block number): ${to}, boxTypeId=${boxTypeId}`)
-        } else {
-          boxTypeId = 3
-          console.log(`👤 Regular user (no block number): ${to}, boxTypeId=${boxTypeId}`)
-        }
+        touchedTokens.add(tokenId)
+        totals.processed++
+      } catch (error) {
+        console.error(`Error recording event for tokenId ${event.tokenId}:`, error)
+        totals.errors++
       }
+    }
 
-      // Check if NFT already exists in database
-      const existingNft = await prisma.nftInfo.findUnique({
-        where: { tokenId }
-      })
+    for (const tokenId of touchedTokens) {
+      try {
+        await this.deriveTokenFromLedger(tokenId, newMints.has(tokenId))
+      } catch (error) {
+        console.error(`❌ Error deriving state for tokenId ${tokenId}:`, error)
+        totals.errors++
+      }
+    }
+  }
 
+  /**
+   * Rebuild a token's NftInfo owner from its latest ledger event.
+   * The box type is (re)assigned when the row is created or a new mint was recorded.
+   */
+  private async deriveTokenFromLedger(tokenId: number, reassignBoxType: boolean): Promise<void> {
+    const latestEvent = await prisma.transferEvent.findFirst({
+      where: { collectionId: this.collection.id, tokenId },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+    })
+    const nftKey = { collectionId_tokenId: { collectionId: this.collection.id, tokenId } }
+    const existingNft = await prisma.nftInfo.findUnique({
+      where: nftKey
+    })
+
+    if (!latestEvent) {
+      // All events for this token were rolled back
       if (existingNft) {
-        console.log(`⚠️ NFT ${tokenId} already exists, updating owner address and boxTypeId`)
-        // Update the owner address and boxTypeId if they're different
-        if (existingNft.userAddress !== to || existingNft.boxTypeId !== boxTypeId) {
-          await prisma.nftInfo.update({
-            where: { tokenId },
-            data: { 
-              userAddress: to,
-              boxTypeId: boxTypeId
-            }
-          })
-          console.log(`✅ Updated NFT ${tokenId}: owner=${to}, boxTypeId=${boxTypeId}`)
+        await prisma.$transaction(async (tx) => {
+          await tx.nftInfo.delete({ where: nftKey })
+          if (existingNft.originId !== 0) {
+            // The reveal goes with the token: free its origin and keep a record of the lost reveal
+            await originAssignmentService.releaseOrigin(tx, this.collection.id, existingNft.originId, tokenId)
+            await revealAuditService.record(tx, this.collection, {
+              action: 'reorg_rollback',
+              tokenId,
+              boxTypeId: existingNft.boxTypeId,
+              owner: existingNft.userAddress,
+              originId: null,
+              previousOriginId: existingNft.originId,
+              reason: 'Mint is no longer canonical after a chain reorganization'
+            })
+          }
+        })
+        if (existingNft.originId !== 0) {
+          console.warn(`⚠️ Removed revealed tokenId ${tokenId} and released origin ${existingNft.originId}, its mint is no longer canonical`)
+        } else {
+          console.log(`↩️ Removed tokenId ${tokenId}, its mint is no longer canonical`)
         }
-      } else {
-        // Create new NFT record with appropriate boxTypeId
-        await prisma.nftInfo.create({
+      }
+      return
+    }
+
+    if (existingNft && !reassignBoxType) {
+      if (existingNft.userAddress !== latestEvent.toAddress || existingNft.lastEventBlock !== latestEvent.blockNumber) {
+        await prisma.nftInfo.update({
+          where: nftKey,
           data: {
-            tokenId,
-            metadataId: null,
-            userAddress: to,
-            boxTypeId: boxTypeId,
-            originId: 0,
-            createdAt: new Date()
+            userAddress: latestEvent.toAddress,
+            lastEventBlock: latestEvent.blockNumber
           }
         })
-        console.log(`✅ Created new NFT record for tokenId ${tokenId}: owner=${to}, boxTypeId=${boxTypeId}`)
+        console.log(`✅ Updated owner for tokenId ${tokenId}: ${existingNft.userAddress} → ${latestEvent.toAddress}`)
       }
+      return
+    }
 
-    } catch (error) {
-      console.error(`❌ Error handling mint event for tokenId ${tokenId}:`, error)
-      throw error
+    const mintEvent = await prisma.transferEvent.findFirst({
+      where: { collectionId: this.collection.id, tokenId, fromAddress: ZERO_ADDRESS },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }]
+    })
+    if (!mintEvent) {
+      console.log(`⚠️ No mint event recorded for tokenId ${tokenId}, skipping`)
+      return
+    }
+
+    const { boxTypeId, soulboundTokenId, reason } = await this.resolveBoxType(tokenId)
+
+    if (existingNft) {
+      console.log(`⚠️ NFT ${tokenId} already exists, updating owner address and boxTypeId`)
+      await prisma.nftInfo.update({
+        where: nftKey,
+        data: {
+          userAddress: latestEvent.toAddress,
+          boxTypeId,
+          soulboundTokenId,
+          boxTypeReason: reason,
+          lastEventBlock: latestEvent.blockNumber
+        }
+      })
+      console.log(`✅ Updated NFT ${tokenId}: owner=${latestEvent.toAddress}, boxTypeId=${boxTypeId}`)
+    } else {
+      // Once the seed is known a new mint gets its metadataId right away; before that generateAllMappings assigns it
+      const seedMapping = await this.mappingService.getSeedMapping(this.collection)
+      await prisma.nftInfo.create({
+        data: {
+          collectionId: this.collection.id,
+          tokenId,
+          metadataId: seedMapping ? seedMapping.toMetadataId(tokenId) : null,
+          randomSeedId: seedMapping?.randomSeedId ?? null,
+          userAddress: latestEvent.toAddress,
+          boxTypeId,
+          soulboundTokenId,
+          boxTypeReason: reason,
+          originId: 0,
+          lastEventBlock: latestEvent.blockNumber,
+          createdAt: new Date()
+        }
+      })
+      console.log(`✅ Created new NFT record for tokenId ${tokenId}: owner=${latestEvent.toAddress}, boxTypeId=${boxTypeId}`)
     }
   }
 
   /**
-   * Handle ownership transfer (regular transfer between addresses)
+   * Decide the box type of a minted token from its on-chain soulbound linkage.
+   *
+   * `mintBySoulboundHolder` records `avatarToSoulbound[tokenId]`, and the
+   * soulbound token ID is the `Phase2Holders.id`, so the box comes from that
+   * exact holder row regardless of which wallet received the mint. Public and
+   * giveaway mints have no linkage and get the public sale box.
    */
-  private async handleOwnershipTransfer(from: string, to: string, tokenId: number): Promise<void> {
-    try {
-      console.log(`🔄 Transfer detected: tokenId=${tokenId}, from=${from}, to=${to}`)
+  private async resolveBoxType(tokenId: number): Promise<{
+    boxTypeId: number;
+    soulboundTokenId: number | null;
+    reason: BoxTypeReason;
+  }> {
+    const publicBoxTypeId = this.collection.publicBoxTypeId
+    const soulboundTokenId = await this.blockchainService.getSoulboundTokenId(tokenId)
 
-      // Update the owner address
-      const result = await prisma.nftInfo.updateMany({
-        where: { 
-          tokenId,
-          userAddress: from // Only update if current owner matches 'from' address
-        },
-        data: { userAddress: to }
-      })
+    if (soulboundTokenId === 0) {
+      console.log(`👤 No soulbound linkage for tokenId ${tokenId}, boxTypeId=${publicBoxTypeId}`)
+      return { boxTypeId: publicBoxTypeId, soulboundTokenId: null, reason: 'no_soulbound_linkage' }
+    }
 
-      if (result.count > 0) {
-        console.log(`✅ Updated owner for tokenId ${tokenId}: ${from} → ${to}`)
-      } else {
-        console.log(`⚠️ No update needed for tokenId ${tokenId} (owner mismatch or not found)`)
-      }
+    const phase2Holder = await prisma.phase2Holders.findUnique({
+      where: { collectionId_id: { collectionId: this.collection.id, id: soulboundTokenId } }
+    })
 
-    } catch (error) {
-      console.error(`❌ Error handling ownership transfer for tokenId ${tokenId}:`, error)
-      throw error
+    if (!phase2Holder) {
+      console.warn(`⚠️ Soulbound token ${soulboundTokenId} for tokenId ${tokenId} has no Phase2Holders row, boxTypeId=${publicBoxTypeId}`)
+      return { boxTypeId: publicBoxTypeId, soulboundTokenId, reason: 'soulbound_holder_missing' }
+    }
+
+    console.log(`👑 Soulbound token ${soulboundTokenId} linked to tokenId ${tokenId}, boxTypeId=${phase2Holder.boxTypeId}`)
+    return { boxTypeId: phase2Holder.boxTypeId, soulboundTokenId, reason: 'soulbound_linkage' }
+  }
+
+  /**
+   * Re-derive every token recorded in the ledger. Ownership is replayed
+   * without touching the chain; box types are only re-resolved on request.
+   */
+  async rebuildFromLedger(reassignBoxTypes = false): Promise<{ tokens: number; errors: number }> {
+    const tokens = await prisma.transferEvent.findMany({
+      where: { collectionId: this.collection.id },
+      distinct: ['tokenId'],
+      select: { tokenId: true },
+      orderBy: { tokenId: 'asc' }
+    })
+
+    let errors = 0
+    for (const { tokenId } of tokens) {
+      try {
+        await this.deriveTokenFromLedger(tokenId, reassignBoxTypes)
+      } catch (error) {
+        console.error(`❌ Error rebuilding tokenId ${tokenId}:`, error)
+        errors++
+      }
     }
+
+    console.log(`✅ Rebuilt ${tokens.length} tokens from the Transfer ledger (${errors} errors)`)
+    return { tokens: tokens.length, errors }
+  }
+
+  /**
+   * Get the recorded Transfer history of a token, oldest first
+   */
+  async getTokenHistory(tokenId: number) {
+    return await prisma.transferEvent.findMany({
+      where: { collectionId: this.collection.id, tokenId },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }]
+    })
   }
 
   /**
@@ -261,14 +577,20 @@ export class NftSyncService {
     try {
       await prisma.syncStatus.upsert({
         where: { 
-          syncType: 'transfer_events'
+          collectionId_chainId_syncType: {
+            collectionId: this.collection.id,
+            chainId: this.collection.chainId,
+            syncType: TRANSFER_SYNC_TYPE
+          }
         },
         update: {
           lastProcessedBlock: blockNumber,
           updatedAt: new Date()
         },
         create: {
-          syncType: 'transfer_events',
+          collectionId: this.collection.id,
+          chainId: this.collection.chainId,
+          syncType: TRANSFER_SYNC_TYPE,
           lastProcessedBlock: blockNumber,
           updatedAt: new Date()
         }
@@ -281,6 +603,12 @@ export class NftSyncService {
 
   /**
    * Sync historical Transfer events from a specific block range
+   *
+   * The range is scanned in adaptive windows and the checkpoint is advanced
+   * after each window, so a restart resumes from the last completed window.
+   * Only blocks at least `this.confirmations` deep are indexed, and a
+   * reorg detected through the stored block hashes is rolled back and the
+   * canonical blocks replayed.
    */
   async syncHistoricalEvents(fromBlock?: number, toBlock?: number): Promise<{
     processed: number;
@@ -292,73 +620,291 @@ export class NftSyncService {
       throw new Error('Blockchain service not configured')
     }
 
-    const startBlock = fromBlock || this.lastProcessedBlock
-    const endBlock = toBlock || await this.blockchainService.getLatestBlockNumber()
-
-    console.log(`🔍 Syncing historical Transfer events from block ${startBlock} to ${endBlock}`)
+    if (this.isSyncing) {
+      throw new Error('Historical sync already in progress')
+    }
 
-    let processed = 0
-    let mints = 0
-    let transfers = 0
-    let errors = 0
+    const totals: SyncTotals = { processed: 0, mints: 0, transfers: 0, errors: 0 }
 
+    this.isSyncing = true
     try {
-      const events = await this.blockchainService.getTransferEvents(startBlock, endBlock)
-      console.log(`📦 Found ${events.length} Transfer events`)
+      await this.loadCheckpoint()
+
+      // Undo anything indexed on blocks that are no longer canonical
+      const forkBlock = await this.detectReorg()
+      if (forkBlock !== null) {
+        await this.rollbackToBlock(forkBlock)
+      }
+
+      const safeHead = await this.blockchainService.getLatestBlockNumber() - this.confirmations
+      let startBlock = fromBlock || this.lastProcessedBlock + 1
+      const endBlock = Math.min(toBlock || safeHead, safeHead)
+
+      console.log(`🔍 Syncing historical Transfer events for ${this.collection.slug} from block ${startBlock} to ${endBlock}`)
 
-      for (const event of events) {
+      for (let attempt = 0; ; attempt++) {
         try {
-          const tokenIdNum = Number(event.tokenId)
-          
-          if (event.from.toLowerCase() === ZERO_ADDRESS.toLowerCase()) {
-            await this.handleMintEvent(event.to, tokenIdNum, event.blockNumber)
-            mints++
-          } else {
-            await this.handleOwnershipTransfer(event.from, event.to, tokenIdNum)
-            transfers++
-          }
-          
-          processed++
+          await this.scanTransferEvents(startBlock, endBlock, totals)
+          break
         } catch (error) {
-          console.error(`Error processing event for tokenId ${event.tokenId}:`, error)
-          errors++
+          if (!(error instanceof ReorgDetectedError) || attempt >= MAX_REORG_RETRIES) {
+            throw error
+          }
+          await this.rollbackToBlock(error.forkBlock)
+          // Replay the canonical blocks from the fork point
+          startBlock = Math.min(startBlock, error.forkBlock + 1)
         }
       }
 
-      // Update last processed block
-      await this.updateLastProcessedBlock(endBlock)
-
-      console.log(`✅ Historical sync completed: ${processed} processed, ${mints} mints, ${transfers} transfers, ${errors} errors`)
+      console.log(`✅ Historical sync completed: ${totals.processed} processed, ${totals.mints} mints, ${totals.transfers} transfers, ${totals.errors} errors`)
 
     } catch (error) {
       console.error('Error syncing historical events:', error)
       throw error
+    } finally {
+      this.isSyncing = false
+      if (this.catchUpRequested) {
+        this.catchUpRequested = false
+        setImmediate(() => void this.requestCatchUp())
+      }
+    }
+
+    return totals
+  }
+
+  /**
+   * Scan and apply Transfer events window by window, checkpointing each window
+   */
+  private async scanTransferEvents(
+    startBlock: number,
+    endBlock: number,
+    totals: SyncTotals
+  ): Promise<void> {
+    await this.blockScanner.scan(
+      startBlock,
+      endBlock,
+      (windowStart, windowEnd) => this.blockchainService.getTransferEvents(windowStart, windowEnd),
+      async (events, windowStart, windowEnd) => {
+        await this.verifyParentHash(windowStart)
+
+        if (events.length > 0) {
+          console.log(`📦 Found ${events.length} Transfer events in blocks ${windowStart}-${windowEnd}`)
+        }
+
+        await this.reconcileWindow(events, windowStart, windowEnd)
+
+        await this.applyTransferEvents(events, totals)
+
+        await this.recordBlockHashes(events, windowEnd)
+
+        // Checkpoint after every window so a crash resumes from here; a rescan of older blocks
+        // (an admin fromBlock below the checkpoint) must not move the checkpoint back
+        if (windowEnd > this.lastProcessedBlock) {
+          await this.updateLastProcessedBlock(windowEnd)
+        }
+      }
+    )
+  }
+
+  /**
+   * Drop ledger events in a window that are not among its canonical logs.
+   * Only live-applied events from blocks that were later reorged out can
+   * end up here, since the poller never indexes unconfirmed blocks itself.
+   */
+  private async reconcileWindow(events: TransferLog[], windowStart: number, windowEnd: number): Promise<void> {
+    const canonical = new Set(events.map(event => `${event.transactionHash}:${event.logIndex}:${event.blockHash}`))
+    const recorded = await prisma.transferEvent.findMany({
+      where: { collectionId: this.collection.id, blockNumber: { gte: windowStart, lte: windowEnd } },
+      select: { id: true, transactionHash: true, logIndex: true, blockHash: true, tokenId: true }
+    })
+
+    const stale = recorded.filter(event => !canonical.has(`${event.transactionHash}:${event.logIndex}:${event.blockHash}`))
+    if (stale.length === 0) {
+      return
+    }
+
+    console.warn(`⛓️ Removing ${stale.length} non-canonical ledger events in blocks ${windowStart}-${windowEnd}`)
+    await prisma.transferEvent.deleteMany({
+      where: { id: { in: stale.map(event => event.id) } }
+    })
+
+    for (const tokenId of new Set(stale.map(event => event.tokenId))) {
+      await this.deriveTokenFromLedger(tokenId, false)
+    }
+  }
+
+  /**
+   * Store the hashes of blocks that carried events plus the window end block,
+   * and prune hashes older than the configured history
+   */
+  private async recordBlockHashes(events: Array<{ blockNumber: number; blockHash: string }>, windowEnd: number): Promise<void> {
+    const header = await this.blockchainService.getBlockHeader(windowEnd)
+    if (!header) {
+      throw new Error(`Block ${windowEnd} not found`)
+    }
+
+    const blocks = new Map<number, { blockHash: string; parentHash: string | null }>()
+    for (const event of events) {
+      blocks.set(event.blockNumber, { blockHash: event.blockHash, parentHash: null })
+    }
+    blocks.set(windowEnd, { blockHash: header.hash, parentHash: header.parentHash })
+
+    for (const [blockNumber, block] of blocks) {
+      await prisma.syncBlock.upsert({
+        where: { collectionId_chainId_syncType_blockNumber: { collectionId: this.collection.id, chainId: this.collection.chainId, syncType: TRANSFER_SYNC_TYPE, blockNumber } },
+        update: block,
+        create: { collectionId: this.collection.id, chainId: this.collection.chainId, syncType: TRANSFER_SYNC_TYPE, blockNumber, ...block }
+      })
+    }
+
+    await prisma.syncBlock.deleteMany({
+      where: {
+        collectionId: this.collection.id,
+        chainId: this.collection.chainId,
+        syncType: TRANSFER_SYNC_TYPE,
+        blockNumber: { lt: windowEnd - SYNC_CONFIG.blockHashHistory }
+      }
+    })
+  }
+
+  /**
+   * Check that a block still links to the stored hash of its parent
+   */
+  private async verifyParentHash(blockNumber: number): Promise<void> {
+    const parent = await prisma.syncBlock.findUnique({
+      where: { collectionId_chainId_syncType_blockNumber: { collectionId: this.collection.id, chainId: this.collection.chainId, syncType: TRANSFER_SYNC_TYPE, blockNumber: blockNumber - 1 } }
+    })
+    if (!parent) {
+      return
     }
 
-    return { processed, mints, transfers, errors }
+    const header = await this.blockchainService.getBlockHeader(blockNumber)
+    if (header && header.parentHash !== parent.blockHash) {
+      console.warn(`⛓️ Parent hash of block ${blockNumber} changed: ${parent.blockHash} → ${header.parentHash}`)
+      throw new ReorgDetectedError(await this.findForkBlock(blockNumber - 1))
+    }
+  }
+
+  /**
+   * Compare the most recent stored block hash with the chain.
+   * Returns the last common block if a reorg happened, otherwise null.
+   */
+  private async detectReorg(): Promise<number | null> {
+    const latest = await prisma.syncBlock.findFirst({
+      where: { collectionId: this.collection.id, chainId: this.collection.chainId, syncType: TRANSFER_SYNC_TYPE },
+      orderBy: { blockNumber: 'desc' }
+    })
+    if (!latest) {
+      return null
+    }
+
+    const header = await this.blockchainService.getBlockHeader(latest.blockNumber)
+    if (header && header.hash === latest.blockHash) {
+      return null
+    }
+
+    console.warn(`⛓️ Block ${latest.blockNumber} hash changed: ${latest.blockHash} → ${header?.hash ?? 'missing'}`)
+    return await this.findForkBlock(latest.blockNumber)
+  }
+
+  /**
+   * Walk back through stored block hashes until one matches the chain
+   */
+  private async findForkBlock(fromBlock: number): Promise<number> {
+    const stored = await prisma.syncBlock.findMany({
+      where: {
+        collectionId: this.collection.id,
+        chainId: this.collection.chainId,
+        syncType: TRANSFER_SYNC_TYPE,
+        blockNumber: { lte: fromBlock }
+      },
+      orderBy: { blockNumber: 'desc' }
+    })
+
+    for (const block of stored) {
+      const header = await this.blockchainService.getBlockHeader(block.blockNumber)
+      if (header && header.hash === block.blockHash) {
+        return block.blockNumber
+      }
+    }
+
+    // Reorg is deeper than the stored history; replay everything we still know about
+    const oldest = stored.length > 0 ? stored[stored.length - 1].blockNumber : fromBlock
+    console.warn(`⚠️ No common ancestor found in stored block history, rolling back to block ${oldest - 1}`)
+    return oldest - 1
+  }
+
+  /**
+   * Drop ledger events after the fork block, re-derive the affected tokens
+   * and rewind the checkpoint
+   */
+  private async rollbackToBlock(forkBlock: number): Promise<void> {
+    console.warn(`⛓️ Rolling back indexed state to block ${forkBlock}`)
+
+    const orphaned = await prisma.transferEvent.findMany({
+      where: { collectionId: this.collection.id, blockNumber: { gt: forkBlock } },
+      distinct: ['tokenId'],
+      select: { tokenId: true }
+    })
+
+    await prisma.transferEvent.deleteMany({
+      where: { collectionId: this.collection.id, blockNumber: { gt: forkBlock } }
+    })
+
+    for (const { tokenId } of orphaned) {
+      await this.deriveTokenFromLedger(tokenId, false)
+    }
+
+    await prisma.syncBlock.deleteMany({
+      where: {
+        collectionId: this.collection.id,
+        chainId: this.collection.chainId,
+        syncType: TRANSFER_SYNC_TYPE,
+        blockNumber: { gt: forkBlock }
+      }
+    })
+
+    await this.updateLastProcessedBlock(forkBlock)
   }
 
   /**
    * Get sync status
    */
   async getSyncStatus(): Promise<{
+    chainId: number;
     isListening: boolean;
     lastProcessedBlock: number;
     currentBlock: number;
+    confirmations: number;
     blocksBehind: number;
+    liveSubscription: LogSubscriberStatus | null;
   }> {
     const currentBlock = this.blockchainService.isServiceConfigured() 
       ? await this.blockchainService.getLatestBlockNumber()
       : 0
 
     return {
+      chainId: this.collection.chainId,
       isListening: this.isListening,
       lastProcessedBlock: this.lastProcessedBlock,
       currentBlock,
-      blocksBehind: Math.max(0, currentBlock - this.lastProcessedBlock)
+      confirmations: this.confirmations,
+      blocksBehind: Math.max(0, currentBlock - this.confirmations - this.lastProcessedBlock),
+      liveSubscription: this.logSubscriber?.getStatus() ?? null
     }
   }
 }
 
-// Export singleton instance
-export const nftSyncService = new NftSyncService()
+const nftSyncServices = new Map<number, NftSyncService>()
+
+/**
+ * Shared NftSyncService for a collection
+ */
+export function getNftSyncService(collection: Collection): NftSyncService {
+  let service = nftSyncServices.get(collection.id)
+  if (!service) {
+    service = new NftSyncService(collection)
+    nftSyncServices.set(collection.id, service)
+  }
+  return service
+}
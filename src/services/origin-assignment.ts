@@ -0,0 +1,341 @@
+/**
+ * Origin Assignment
+ *
+ * A revealed token gets an origin from its box type's pool. The pool is
+ * ordered by originId ascending and committed to with
+ * `calculateOriginPoolCommitment`; the draw walks `originDrawSequence` for the
+ * collection's committed seed and the tokenId over the whole pool and takes
+ * the first origin that is still free. Nothing depends on server-side
+ * randomness, so anyone can recompute an assignment: every origin the
+ * sequence tried before the assigned one must already have been taken.
+ * Draws only run over a locked pool whose ordering still matches the
+ * commitment stored with the lock (see `provenance.ts`).
+ * Each reveal records its seed, attempt and pool commitment in the reveal
+ * audit log, and verification replays that record against the origins held
+ * at the time, rebuilt from the same log, rather than against today's pool.
+ * Collections can draw under another allocation policy (see
+ * `allocation-policy.ts`); the uniform policy is the draw described here.
+ */
+
+import { Collection, NftInfo, Prisma, RevealEvent } from '@prisma/client'
+import prisma from '../config/database'
+import { calculateOriginPoolCommitment, originDrawSequence } from '../utils/crypto'
+import { AllocationDraw, AllocationPolicyName, allocationPolicyService, PoolOrigin, TierIndex } from './allocation-policy'
+import { provenanceService } from './provenance'
+
+export interface OriginDraw {
+  attempt: number
+  // Position in the ordered pool
+  index: number
+  originId: number
+  // Whether the origin was taken when the draw reached it: at reveal time for revealed tokens, now otherwise
+  assigned: boolean
+  // Token holding the origin at that time, if any
+  heldByTokenId: number | null
+}
+
+// Draw recorded with a holder reveal in the reveal audit log
+export interface RevealDrawRecord {
+  eventId: number
+  action: string
+  randomSeed: string
+  attempt: number
+  // Commitment to the pool ordering the draw ran over
+  poolCommitment: string
+  revealedAt: string
+}
+
+export interface OriginVerification {
+  tokenId: number
+  boxTypeId: number
+  // Seed the token was revealed with, or the current seed while unrevealed; null when the reveal has no recorded draw
+  randomSeed: string | null
+  policy: AllocationPolicyName
+  // null while the token is not revealed
+  assignedOriginId: number | null
+  pool: {
+    ordering: 'originId ascending'
+    size: number
+    // Commitment to the pool as it is now
+    commitment: string
+    // Commitment stored when the pool was locked, null while unlocked
+    lockedCommitment: string | null
+    originIds: number[]
+  }
+  // null while the token is not revealed, for admin reassignments and for reveals recorded before draws were stored
+  reveal: RevealDrawRecord | null
+  // Draws up to the assigned origin, or up to the origin an unrevealed token would get now; uniform policy only
+  draws: OriginDraw[]
+  // null while the token is not revealed, when there is no recorded draw, or when the draw ran under another policy
+  verified: boolean | null
+  nextOriginId: number | null
+}
+
+type VerificationPool = OriginVerification['pool']
+
+export class OriginAssignmentService {
+  /**
+   * Box type's origins in committed order
+   */
+  async getOriginPool(client: Prisma.TransactionClient, collectionId: number, boxTypeId: number): Promise<PoolOrigin[]> {
+    return await client.originMetadataInfo.findMany({
+      where: { collectionId, boxTypeId },
+      orderBy: { originId: 'asc' },
+      select: { originId: true, isAssigned: true, rarityTier: true }
+    })
+  }
+
+  /**
+   * Origin the collection's allocation policy picks for a token, given which origins of the pool are taken; null when all are
+   */
+  drawOrigin(
+    collection: Collection,
+    pool: PoolOrigin[],
+    randomSeed: bigint,
+    tokenId: number,
+    now: Date = new Date(),
+    tiers?: TierIndex
+  ): AllocationDraw | null {
+    return allocationPolicyService.draw(allocationPolicyService.getSettings(collection), pool, randomSeed, tokenId, now, tiers)
+  }
+
+  /**
+   * Draw and claim an origin for an unrevealed token inside the reveal transaction. The caller holds
+   * the token's row lock (see `RevealService.revealToken`); the write only lands on an unrevealed token.
+   */
+  async assignOrigin(
+    tx: Prisma.TransactionClient,
+    collection: Collection,
+    tokenId: number,
+    boxTypeId: number,
+    randomSeed: bigint
+  ): Promise<{ originId: number; attempt: number; tier: string; poolCommitment: string }> {
+    const collectionId = collection.id
+    const pool = await this.getOriginPool(tx, collectionId, boxTypeId)
+    const poolCommitment = await provenanceService.assertPoolCommitted(tx, collectionId, boxTypeId, pool.map(origin => origin.originId))
+    const now = new Date()
+    const tiers = allocationPolicyService.indexTiers(pool)
+
+    for (let draw = this.drawOrigin(collection, pool, randomSeed, tokenId, now, tiers); draw; draw = this.drawOrigin(collection, pool, randomSeed, tokenId, now, tiers)) {
+      // A concurrent reveal may have claimed the origin since the pool was read
+      const claimed = await tx.originMetadataInfo.updateMany({
+        where: { collectionId, originId: draw.originId, isAssigned: false },
+        data: { isAssigned: true }
+      })
+      if (claimed.count === 0) {
+        allocationPolicyService.markAssigned(pool, tiers, draw.index)
+        continue
+      }
+
+      const written = await tx.nftInfo.updateMany({
+        where: { collectionId, tokenId, originId: 0 },
+        data: { originId: draw.originId }
+      })
+      if (written.count === 0) {
+        throw new Error(`Token ${tokenId} already revealed`)
+      }
+      return { originId: draw.originId, attempt: draw.attempt, tier: draw.tier, poolCommitment }
+    }
+
+    throw new Error(`No available metadata for box type ${boxTypeId}`)
+  }
+
+  /**
+   * Mark a token's former origin free unless another token still holds it (e.g. a duplicate assignment)
+   */
+  async releaseOrigin(tx: Prisma.TransactionClient, collectionId: number, originId: number, tokenId: number): Promise<void> {
+    const holders = await tx.nftInfo.count({
+      where: { collectionId, originId, tokenId: { not: tokenId } }
+    })
+    if (holders === 0) {
+      await tx.originMetadataInfo.updateMany({
+        where: { collectionId, originId },
+        data: { isAssigned: false }
+      })
+    }
+  }
+
+  /**
+   * Replay a revealed token's recorded draw, or show the draw an unrevealed token would get now
+   */
+  async verifyAssignment(collection: Collection, tokenId: number): Promise<OriginVerification | null> {
+    const nftInfo = await prisma.nftInfo.findUnique({
+      where: { collectionId_tokenId: { collectionId: collection.id, tokenId } }
+    })
+    if (!nftInfo) {
+      return null
+    }
+
+    const [origins, lock] = await Promise.all([
+      this.getOriginPool(prisma, collection.id, nftInfo.boxTypeId),
+      prisma.originPoolCommitment.findUnique({
+        where: { collectionId_boxTypeId: { collectionId: collection.id, boxTypeId: nftInfo.boxTypeId } }
+      })
+    ])
+    const originIds = origins.map(origin => origin.originId)
+    const pool: VerificationPool = {
+      ordering: 'originId ascending',
+      size: originIds.length,
+      commitment: calculateOriginPoolCommitment(originIds),
+      lockedCommitment: lock?.originCommitment ?? null,
+      originIds
+    }
+
+    return nftInfo.originId === 0
+      ? await this.previewDraw(collection, nftInfo, origins, pool)
+      : await this.replayDraw(collection, nftInfo, origins, pool)
+  }
+
+  /**
+   * Origin an unrevealed token would draw now, from the current seed and the origins taken so far
+   */
+  private async previewDraw(collection: Collection, nftInfo: NftInfo, origins: PoolOrigin[], pool: VerificationPool): Promise<OriginVerification> {
+    const seedInfo = await prisma.randomSeedInfo.findFirst({
+      where: { collectionId: collection.id },
+      orderBy: { syncedAt: 'desc' }
+    })
+    if (!seedInfo) {
+      throw new Error(`Random seed for ${collection.slug} is not set yet`)
+    }
+    const randomSeed = BigInt(seedInfo.randomSeed)
+    const { policy } = allocationPolicyService.getSettings(collection)
+    const verification = { tokenId: nftInfo.tokenId, boxTypeId: nftInfo.boxTypeId, randomSeed: seedInfo.randomSeed, policy, assignedOriginId: null, pool, reveal: null, verified: null }
+
+    // Stratified and reserved draws depend on the tiers' state at reveal time, so only their next draw is shown
+    if (policy !== 'uniform') {
+      const nextOriginId = this.drawOrigin(collection, origins, randomSeed, nftInfo.tokenId)?.originId ?? null
+      return { ...verification, draws: [], nextOriginId }
+    }
+
+    const holders = await prisma.nftInfo.findMany({
+      where: { collectionId: collection.id, boxTypeId: nftInfo.boxTypeId, originId: { not: 0 } },
+      select: { tokenId: true, originId: true }
+    })
+    const holderByOrigin = new Map(holders.map(holder => [holder.originId, holder.tokenId]))
+
+    const draws: OriginDraw[] = []
+    for (const { attempt, index } of originDrawSequence(randomSeed, nftInfo.tokenId, origins.length)) {
+      const origin = origins[index]
+      draws.push({ attempt, index, originId: origin.originId, assigned: origin.isAssigned, heldByTokenId: holderByOrigin.get(origin.originId) ?? null })
+      if (!origin.isAssigned) {
+        return { ...verification, draws, nextOriginId: origin.originId }
+      }
+    }
+    return { ...verification, draws, nextOriginId: null }
+  }
+
+  /**
+   * Replay the draw recorded with a token's reveal: under its seed and pool ordering, every
+   * attempt before the recorded one must have hit an origin another token held at the time,
+   * and the recorded attempt must land on the assigned origin while it was free
+   */
+  private async replayDraw(collection: Collection, nftInfo: NftInfo, origins: PoolOrigin[], pool: VerificationPool): Promise<OriginVerification> {
+    const event = await prisma.revealEvent.findFirst({
+      where: { collectionId: collection.id, tokenId: nftInfo.tokenId, originId: nftInfo.originId },
+      orderBy: { id: 'desc' }
+    })
+    const reveal = event ? this.toDrawRecord(event) : null
+    const policy = (event?.policy ?? allocationPolicyService.getSettings(collection).policy) as AllocationPolicyName
+    const verification = {
+      tokenId: nftInfo.tokenId,
+      boxTypeId: nftInfo.boxTypeId,
+      randomSeed: reveal?.randomSeed ?? null,
+      policy,
+      assignedOriginId: nftInfo.originId,
+      pool,
+      reveal,
+      nextOriginId: null
+    }
+
+    if (!event || !reveal || policy !== 'uniform') {
+      return { ...verification, draws: [], verified: null }
+    }
+    // The draw ran over another ordering (origins added or removed since), so it can't be replayed
+    if (reveal.poolCommitment !== pool.commitment) {
+      return { ...verification, draws: [], verified: false }
+    }
+
+    const holderByOrigin = await this.getHoldersBefore(collection.id, nftInfo.boxTypeId, event.id)
+    const draws: OriginDraw[] = []
+    for (const { attempt, index } of originDrawSequence(BigInt(reveal.randomSeed), nftInfo.tokenId, origins.length)) {
+      const originId = origins[index].originId
+      const heldByTokenId = holderByOrigin.get(originId) ?? null
+      const taken = heldByTokenId !== null && heldByTokenId !== nftInfo.tokenId
+      draws.push({ attempt, index, originId, assigned: taken, heldByTokenId })
+
+      if (attempt === reveal.attempt) {
+        return { ...verification, draws, verified: originId === nftInfo.originId && !taken }
+      }
+      if (!taken) {
+        // The draw would have stopped at this free origin
+        break
+      }
+    }
+    return { ...verification, draws, verified: false }
+  }
+
+  /**
+   * Which token held each origin of the box type just before a reveal event, rebuilt from the
+   * reveal audit log. Tokens revealed before the log existed are counted from the start: those
+   * with no events at all, and those whose first event releases an origin.
+   */
+  private async getHoldersBefore(collectionId: number, boxTypeId: number, eventId: number): Promise<Map<number, number>> {
+    const [events, revealed] = await Promise.all([
+      prisma.revealEvent.findMany({
+        where: { collectionId, boxTypeId },
+        orderBy: { id: 'asc' },
+        select: { id: true, tokenId: true, originId: true, previousOriginId: true }
+      }),
+      prisma.nftInfo.findMany({
+        where: { collectionId, boxTypeId, originId: { not: 0 } },
+        select: { tokenId: true, originId: true }
+      })
+    ])
+
+    const holders = new Map<number, number>()
+    const logged = new Set<number>()
+    for (const event of events) {
+      if (!logged.has(event.tokenId)) {
+        logged.add(event.tokenId)
+        if (event.previousOriginId !== null) {
+          holders.set(event.previousOriginId, event.tokenId)
+        }
+      }
+    }
+    for (const nft of revealed) {
+      if (!logged.has(nft.tokenId)) {
+        holders.set(nft.originId, nft.tokenId)
+      }
+    }
+
+    for (const event of events) {
+      if (event.id >= eventId) {
+        break
+      }
+      if (event.previousOriginId !== null && holders.get(event.previousOriginId) === event.tokenId) {
+        holders.delete(event.previousOriginId)
+      }
+      if (event.originId !== null) {
+        holders.set(event.originId, event.tokenId)
+      }
+    }
+    return holders
+  }
+
+  private toDrawRecord(event: RevealEvent): RevealDrawRecord | null {
+    if (event.randomSeed === null || event.drawAttempt === null || event.poolCommitment === null) {
+      return null
+    }
+    return {
+      eventId: event.id,
+      action: event.action,
+      randomSeed: event.randomSeed,
+      attempt: event.drawAttempt,
+      poolCommitment: event.poolCommitment,
+      revealedAt: event.createdAt.toISOString()
+    }
+  }
+}
+
+// Export singleton instance
+export const originAssignmentService = new OriginAssignmentService()
@@ -0,0 +1,252 @@
+/**
+ * Origin Pool Provenance
+ *
+ * Each origin is hashed from its originId and canonical JSON metadata, and
+ * the leaves of a box type (ordered by originId, as the reveal draw orders
+ * the pool) form a Merkle tree. Locking a pool before its first reveal stores
+ * the root; admin writes to a locked pool are rejected, and any later change
+ * made directly in the database shows up as a root that no longer matches.
+ * The lock also stores the commitment to the pool's originId ordering that
+ * reveal draws are verified against (see `origin-assignment.ts`); a box type
+ * is only drawn from while its pool is locked and still has that ordering,
+ * and reveals don't open (nor mass reveals get scheduled) while a pool with
+ * origins is unlocked, so origins are fixed before the first reveal.
+ * Locking and origin writes hold the collection row lock, so an origin can't
+ * slip into a pool between its lock check and the root being stored.
+ */
+
+import { Collection, Prisma } from '@prisma/client'
+import prisma from '../config/database'
+import { buildMerkleLayers, getMerkleProof, getMerkleRoot, originLeaf, verifyMerkleProof } from '../utils/merkle'
+import { calculateOriginPoolCommitment } from '../utils/crypto'
+import { collectionService } from './collection'
+
+export interface PoolProvenance {
+  boxTypeId: number
+  locked: boolean
+  lockedAt: string | null
+  // Root stored when the pool was locked
+  merkleRoot: string | null
+  leafCount: number | null
+  // Commitment to the pool's originId ordering stored when it was locked, which reveal draws are checked against
+  originCommitment: string | null
+  // Root of the pool as it is in the database now
+  currentRoot: string
+  currentLeafCount: number
+  // Whether the pool still matches its locked root (null while unlocked)
+  intact: boolean | null
+}
+
+export interface OriginProof {
+  originId: number
+  boxTypeId: number
+  leaf: string
+  leafIndex: number
+  proof: string[]
+  // The locked root, or the current root while the pool is unlocked
+  root: string
+  locked: boolean
+  verified: boolean
+}
+
+export class ProvenanceService {
+  async getPoolProvenance(collection: Collection): Promise<PoolProvenance[]> {
+    const commitments = await prisma.originPoolCommitment.findMany({ where: { collectionId: collection.id } })
+    const commitmentByBoxType = new Map(commitments.map(commitment => [commitment.boxTypeId, commitment]))
+    const boxTypeIds = [...new Set([
+      ...collectionService.getBoxTypes(collection).map(boxType => boxType.id),
+      ...commitments.map(commitment => commitment.boxTypeId)
+    ])].sort((a, b) => a - b)
+
+    const pools: PoolProvenance[] = []
+    for (const boxTypeId of boxTypeIds) {
+      const { leaves, layers } = await this.buildPoolTree(prisma, collection.id, boxTypeId)
+      const currentRoot = getMerkleRoot(layers)
+      const commitment = commitmentByBoxType.get(boxTypeId)
+
+      pools.push({
+        boxTypeId,
+        locked: !!commitment,
+        lockedAt: commitment?.lockedAt.toISOString() ?? null,
+        merkleRoot: commitment?.merkleRoot ?? null,
+        leafCount: commitment?.leafCount ?? null,
+        originCommitment: commitment?.originCommitment ?? null,
+        currentRoot,
+        currentLeafCount: leaves.length,
+        intact: commitment ? commitment.merkleRoot === currentRoot : null
+      })
+    }
+    return pools
+  }
+
+  /**
+   * Inclusion proof of an origin against its pool's locked root (or current root while unlocked)
+   */
+  async getOriginProof(collection: Collection, originId: number): Promise<OriginProof | null> {
+    const origin = await prisma.originMetadataInfo.findUnique({
+      where: { collectionId_originId: { collectionId: collection.id, originId } },
+      select: { boxTypeId: true }
+    })
+    if (!origin) {
+      return null
+    }
+
+    const [{ originIds, leaves, layers }, commitment] = await Promise.all([
+      this.buildPoolTree(prisma, collection.id, origin.boxTypeId),
+      prisma.originPoolCommitment.findUnique({
+        where: { collectionId_boxTypeId: { collectionId: collection.id, boxTypeId: origin.boxTypeId } }
+      })
+    ])
+    const leafIndex = originIds.indexOf(originId)
+    const proof = getMerkleProof(layers, leafIndex)
+    const root = commitment?.merkleRoot ?? getMerkleRoot(layers)
+
+    return {
+      originId,
+      boxTypeId: origin.boxTypeId,
+      leaf: leaves[leafIndex],
+      leafIndex,
+      proof,
+      root,
+      locked: !!commitment,
+      verified: verifyMerkleProof(leaves[leafIndex], proof, root)
+    }
+  }
+
+  /**
+   * Box types with origins whose pools are not locked yet, of the given box types or all of the collection's.
+   * Box types without origins have nothing to draw from and are left out.
+   */
+  async getUnlockedBoxTypes(collection: Collection, boxTypeIds?: number[]): Promise<number[]> {
+    const [pools, commitments] = await Promise.all([
+      prisma.originMetadataInfo.findMany({
+        where: { collectionId: collection.id, ...(boxTypeIds && { boxTypeId: { in: boxTypeIds } }) },
+        distinct: ['boxTypeId'],
+        select: { boxTypeId: true }
+      }),
+      prisma.originPoolCommitment.findMany({ where: { collectionId: collection.id }, select: { boxTypeId: true } })
+    ])
+    const locked = new Set(commitments.map(commitment => commitment.boxTypeId))
+    return pools.map(pool => pool.boxTypeId).filter(boxTypeId => !locked.has(boxTypeId)).sort((a, b) => a - b)
+  }
+
+  /**
+   * Store the pool's Merkle root and reject further admin writes to it. Reveals of the box type wait for
+   * the lock; a pool that was drawn from before locks existed can only be locked when every recorded
+   * draw ran over its current ordering.
+   */
+  async lockPool(collection: Collection, boxTypeId: number): Promise<PoolProvenance> {
+    const { commitment, leafCount } = await prisma.$transaction(async tx => {
+      await this.lockCollection(tx, collection.id)
+      const existing = await tx.originPoolCommitment.findUnique({
+        where: { collectionId_boxTypeId: { collectionId: collection.id, boxTypeId } }
+      })
+      if (existing) {
+        throw new Error(`Origin pool for box type ${boxTypeId} is already locked`)
+      }
+
+      const { originIds, leaves, layers } = await this.buildPoolTree(tx, collection.id, boxTypeId)
+      if (leaves.length === 0) {
+        throw new Error(`Origin pool for box type ${boxTypeId} is empty`)
+      }
+      const originCommitment = calculateOriginPoolCommitment(originIds)
+
+      const diverged = await tx.revealEvent.count({
+        where: { collectionId: collection.id, boxTypeId, AND: [{ poolCommitment: { not: null } }, { poolCommitment: { not: originCommitment } }] }
+      })
+      if (diverged > 0) {
+        throw new Error(`Origin pool for box type ${boxTypeId} cannot be locked: ${diverged} reveal(s) drew over another ordering`)
+      }
+
+      const created = await tx.originPoolCommitment.create({
+        data: {
+          collectionId: collection.id,
+          boxTypeId,
+          merkleRoot: getMerkleRoot(layers),
+          leafCount: leaves.length,
+          originCommitment
+        }
+      })
+      return { commitment: created, leafCount: leaves.length }
+    })
+    console.log(`🔒 Locked origin pool of ${collection.slug} box type ${boxTypeId}: ${leafCount} origins, root ${commitment.merkleRoot}`)
+
+    return {
+      boxTypeId,
+      locked: true,
+      lockedAt: commitment.lockedAt.toISOString(),
+      merkleRoot: commitment.merkleRoot,
+      leafCount,
+      originCommitment: commitment.originCommitment,
+      currentRoot: commitment.merkleRoot,
+      currentLeafCount: leafCount,
+      intact: true
+    }
+  }
+
+  /**
+   * Fail when the pool is locked. Holds the collection row lock until `tx` ends,
+   * so the caller's write can't race lockPool.
+   */
+  async assertPoolUnlocked(tx: Prisma.TransactionClient, collectionId: number, boxTypeId: number): Promise<void> {
+    await this.lockCollection(tx, collectionId)
+    const commitment = await tx.originPoolCommitment.findUnique({
+      where: { collectionId_boxTypeId: { collectionId, boxTypeId } }
+    })
+    if (commitment) {
+      throw new Error(`Origin pool for box type ${boxTypeId} is locked`)
+    }
+  }
+
+  /**
+   * Commitment to the pool's originId ordering stored by its lock, which a draw over `originIds` runs
+   * against. Fails while the pool is unlocked or when its ordering no longer matches the commitment.
+   */
+  async assertPoolCommitted(tx: Prisma.TransactionClient, collectionId: number, boxTypeId: number, originIds: number[]): Promise<string> {
+    const commitment = await tx.originPoolCommitment.findUnique({
+      where: { collectionId_boxTypeId: { collectionId, boxTypeId } }
+    })
+    if (!commitment) {
+      throw new Error(`Origin pool for box type ${boxTypeId} is not locked`)
+    }
+
+    const current = calculateOriginPoolCommitment(originIds)
+    if (commitment.originCommitment === null) {
+      // Locked before orderings were committed: take the ordering now if the pool still has its locked root
+      const { layers } = await this.buildPoolTree(tx, collectionId, boxTypeId)
+      if (getMerkleRoot(layers) !== commitment.merkleRoot) {
+        throw new Error(`Origin pool for box type ${boxTypeId} no longer matches its locked root`)
+      }
+      await tx.originPoolCommitment.updateMany({
+        where: { collectionId, boxTypeId, originCommitment: null },
+        data: { originCommitment: current }
+      })
+      return current
+    }
+    if (commitment.originCommitment !== current) {
+      throw new Error(`Origin pool for box type ${boxTypeId} no longer matches its locked commitment`)
+    }
+    return commitment.originCommitment
+  }
+
+  private async lockCollection(tx: Prisma.TransactionClient, collectionId: number): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "collection" WHERE "id" = ${collectionId} FOR UPDATE`
+  }
+
+  private async buildPoolTree(client: Prisma.TransactionClient, collectionId: number, boxTypeId: number) {
+    const origins = await client.originMetadataInfo.findMany({
+      where: { collectionId, boxTypeId },
+      orderBy: { originId: 'asc' },
+      select: { originId: true, metadata: true }
+    })
+    const leaves = origins.map(origin => originLeaf(origin.originId, origin.metadata))
+    return {
+      originIds: origins.map(origin => origin.originId),
+      leaves,
+      layers: buildMerkleLayers(leaves)
+    }
+  }
+}
+
+// Export singleton instance
+export const provenanceService = new ProvenanceService()
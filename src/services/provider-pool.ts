@@ -0,0 +1,325 @@
+/**
+ * RPC Provider Pool
+ *
+ * Spreads JSON-RPC reads over several endpoints. Every endpoint carries a
+ * health score; requests go to the healthiest endpoint first, are retried
+ * with exponential backoff on the same endpoint and then fail over to the
+ * next one. Endpoints that keep failing are cooled down for a while.
+ * Critical reads can run in quorum mode, where the same answer must come
+ * back from several endpoints before it is trusted.
+ */
+
+import { ethers, isError } from 'ethers'
+import { getChainConfig, PROVIDER_POOL_CONFIG } from '../config/contracts'
+
+const MAX_SCORE = 100
+const SUCCESS_REWARD = 5
+const FAILURE_PENALTY = 25
+const FAILURES_BEFORE_COOLDOWN = 3
+
+export interface ProviderPoolOptions {
+  chainId: number
+  maxRetries: number
+  retryBaseDelayMs: number
+  cooldownMs: number
+  requestTimeoutMs: number
+  quorum: number
+}
+
+interface PoolEndpoint {
+  url: string
+  provider: ethers.JsonRpcProvider
+  score: number
+  consecutiveFailures: number
+  cooldownUntil: number
+  totalRequests: number
+  totalFailures: number
+  lastLatencyMs: number | null
+  lastError: string | null
+}
+
+export interface ProviderEndpointStatus {
+  host: string
+  score: number
+  healthy: boolean
+  consecutiveFailures: number
+  cooldownUntil: string | null
+  totalRequests: number
+  totalFailures: number
+  lastLatencyMs: number | null
+  lastError: string | null
+}
+
+/**
+ * Errors that are a property of the request rather than the endpoint:
+ * contract reverts are deterministic, and log queries over a too large
+ * range are rejected by every healthy endpoint with the same limits.
+ * Retrying those elsewhere only burns endpoint health, so they are rethrown
+ * right away for the caller (e.g. BlockRangeScanner) to handle.
+ */
+const REQUEST_ERROR_PATTERN = /block range|range too large|too many (blocks|results)|more than \d+ results|response size (is )?(too large|exceeded)|exceeds? (the )?max(imum)? (block )?range/i
+
+function isRequestError(error: unknown): boolean {
+  if (isError(error, 'CALL_EXCEPTION')) {
+    return true
+  }
+  return errorMessages(error).some(message => REQUEST_ERROR_PATTERN.test(message))
+}
+
+/**
+ * The top-level message plus the JSON-RPC error ethers wraps in
+ * `error.error` / `error.info.error` when it can't map the node's reply
+ */
+function errorMessages(error: unknown): string[] {
+  if (!(error instanceof Error)) {
+    return [String(error)]
+  }
+  const wrapped = error as Error & { error?: { message?: unknown }; info?: { error?: { message?: unknown } } }
+  return [error.message, wrapped.error?.message, wrapped.info?.error?.message]
+    .filter((message): message is string => typeof message === 'string')
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message.slice(0, 200) : String(error)
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return 'invalid-url'
+  }
+}
+
+export class ProviderPool {
+  private endpoints: PoolEndpoint[]
+  private options: ProviderPoolOptions
+
+  constructor(urls: string[], options: ProviderPoolOptions) {
+    this.options = options
+    this.endpoints = urls.map(url => {
+      const request = new ethers.FetchRequest(url)
+      request.timeout = options.requestTimeoutMs
+      // A static network skips eth_chainId detection, which otherwise retries forever on a dead endpoint
+      const network = ethers.Network.from(options.chainId)
+      const provider = new ethers.JsonRpcProvider(request, network, { staticNetwork: network })
+      this.setupErrorHandler(provider)
+
+      return {
+        url,
+        provider,
+        score: MAX_SCORE,
+        consecutiveFailures: 0,
+        cooldownUntil: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+        lastLatencyMs: null,
+        lastError: null
+      }
+    })
+  }
+
+  /**
+   * Number of configured endpoints
+   */
+  size(): number {
+    return this.endpoints.length
+  }
+
+  /**
+   * Quorum configured for critical reads (1 disables quorum mode)
+   */
+  getQuorum(): number {
+    return Math.min(this.options.quorum, this.endpoints.length)
+  }
+
+  /**
+   * All providers in the pool, used to attach long-lived listeners
+   */
+  getProviders(): ethers.JsonRpcProvider[] {
+    return this.endpoints.map(endpoint => endpoint.provider)
+  }
+
+  /**
+   * The healthiest provider right now
+   */
+  getPrimary(): ethers.JsonRpcProvider {
+    const [endpoint] = this.rankEndpoints()
+    if (!endpoint) {
+      throw new Error('Provider pool has no endpoints configured')
+    }
+    return endpoint.provider
+  }
+
+  /**
+   * Run a read against the healthiest endpoint, retrying and failing over as needed
+   */
+  async execute<T>(fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    const ranked = this.rankEndpoints()
+    if (ranked.length === 0) {
+      throw new Error('Provider pool has no endpoints configured')
+    }
+
+    let lastError: unknown
+    for (const endpoint of ranked) {
+      try {
+        return await this.executeOnEndpoint(endpoint, fn)
+      } catch (error) {
+        if (isRequestError(error)) {
+          throw error
+        }
+        lastError = error
+        console.warn(`⚠️ RPC endpoint ${hostOf(endpoint.url)} failed, trying next endpoint: ${describeError(error)}`)
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Run a read on several endpoints and only return an answer that at least
+   * `quorum` endpoints agree on. `key` turns a result into a comparable string.
+   */
+  async executeQuorum<T>(fn: (provider: ethers.JsonRpcProvider) => Promise<T>, key: (result: T) => string): Promise<T> {
+    const quorum = this.getQuorum()
+    if (quorum <= 1) {
+      return this.execute(fn)
+    }
+
+    const ranked = this.rankEndpoints()
+    const settled = await Promise.allSettled(ranked.map(endpoint => this.executeOnEndpoint(endpoint, fn)))
+
+    const tally = new Map<string, { result: T; count: number }>()
+    for (const outcome of settled) {
+      if (outcome.status !== 'fulfilled') {
+        // A rejected request fails the same way everywhere; don't report it as disagreement
+        if (isRequestError(outcome.reason)) {
+          throw outcome.reason
+        }
+        continue
+      }
+      const resultKey = key(outcome.value)
+      const entry = tally.get(resultKey) ?? { result: outcome.value, count: 0 }
+      entry.count++
+      tally.set(resultKey, entry)
+    }
+
+    for (const entry of tally.values()) {
+      if (entry.count >= quorum) {
+        return entry.result
+      }
+    }
+
+    const answers = [...tally.entries()].map(([resultKey, entry]) => `${resultKey} (${entry.count})`).join(', ')
+    throw new Error(`RPC quorum of ${quorum} not reached across ${ranked.length} endpoints: ${answers || 'no successful responses'}`)
+  }
+
+  /**
+   * Health report for every endpoint, without credentials from the URL
+   */
+  getStatus(): ProviderEndpointStatus[] {
+    const now = Date.now()
+    return this.endpoints.map(endpoint => ({
+      host: hostOf(endpoint.url),
+      score: endpoint.score,
+      healthy: endpoint.cooldownUntil <= now,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : null,
+      totalRequests: endpoint.totalRequests,
+      totalFailures: endpoint.totalFailures,
+      lastLatencyMs: endpoint.lastLatencyMs,
+      lastError: endpoint.lastError
+    }))
+  }
+
+  private setupErrorHandler(provider: ethers.JsonRpcProvider): void {
+    // Suppress filter not found errors - these are expected when filters expire
+    // ethers.js will automatically recreate the filter on next poll
+    provider.on('error', (error: unknown) => {
+      const err = error as { error?: { message?: string; code?: number }; code?: string }
+      if (err?.error?.message?.includes('filter not found') || 
+          (err?.code === 'UNKNOWN_ERROR' && err?.error?.code === -32000)) {
+        // Silently ignore filter expiration errors - this is normal behavior
+        return
+      }
+      // Log other errors
+      console.error('Provider error:', error)
+    })
+  }
+
+  /**
+   * Endpoints ordered by health; cooled-down endpoints are kept as a last resort
+   */
+  private rankEndpoints(): PoolEndpoint[] {
+    const now = Date.now()
+    const byScore = (a: PoolEndpoint, b: PoolEndpoint) => b.score - a.score
+    const available = this.endpoints.filter(endpoint => endpoint.cooldownUntil <= now).sort(byScore)
+    const coolingDown = this.endpoints.filter(endpoint => endpoint.cooldownUntil > now).sort(byScore)
+    return [...available, ...coolingDown]
+  }
+
+  private async executeOnEndpoint<T>(endpoint: PoolEndpoint, fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.options.retryBaseDelayMs * 2 ** (attempt - 1)))
+      }
+
+      const startedAt = Date.now()
+      endpoint.totalRequests++
+      try {
+        const result = await fn(endpoint.provider)
+        this.recordSuccess(endpoint, Date.now() - startedAt)
+        return result
+      } catch (error) {
+        lastError = error
+        if (isRequestError(error)) {
+          // Not the endpoint's fault; don't retry here or hurt its score
+          throw error
+        }
+        this.recordFailure(endpoint, error)
+      }
+    }
+
+    throw lastError
+  }
+
+  private recordSuccess(endpoint: PoolEndpoint, latencyMs: number): void {
+    endpoint.score = Math.min(MAX_SCORE, endpoint.score + SUCCESS_REWARD)
+    endpoint.consecutiveFailures = 0
+    endpoint.cooldownUntil = 0
+    endpoint.lastLatencyMs = latencyMs
+  }
+
+  private recordFailure(endpoint: PoolEndpoint, error: unknown): void {
+    endpoint.score = Math.max(0, endpoint.score - FAILURE_PENALTY)
+    endpoint.consecutiveFailures++
+    endpoint.totalFailures++
+    endpoint.lastError = describeError(error)
+
+    if (endpoint.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+      endpoint.cooldownUntil = Date.now() + this.options.cooldownMs
+      console.warn(`⚠️ RPC endpoint ${hostOf(endpoint.url)} cooling down for ${this.options.cooldownMs}ms after ${endpoint.consecutiveFailures} failures`)
+    }
+  }
+}
+
+const providerPools = new Map<number, ProviderPool>()
+
+/**
+ * Pool for a chain, shared by every BlockchainService on that chain. Chains
+ * without configured RPC endpoints get an empty pool.
+ */
+export function getProviderPool(chainId: number): ProviderPool {
+  let pool = providerPools.get(chainId)
+  if (!pool) {
+    pool = new ProviderPool(getChainConfig(chainId).rpcUrls, {
+      ...PROVIDER_POOL_CONFIG,
+      chainId
+    })
+    providerPools.set(chainId, pool)
+  }
+  return pool
+}
+
@@ -0,0 +1,93 @@
+/**
+ * Reveal Audit Log
+ *
+ * Every change to a token's origin is written to reveal_event inside the
+ * transaction making it: holder reveals (single, batch and mass) with the
+ * owner, signer and signature that authorized them, the allocation policy
+ * the origin was drawn under and the seed, attempt and pool ordering of the
+ * draw, and admin revocations and reassignments with the admin who made
+ * them, the origin they replaced and the reason given. A reveal lost because a reorg dropped the
+ * token's mint is recorded as well.
+ */
+
+import { Collection, Prisma, RevealEvent } from '@prisma/client'
+import { getAddress } from 'viem'
+import prisma from '../config/database'
+
+export type RevealEventAction = 'reveal' | 'batch_reveal' | 'mass_reveal' | 'revoke' | 'reassign' | 'reorg_rollback'
+
+// Who asked for a reveal; owner, signer and signature are null for mass reveals
+export interface RevealAuditContext {
+  action: 'reveal' | 'batch_reveal' | 'mass_reveal'
+  owner: string | null
+  signer: string | null
+  // null when a holder session stood in for the signature
+  signature: string | null
+}
+
+export interface RevealEventEntry {
+  action: RevealEventAction
+  tokenId: number
+  boxTypeId: number
+  owner?: string | null
+  signer?: string | null
+  signature?: string | null
+  originId: number | null
+  previousOriginId?: number | null
+  policy?: string | null
+  // Draw of a holder reveal, replayed by GET /metadata/reveal/verify/:tokenId
+  randomSeed?: string | null
+  drawAttempt?: number | null
+  poolCommitment?: string | null
+  // Admin behind a revocation or reassignment
+  actor?: string | null
+  reason?: string | null
+}
+
+export class RevealAuditService {
+  /**
+   * Record a change to a token's origin, inside the transaction making it
+   */
+  async record(tx: Prisma.TransactionClient, collection: Collection, entry: RevealEventEntry): Promise<void> {
+    await tx.revealEvent.create({
+      data: {
+        collectionId: collection.id,
+        tokenId: entry.tokenId,
+        boxTypeId: entry.boxTypeId,
+        action: entry.action,
+        owner: entry.owner ? getAddress(entry.owner) : null,
+        signer: entry.signer ? getAddress(entry.signer) : null,
+        signature: entry.signature ?? null,
+        originId: entry.originId,
+        previousOriginId: entry.previousOriginId ?? null,
+        policy: entry.policy ?? null,
+        randomSeed: entry.randomSeed ?? null,
+        drawAttempt: entry.drawAttempt ?? null,
+        poolCommitment: entry.poolCommitment ?? null,
+        actor: entry.actor ?? null,
+        reason: entry.reason ?? null
+      }
+    })
+  }
+
+  async listEvents(
+    collection: Collection,
+    filter: { tokenId?: number; originId?: number; action?: string },
+    paging: { limit: number; offset: number }
+  ): Promise<{ total: number; items: RevealEvent[] }> {
+    const where: Prisma.RevealEventWhereInput = {
+      collectionId: collection.id,
+      ...(filter.tokenId !== undefined && { tokenId: filter.tokenId }),
+      ...(filter.originId !== undefined && { OR: [{ originId: filter.originId }, { previousOriginId: filter.originId }] }),
+      ...(filter.action !== undefined && { action: filter.action })
+    }
+    const [total, items] = await Promise.all([
+      prisma.revealEvent.count({ where }),
+      prisma.revealEvent.findMany({ where, orderBy: { id: 'desc' }, take: paging.limit, skip: paging.offset })
+    ])
+    return { total, items }
+  }
+}
+
+// Export singleton instance
+export const revealAuditService = new RevealAuditService()
@@ -0,0 +1,276 @@
+/**
+ * Reveal Authorization
+ *
+ * A reveal is authorized by the token owner, or a wallet the owner
+ * delegated to, signing EIP-712 typed data that binds the chain, the
+ * contract, the token, the owner, a server-issued nonce and a deadline.
+ * Contract wallets sign through EIP-1271 (see `holder-authorization.ts`).
+ * `GET /metadata/reveal/message` issues the nonce for the signing wallet and
+ * returns the typed data; the nonce is consumed inside the reveal
+ * transaction, so a signature can be used once and a failed reveal leaves it
+ * usable until the deadline. A batch authorization (`BatchReveal`) binds a
+ * list of token IDs of one owner instead of a single token.
+ */
+
+import { Collection, Prisma } from '@prisma/client'
+import { ethers, TypedDataDomain, TypedDataField } from 'ethers'
+import prisma from '../config/database'
+import { REVEAL_AUTH_CONFIG } from '../config/contracts'
+import { AuthorizationPath, holderAuthorizationService, SignatureType } from './holder-authorization'
+
+export const REVEAL_TYPES: Record<string, TypedDataField[]> = {
+  Reveal: [
+    { name: 'chainId', type: 'uint256' },
+    { name: 'contract', type: 'address' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'owner', type: 'address' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+}
+
+export const BATCH_REVEAL_TYPES: Record<string, TypedDataField[]> = {
+  BatchReveal: [
+    { name: 'chainId', type: 'uint256' },
+    { name: 'contract', type: 'address' },
+    { name: 'owner', type: 'address' },
+    { name: 'tokenIds', type: 'uint256[]' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+}
+
+export interface RevealTypedData {
+  domain: TypedDataDomain
+  types: Record<string, TypedDataField[]>
+  primaryType: 'Reveal'
+  message: {
+    chainId: number
+    contract: string
+    tokenId: number
+    owner: string
+    nonce: string
+    // Unix seconds
+    deadline: number
+  }
+}
+
+export interface BatchRevealTypedData {
+  domain: TypedDataDomain
+  types: Record<string, TypedDataField[]>
+  primaryType: 'BatchReveal'
+  message: {
+    chainId: number
+    contract: string
+    owner: string
+    tokenIds: number[]
+    nonce: string
+    // Unix seconds
+    deadline: number
+  }
+}
+
+export type RevealSignatureCheck =
+  | { valid: true; nonceId: number; signer: string; path: AuthorizationPath; signatureType: SignatureType }
+  | { valid: false; error: string }
+
+// Delegation is checked per token when the batch is revealed, as delegations can be limited to single tokens
+export type BatchRevealSignatureCheck =
+  | { valid: true; nonceId: number; owner: string; signer: string; tokenIds: number[]; signatureType: SignatureType }
+  | { valid: false; error: string }
+
+export class RevealAuthService {
+  /**
+   * Issue a nonce for the signer (the owner or a delegate) to reveal the token and return the typed data to sign
+   */
+  async createRevealRequest(collection: Collection, tokenId: number, owner: string, signer: string): Promise<RevealTypedData> {
+    const now = new Date()
+    const deadline = new Date(now.getTime() + REVEAL_AUTH_CONFIG.ttlSeconds * 1000)
+
+    // Expired nonces can never be used; drop them while issuing new ones
+    await prisma.revealNonce.deleteMany({ where: { usedAt: null, deadline: { lt: now } } })
+
+    const revealNonce = await prisma.revealNonce.create({
+      data: {
+        collectionId: collection.id,
+        tokenId,
+        owner: ethers.getAddress(owner),
+        signer: ethers.getAddress(signer),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+        deadline
+      }
+    })
+    return this.buildTypedData(collection, tokenId, revealNonce.owner, revealNonce.nonce, revealNonce.deadline)
+  }
+
+  /**
+   * Check that the wallet the nonce was issued to signed its typed data and may still act for the owner.
+   * Does not consume the nonce.
+   */
+  async verifyRevealSignature(
+    collection: Collection,
+    tokenId: number,
+    owner: string,
+    nonce: string,
+    signature: string
+  ): Promise<RevealSignatureCheck> {
+    const revealNonce = await prisma.revealNonce.findUnique({ where: { nonce } })
+    if (!revealNonce || revealNonce.collectionId !== collection.id || revealNonce.tokenId !== tokenId) {
+      return { valid: false, error: 'Unknown reveal nonce for this token' }
+    }
+    if (revealNonce.usedAt) {
+      return { valid: false, error: 'Reveal nonce already used' }
+    }
+    if (revealNonce.deadline.getTime() < Date.now()) {
+      return { valid: false, error: 'Reveal authorization expired' }
+    }
+    if (revealNonce.owner !== ethers.getAddress(owner)) {
+      // The token changed hands after the typed data was issued
+      return { valid: false, error: 'Reveal authorization was issued to a different owner' }
+    }
+
+    const path = await holderAuthorizationService.resolvePath(collection, tokenId, revealNonce.owner, revealNonce.signer)
+    if (!path) {
+      // The delegation was revoked after the typed data was issued
+      return { valid: false, error: 'Signer is no longer a delegate of the token owner' }
+    }
+
+    const typedData = this.buildTypedData(collection, tokenId, revealNonce.owner, nonce, revealNonce.deadline)
+    const check = await this.checkSignature(collection, revealNonce.signer, typedData, signature)
+    if (!check.valid) {
+      return check
+    }
+    return { valid: true, nonceId: revealNonce.id, signer: revealNonce.signer, path, signatureType: check.signatureType }
+  }
+
+  /**
+   * Issue a nonce for the signer to reveal the owner's tokens in one batch and return the typed data to sign
+   */
+  async createBatchRevealRequest(collection: Collection, tokenIds: number[], owner: string, signer: string): Promise<BatchRevealTypedData> {
+    const now = new Date()
+    const deadline = new Date(now.getTime() + REVEAL_AUTH_CONFIG.ttlSeconds * 1000)
+
+    await prisma.revealNonce.deleteMany({ where: { usedAt: null, deadline: { lt: now } } })
+
+    const revealNonce = await prisma.revealNonce.create({
+      data: {
+        collectionId: collection.id,
+        tokenId: null,
+        tokenIds,
+        owner: ethers.getAddress(owner),
+        signer: ethers.getAddress(signer),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+        deadline
+      }
+    })
+    return this.buildBatchTypedData(collection, revealNonce.tokenIds, revealNonce.owner, revealNonce.nonce, revealNonce.deadline)
+  }
+
+  /**
+   * Check that the wallet the batch nonce was issued to signed its typed data. Does not consume the nonce.
+   */
+  async verifyBatchRevealSignature(collection: Collection, nonce: string, signature: string): Promise<BatchRevealSignatureCheck> {
+    const revealNonce = await prisma.revealNonce.findUnique({ where: { nonce } })
+    if (!revealNonce || revealNonce.collectionId !== collection.id || revealNonce.tokenId !== null) {
+      return { valid: false, error: 'Unknown batch reveal nonce' }
+    }
+    if (revealNonce.usedAt) {
+      return { valid: false, error: 'Reveal nonce already used' }
+    }
+    if (revealNonce.deadline.getTime() < Date.now()) {
+      return { valid: false, error: 'Reveal authorization expired' }
+    }
+
+    const typedData = this.buildBatchTypedData(collection, revealNonce.tokenIds, revealNonce.owner, nonce, revealNonce.deadline)
+    const check = await this.checkSignature(collection, revealNonce.signer, typedData, signature)
+    if (!check.valid) {
+      return check
+    }
+    return {
+      valid: true,
+      nonceId: revealNonce.id,
+      owner: revealNonce.owner,
+      signer: revealNonce.signer,
+      tokenIds: revealNonce.tokenIds,
+      signatureType: check.signatureType
+    }
+  }
+
+  /**
+   * Mark the nonce used inside the reveal transaction
+   */
+  async consumeNonce(tx: Prisma.TransactionClient, nonceId: number): Promise<void> {
+    const consumed = await tx.revealNonce.updateMany({
+      where: { id: nonceId, usedAt: null },
+      data: { usedAt: new Date() }
+    })
+    if (consumed.count === 0) {
+      throw new Error('Reveal nonce already used')
+    }
+  }
+
+  private async checkSignature(
+    collection: Collection,
+    signer: string,
+    typedData: RevealTypedData | BatchRevealTypedData,
+    signature: string
+  ): Promise<{ valid: true; signatureType: SignatureType } | { valid: false; error: string }> {
+    let hash: string
+    try {
+      hash = ethers.TypedDataEncoder.hash(typedData.domain, typedData.types, typedData.message)
+      ethers.getBytes(signature)
+    } catch {
+      return { valid: false, error: 'Invalid signature format' }
+    }
+    const signatureType = await holderAuthorizationService.verifySignature(collection, signer, hash, signature)
+    if (!signatureType) {
+      return { valid: false, error: 'Signature does not match the authorized signer' }
+    }
+    return { valid: true, signatureType }
+  }
+
+  private buildDomain(collection: Collection): TypedDataDomain {
+    return {
+      name: REVEAL_AUTH_CONFIG.domainName,
+      version: REVEAL_AUTH_CONFIG.domainVersion,
+      chainId: collection.chainId,
+      verifyingContract: ethers.getAddress(collection.address)
+    }
+  }
+
+  private buildBatchTypedData(collection: Collection, tokenIds: number[], owner: string, nonce: string, deadline: Date): BatchRevealTypedData {
+    return {
+      domain: this.buildDomain(collection),
+      types: BATCH_REVEAL_TYPES,
+      primaryType: 'BatchReveal',
+      message: {
+        chainId: collection.chainId,
+        contract: ethers.getAddress(collection.address),
+        owner,
+        tokenIds,
+        nonce,
+        deadline: Math.floor(deadline.getTime() / 1000)
+      }
+    }
+  }
+
+  private buildTypedData(collection: Collection, tokenId: number, owner: string, nonce: string, deadline: Date): RevealTypedData {
+    const contract = ethers.getAddress(collection.address)
+    return {
+      domain: this.buildDomain(collection),
+      types: REVEAL_TYPES,
+      primaryType: 'Reveal',
+      message: {
+        chainId: collection.chainId,
+        contract,
+        tokenId,
+        owner,
+        nonce,
+        deadline: Math.floor(deadline.getTime() / 1000)
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const revealAuthService = new RevealAuthService()
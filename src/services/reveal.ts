@@ -0,0 +1,312 @@
+/**
+ * Reveals
+ *
+ * A reveal locks and re-reads the token inside a database transaction, so
+ * concurrent reveals of one token (the public route, a batch and a mass
+ * reveal overlapping) run one after the other and all but the first find it
+ * already revealed. It then draws and claims its origin from the box type's
+ * locked pool (see `origin-assignment.ts`) and records who authorized it.
+ * A batch reveal runs all of its tokens in one transaction, in ascending
+ * token order so the draws are reproducible. Tokens that cannot be revealed
+ * (not owned, already revealed, an unlocked, changed or exhausted box type
+ * pool) are reported per token while the rest of the batch goes ahead; any other error rolls the
+ * whole batch back. Admins can revoke a reveal or reassign it to another
+ * free origin of the box type; reveals and admin changes alike are written
+ * to the reveal audit log (see `reveal-audit.ts`), and an origin stays
+ * marked assigned while any token holds it.
+ */
+
+import { Collection, Prisma } from '@prisma/client'
+import { getAddress } from 'viem'
+import prisma from '../config/database'
+import { REVEAL_BATCH_CONFIG } from '../config/contracts'
+import { getBlockchainService } from './blockchain'
+import { originAssignmentService } from './origin-assignment'
+import { revealAuthService } from './reveal-auth'
+import { AuthorizationPath, holderAuthorizationService, SignatureType } from './holder-authorization'
+import { allocationPolicyService } from './allocation-policy'
+import { RevealAuditContext, revealAuditService } from './reveal-audit'
+
+export interface BatchRevealAuthorization {
+  owner: string
+  signer: string
+  // 'session' when a holder session stood in for the signature
+  signatureType: SignatureType | 'session'
+  sessionId?: number
+  // Nonce of the signed batch authorization, consumed with the reveal
+  nonceId?: number
+  // Signed batch authorization, recorded in the reveal audit log
+  signature?: string
+}
+
+export type TokenRevealResult =
+  | { tokenId: number; revealed: true; originId: number; metadataId: number | null; path: AuthorizationPath }
+  | { tokenId: number; revealed: false; error: string }
+
+export interface BatchRevealResult {
+  owner: string
+  signer: string
+  signatureType: SignatureType | 'session'
+  revealed: number
+  failed: number
+  results: TokenRevealResult[]
+}
+
+export interface RevealChange {
+  tokenId: number
+  boxTypeId: number
+  // null once revoked
+  originId: number | null
+  previousOriginId: number
+}
+
+/**
+ * Failures that only affect their own token; reported instead of aborting the batch
+ */
+export function isTokenRevealError(error: unknown): error is Error {
+  return error instanceof Error && (
+    error.message.endsWith('not found') ||
+    error.message.endsWith('already revealed') ||
+    error.message.startsWith('Origin pool') ||
+    error.message.startsWith('No available metadata')
+  )
+}
+
+export class RevealService {
+  /**
+   * Seed reveals draw from: the collection's current seed, or null before one is set
+   */
+  async getCurrentSeed(collection: Collection): Promise<bigint | null> {
+    const seedInfo = await prisma.randomSeedInfo.findFirst({
+      where: { collectionId: collection.id },
+      orderBy: { syncedAt: 'desc' }
+    })
+    return seedInfo ? BigInt(seedInfo.randomSeed) : null
+  }
+
+  /**
+   * Reveal one token inside the caller's transaction and record it in the audit log
+   */
+  async revealToken(
+    tx: Prisma.TransactionClient,
+    collection: Collection,
+    tokenId: number,
+    randomSeed: bigint,
+    audit: RevealAuditContext
+  ): Promise<{ originId: number; attempt: number; tier: string; metadataId: number | null }> {
+    // A concurrent reveal of the token waits here until this one commits, then reads it as revealed
+    await tx.$queryRaw`SELECT "token_id" FROM "nft_info" WHERE "collection_id" = ${collection.id} AND "token_id" = ${tokenId} FOR UPDATE`
+    const nftInfo = await tx.nftInfo.findUnique({
+      where: { collectionId_tokenId: { collectionId: collection.id, tokenId } }
+    })
+    if (!nftInfo) {
+      throw new Error(`Token ${tokenId} not found`)
+    }
+    if (nftInfo.originId !== 0) {
+      throw new Error(`Token ${tokenId} already revealed`)
+    }
+
+    // Deterministic draw from the committed seed under the collection's allocation policy, see GET /metadata/reveal/verify/:tokenId
+    const { originId, attempt, tier, poolCommitment } = await originAssignmentService.assignOrigin(tx, collection, tokenId, nftInfo.boxTypeId, randomSeed)
+    await revealAuditService.record(tx, collection, {
+      ...audit,
+      tokenId,
+      boxTypeId: nftInfo.boxTypeId,
+      originId,
+      policy: allocationPolicyService.getSettings(collection).policy,
+      randomSeed: randomSeed.toString(),
+      drawAttempt: attempt,
+      poolCommitment
+    })
+    return { originId, attempt, tier, metadataId: nftInfo.metadataId }
+  }
+
+  /**
+   * Unrevealed tokens the owner holds on-chain, lowest token IDs first
+   */
+  async getRevealableTokenIds(collection: Collection, owner: string): Promise<number[]> {
+    const owned = await getBlockchainService(collection).getTokensOfOwner(getAddress(owner))
+    const tokens = await prisma.nftInfo.findMany({
+      where: { collectionId: collection.id, tokenId: { in: owned }, originId: 0 },
+      orderBy: { tokenId: 'asc' },
+      select: { tokenId: true }
+    })
+    return tokens.map(token => token.tokenId)
+  }
+
+  /**
+   * Reveal the owner's tokens in one transaction and report the outcome per token
+   */
+  async revealBatch(collection: Collection, tokenIds: number[], authorization: BatchRevealAuthorization): Promise<BatchRevealResult> {
+    const randomSeed = await this.getCurrentSeed(collection)
+    if (randomSeed === null) {
+      throw new Error('Reveal is not open yet')
+    }
+
+    const owner = getAddress(authorization.owner)
+    const signer = getAddress(authorization.signer)
+    const owned = new Set(await getBlockchainService(collection).getTokensOfOwner(owner))
+
+    // Ownership and delegation are checked before the transaction, as they need no locks
+    const results = new Map<number, TokenRevealResult>()
+    const candidates: Array<{ tokenId: number; path: AuthorizationPath }> = []
+    for (const tokenId of [...new Set(tokenIds)].sort((a, b) => a - b)) {
+      if (!owned.has(tokenId)) {
+        results.set(tokenId, { tokenId, revealed: false, error: 'Token is not held by the owner' })
+        continue
+      }
+      const path = await holderAuthorizationService.resolvePath(collection, tokenId, owner, signer)
+      if (!path) {
+        results.set(tokenId, { tokenId, revealed: false, error: 'Signer is not the owner or a delegate of the owner for this token' })
+        continue
+      }
+      candidates.push({ tokenId, path })
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (authorization.nonceId !== undefined) {
+        await revealAuthService.consumeNonce(tx, authorization.nonceId)
+      }
+
+      for (const { tokenId, path } of candidates) {
+        try {
+          const { originId, metadataId } = await this.revealToken(tx, collection, tokenId, randomSeed, {
+            action: 'batch_reveal',
+            owner,
+            signer,
+            signature: authorization.signature ?? null
+          })
+          await holderAuthorizationService.record(tx, collection, {
+            action: 'batch_reveal',
+            tokenId,
+            owner,
+            signer,
+            path,
+            signatureType: authorization.signatureType,
+            sessionId: authorization.sessionId
+          })
+          results.set(tokenId, { tokenId, revealed: true, originId, metadataId, path })
+        } catch (error) {
+          if (!isTokenRevealError(error)) {
+            throw error
+          }
+          results.set(tokenId, { tokenId, revealed: false, error: error.message })
+        }
+      }
+    }, { timeout: REVEAL_BATCH_CONFIG.transactionTimeoutMs })
+
+    const ordered = [...results.values()].sort((a, b) => a.tokenId - b.tokenId)
+    const revealed = ordered.filter(result => result.revealed).length
+    console.log(`🎁 Batch reveal for ${owner} on ${collection.slug}: ${revealed} revealed, ${ordered.length - revealed} failed`)
+
+    return {
+      owner,
+      signer,
+      signatureType: authorization.signatureType,
+      revealed,
+      failed: ordered.length - revealed,
+      results: ordered
+    }
+  }
+
+  /**
+   * Return a revealed token to unrevealed, freeing its origin for other reveals. Under the uniform and
+   * stratified policies the draw depends only on the seed, the token and which origins are taken, so
+   * revealing the token again lands on the same origin while it is free and the origins its first draw
+   * passed over are still taken. A reserved draw also depends on the time of the reveal and may differ.
+   */
+  async revokeReveal(collection: Collection, tokenId: number, actor: string, reason: string | null): Promise<RevealChange> {
+    const change = await prisma.$transaction(async (tx) => {
+      const nftInfo = await this.findRevealedToken(tx, collection, tokenId)
+      await this.setOrigin(tx, collection, tokenId, nftInfo.originId, 0)
+      await originAssignmentService.releaseOrigin(tx, collection.id, nftInfo.originId, tokenId)
+      await revealAuditService.record(tx, collection, {
+        action: 'revoke',
+        tokenId,
+        boxTypeId: nftInfo.boxTypeId,
+        originId: null,
+        previousOriginId: nftInfo.originId,
+        actor,
+        reason
+      })
+      return { tokenId, boxTypeId: nftInfo.boxTypeId, originId: null, previousOriginId: nftInfo.originId }
+    })
+    console.log(`↩️ ${actor} revoked reveal of token ${tokenId} on ${collection.slug} (origin ${change.previousOriginId} released)`)
+    return change
+  }
+
+  /**
+   * Move a revealed token to another free origin of its box type
+   */
+  async reassignReveal(collection: Collection, tokenId: number, originId: number, actor: string, reason: string | null): Promise<RevealChange> {
+    const change = await prisma.$transaction(async (tx) => {
+      const nftInfo = await this.findRevealedToken(tx, collection, tokenId)
+      if (nftInfo.originId === originId) {
+        throw new Error(`Token ${tokenId} already holds origin ${originId}`)
+      }
+
+      const origin = await tx.originMetadataInfo.findUnique({
+        where: { collectionId_originId: { collectionId: collection.id, originId } },
+        select: { boxTypeId: true }
+      })
+      if (!origin) {
+        throw new Error(`Origin ${originId} not found`)
+      }
+      if (origin.boxTypeId !== nftInfo.boxTypeId) {
+        throw new Error(`Origin ${originId} is not in box type ${nftInfo.boxTypeId} of token ${tokenId}`)
+      }
+
+      const claimed = await tx.originMetadataInfo.updateMany({
+        where: { collectionId: collection.id, originId, isAssigned: false },
+        data: { isAssigned: true }
+      })
+      if (claimed.count === 0) {
+        throw new Error(`Origin ${originId} is already assigned`)
+      }
+
+      await this.setOrigin(tx, collection, tokenId, nftInfo.originId, originId)
+      await originAssignmentService.releaseOrigin(tx, collection.id, nftInfo.originId, tokenId)
+      await revealAuditService.record(tx, collection, {
+        action: 'reassign',
+        tokenId,
+        boxTypeId: nftInfo.boxTypeId,
+        originId,
+        previousOriginId: nftInfo.originId,
+        actor,
+        reason
+      })
+      return { tokenId, boxTypeId: nftInfo.boxTypeId, originId, previousOriginId: nftInfo.originId }
+    })
+    console.log(`🔀 ${actor} reassigned token ${tokenId} on ${collection.slug} from origin ${change.previousOriginId} to ${originId}`)
+    return change
+  }
+
+  private async findRevealedToken(tx: Prisma.TransactionClient, collection: Collection, tokenId: number) {
+    const nftInfo = await tx.nftInfo.findUnique({
+      where: { collectionId_tokenId: { collectionId: collection.id, tokenId } }
+    })
+    if (!nftInfo) {
+      throw new Error(`Token ${tokenId} not found`)
+    }
+    if (nftInfo.originId === 0) {
+      throw new Error(`Token ${tokenId} is not revealed`)
+    }
+    return nftInfo
+  }
+
+  /**
+   * Change the token's origin only if no concurrent change got there first
+   */
+  private async setOrigin(tx: Prisma.TransactionClient, collection: Collection, tokenId: number, fromOriginId: number, toOriginId: number): Promise<void> {
+    const updated = await tx.nftInfo.updateMany({
+      where: { collectionId: collection.id, tokenId, originId: fromOriginId },
+      data: { originId: toOriginId }
+    })
+    if (updated.count === 0) {
+      throw new Error(`Token ${tokenId} changed concurrently, retry`)
+    }
+  }
+}
+
+// Export singleton instance
+export const revealService = new RevealService()
@@ -3,28 +3,127 @@
  * 
  * This service provides functionality to periodically check for random seed
  * updates from the blockchain and automatically stop when found.
+ *
+ * When several API instances run side by side only the one holding the
+ * scheduler lease runs indexers and mapping jobs; the others serve requests
+ * and take over when the leader goes away.
  */
 
-import { BlockchainService } from './blockchain'
+import { Collection } from '@prisma/client'
+import { RandomSeedLog, getBlockchainService } from './blockchain'
 import { MappingService } from './mapping'
-import { nftSyncService } from './nft-sync'
+import { NftSyncService, getNftSyncService } from './nft-sync'
+import { collectionService } from './collection'
+import { LeaderElection, LeaderStatus } from './leader-election'
+import { SeedLifecycleState, seedLifecycleService } from './seed-lifecycle'
+import { delegationService } from './delegation'
+import { massRevealService } from './mass-reveal'
+import { LEADER_ELECTION_CONFIG } from '../config/contracts'
 import prisma from '../config/database'
 
+const SCHEDULER_LEASE_NAME = 'scheduler'
+
 export class SchedulerService {
-  private blockchainService: BlockchainService
   private mappingService: MappingService
   private intervalId: NodeJS.Timeout | null = null
   private nftSyncIntervalId: NodeJS.Timeout | null = null
+  // Sync services started by this scheduler, by collection ID
+  private nftSyncServices = new Map<number, NftSyncService>()
   private isRunning = false
   private isNftSyncRunning = false
   private checkInterval: number
   private nftSyncInterval: number
+  private leaderElection: LeaderElection
 
   constructor(checkIntervalMs: number = 30000, nftSyncIntervalMs: number = 60000) { // Default: 30s for random seed, 60s for NFT sync
-    this.blockchainService = new BlockchainService()
     this.mappingService = new MappingService()
     this.checkInterval = checkIntervalMs
     this.nftSyncInterval = nftSyncIntervalMs
+    this.leaderElection = new LeaderElection({
+      ...LEADER_ELECTION_CONFIG,
+      name: SCHEDULER_LEASE_NAME
+    }, {
+      onElected: () => this.startLeaderJobs(),
+      onDemoted: async () => {
+        this.stopRandomSeedMonitoring()
+        this.stopNftSyncMonitoring()
+      }
+    })
+  }
+
+  /**
+   * Join the leader election; background jobs start once this instance holds the lease
+   */
+  async start(): Promise<void> {
+    await this.leaderElection.start()
+  }
+
+  /**
+   * Stop background jobs and release the lease
+   */
+  async stop(): Promise<void> {
+    await this.leaderElection.stop()
+  }
+
+  /**
+   * Whether this instance currently runs the background jobs
+   */
+  isLeader(): boolean {
+    return this.leaderElection.isLeaderInstance()
+  }
+
+  /**
+   * Pick up the seed lifecycles where the previous leader left them, then start indexing
+   */
+  private async startLeaderJobs(): Promise<void> {
+    await this.startRandomSeedMonitoring()
+
+    console.log('🎯 Starting NFT Transfer event monitoring...')
+    await this.startNftSyncMonitoring()
+  }
+
+  /**
+   * Advance every collection's seed lifecycle now and then on every check interval
+   */
+  async startRandomSeedMonitoring(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Random seed monitoring is already running')
+      return
+    }
+
+    console.log(`🎲 Starting random seed monitoring (checking every ${this.checkInterval}ms)`)
+    this.isRunning = true
+    this.intervalId = setInterval(async () => {
+      await this.checkSeedLifecycles()
+    }, this.checkInterval)
+    await this.checkSeedLifecycles()
+  }
+
+  private async checkSeedLifecycles(): Promise<void> {
+    let collections: Collection[]
+    try {
+      collections = await collectionService.listCollections()
+    } catch (error) {
+      console.error('❌ Error loading collections for the seed lifecycle check:', error)
+      return
+    }
+
+    for (const collection of collections) {
+      try {
+        if (!getBlockchainService(collection).isServiceConfigured()) {
+          continue
+        }
+        await seedLifecycleService.advance(collection)
+        // Not awaited: a long mass reveal must not hold back the other collections' lifecycles
+        void massRevealService.runDueJobs(collection, () => this.isLeader()).catch(error => {
+          console.error(`❌ Error running mass reveal jobs for ${collection.slug}:`, error)
+        })
+      } catch (error) {
+        // Keep going so one unreachable chain does not hold back the collections on other chains
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        console.warn(`⚠️ Seed lifecycle check failed for ${collection.slug} on chain ${collection.chainId}:`, errorMessage)
+      }
+    }
   }
 
   /**
@@ -54,12 +153,14 @@ export class SchedulerService {
     checkInterval: number;
     isNftSyncRunning: boolean;
     nftSyncInterval: number;
+    leader: LeaderStatus;
   } {
     return {
       isRunning: this.isRunning,
       checkInterval: this.checkInterval,
       isNftSyncRunning: this.isNftSyncRunning,
-      nftSyncInterval: this.nftSyncInterval
+      nftSyncInterval: this.nftSyncInterval,
+      leader: this.leaderElection.getStatus()
     }
   }
 
@@ -75,8 +176,8 @@ export class SchedulerService {
     console.log(`🎯 Starting NFT sync monitoring (checking every ${this.nftSyncInterval}ms)`)
     this.isNftSyncRunning = true
 
-    // Start real-time Transfer event listener
-    await nftSyncService.startTransferMonitoring()
+    // Start real-time Transfer event listeners
+    await this.startCollectionMonitoring()
 
     // Start periodic historical sync to catch any missed events
     this.nftSyncIntervalId = setInterval(async () => {
@@ -86,6 +187,35 @@ export class SchedulerService {
     console.log('✅ NFT sync monitoring started')
   }
 
+  /**
+   * Start Transfer monitoring for every active collection that is not monitored yet
+   */
+  private async startCollectionMonitoring(): Promise<void> {
+    const collections = await collectionService.listCollections()
+
+    for (const collection of collections) {
+      const nftSyncService = getNftSyncService(collection)
+      if (nftSyncService.isMonitoring()) {
+        continue
+      }
+
+      // A live RandomSeedSet log triggers the seed check right away
+      nftSyncService.setRandomSeedHandler(async log => {
+        // The lifecycle records the seed, keeping the block and transaction of the log with its history
+        const result = await this.forceCheck(collection, log)
+        console.log(`🎲 Random seed check for ${collection.slug} after RandomSeedSet log: ${result.message}`)
+      })
+
+      try {
+        await nftSyncService.startTransferMonitoring()
+        this.nftSyncServices.set(collection.id, nftSyncService)
+      } catch (error) {
+        // An unreachable chain must not keep collections on other chains from being monitored
+        console.error(`❌ Error starting monitoring for ${collection.slug} on chain ${collection.chainId}:`, error)
+      }
+    }
+  }
+
   /**
    * Stop NFT sync monitoring
    */
@@ -95,7 +225,10 @@ export class SchedulerService {
       this.nftSyncIntervalId = null
     }
     
-    nftSyncService.stopTransferMonitoring()
+    for (const nftSyncService of this.nftSyncServices.values()) {
+      nftSyncService.stopTransferMonitoring()
+    }
+    this.nftSyncServices.clear()
     this.isNftSyncRunning = false
     console.log('NFT sync monitoring stopped')
   }
@@ -105,45 +238,88 @@ export class SchedulerService {
    */
   private async performHistoricalNftSync(): Promise<void> {
     try {
-      console.log('🔍 Performing historical NFT sync...')
+      // Pick up collections added since the last cycle
+      await this.startCollectionMonitoring()
+    } catch (error) {
+      console.error('❌ Error starting monitoring for new collections:', error)
+    }
+
+    // Collections run side by side so a slow chain does not delay the others
+    await Promise.all([...this.nftSyncServices.values()].map(nftSyncService => this.performCollectionNftSync(nftSyncService)))
+  }
+
+  private async performCollectionNftSync(nftSyncService: NftSyncService): Promise<void> {
+    const collection = nftSyncService.getCollection()
+    try {
+      console.log(`🔍 Performing historical NFT sync for ${collection.slug}...`)
       
-      if (!this.blockchainService.isServiceConfigured()) {
-        console.log('⏳ Blockchain service not configured, skipping NFT sync...')
+      if (!getBlockchainService(collection).isServiceConfigured()) {
+        console.log(`⏳ Blockchain service not configured for ${collection.slug}, skipping NFT sync...`)
+        return
+      }
+
+      if (nftSyncService.isSyncInProgress()) {
+        console.log(`⏳ Previous NFT sync for ${collection.slug} still running, skipping this cycle...`)
         return
       }
 
       const syncStatus = await nftSyncService.getSyncStatus()
       
       if (syncStatus.blocksBehind > 0) {
-        console.log(`📦 Syncing ${syncStatus.blocksBehind} blocks behind...`)
+        console.log(`📦 Syncing ${syncStatus.blocksBehind} blocks behind for ${collection.slug}...`)
         const result = await nftSyncService.syncHistoricalEvents()
-        console.log(`✅ Historical sync completed: ${result.processed} events processed, ${result.mints} mints, ${result.transfers} transfers`)
+        console.log(`✅ Historical sync completed for ${collection.slug}: ${result.processed} events processed, ${result.mints} mints, ${result.transfers} transfers`)
       } else {
-        console.log('✅ NFT sync is up to date')
+        console.log(`✅ NFT sync for ${collection.slug} is up to date`)
       }
       
     } catch (error) {
-      console.error('❌ Error during historical NFT sync:', error)
+      console.error(`❌ Error during historical NFT sync for ${collection.slug}:`, error)
+    }
+
+    await this.sweepMissingMappings(collection)
+    await this.syncDelegations(collection)
+  }
+
+  /**
+   * Give tokens stored without a metadataId after the seed was set their mapping
+   */
+  private async sweepMissingMappings(collection: Collection): Promise<void> {
+    try {
+      await this.mappingService.sweepMissingMappings(collection)
+    } catch (error) {
+      console.error(`❌ Error sweeping missing mappings for ${collection.slug}:`, error)
+    }
+  }
+
+  /**
+   * Index the delegation registry, which delegated reveal signatures are checked against
+   */
+  private async syncDelegations(collection: Collection): Promise<void> {
+    try {
+      await delegationService.syncDelegations(collection)
+    } catch (error) {
+      console.error(`❌ Error syncing delegations for ${collection.slug}:`, error)
     }
   }
 
   /**
    * Force NFT sync (useful for admin endpoints)
    */
-  async forceNftSync(fromBlock?: number, toBlock?: number): Promise<{
+  async forceNftSync(collection: Collection, fromBlock?: number, toBlock?: number): Promise<{
     success: boolean;
     result?: any;
     message: string;
   }> {
     try {
-      if (!this.blockchainService.isServiceConfigured()) {
+      if (!getBlockchainService(collection).isServiceConfigured()) {
         return {
           success: false,
-          message: 'Blockchain service not configured. Please check CONTRACT_ADDRESS and RPC_URL environment variables.'
+          message: `Blockchain service not configured for ${collection.slug}. Please check the collection address and the RPC_URL settings for chain ${collection.chainId}.`
         }
       }
 
-      const result = await nftSyncService.syncHistoricalEvents(fromBlock, toBlock)
+      const result = await getNftSyncService(collection).syncHistoricalEvents(fromBlock, toBlock)
       
       return {
         success: true,
@@ -173,33 +349,33 @@ export class SchedulerService {
   /**
    * Force a manual check (useful for admin endpoints)
    */
-  async forceCheck(): Promise<{ success: boolean; randomSeed?: string; message: string }> {
+  async forceCheck(collection: Collection, log?: RandomSeedLog): Promise<{ success: boolean; randomSeed?: string; state?: SeedLifecycleState; message: string }> {
     try {
+      const blockchainService = getBlockchainService(collection)
+
       // Check if blockchain service is configured
-      if (!this.blockchainService.isServiceConfigured()) {
+      if (!blockchainService.isServiceConfigured()) {
         return {
           success: false,
-          message: 'Blockchain service not configured. Please check CONTRACT_ADDRESS and RPC_URL environment variables.'
+          message: `Blockchain service not configured for ${collection.slug}. Please check the collection address and the RPC_URL settings for chain ${collection.chainId}.`
         }
       }
 
-      const {
-        randomSeed,
-        needToGenerateMappings,
-      } = await this.blockchainService.syncRandomSeedFromContract()
-      
-      if (randomSeed) {
-        const maxSupply = await this.blockchainService.getMaxSupply()
-        await this.mappingService.generateAllMappings(randomSeed, maxSupply)
-        
+      const lifecycle = await seedLifecycleService.advance(collection, log)
+
+      if (lifecycle.randomSeed) {
         return {
           success: true,
-          randomSeed: randomSeed.toString(),
-          message: 'Random seed found and mappings generated'
+          randomSeed: lifecycle.randomSeed,
+          state: lifecycle.state,
+          message: lifecycle.lastError
+            ? `Random seed found, lifecycle is ${lifecycle.state}: ${lifecycle.lastError}`
+            : `Random seed found, lifecycle is ${lifecycle.state}`
         }
       } else {
         return {
           success: false,
+          state: lifecycle.state,
           message: 'Random seed not yet available on blockchain'
         }
       }
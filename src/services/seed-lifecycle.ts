@@ -0,0 +1,248 @@
+/**
+ * Random Seed Lifecycle
+ *
+ * Each collection's seed moves through these states, persisted on its
+ * RandomSeedInfo row so a restarted or newly elected leader picks up where
+ * the previous one stopped:
+ *
+ *   awaiting_seed        no seed on the contract yet (no RandomSeedInfo row)
+ *   seed_observed        seed read from getRandomSeedStatus or a RandomSeedSet log
+ *   mappings_generating  metadataIds being written; resumes from the mapping cursor
+ *   mappings_verified    tokenURI parity check passed for the generated mappings
+ *   revealed             per-token reveals are open (from Collection.revealStartTime, once
+ *                        every origin pool is locked)
+ *
+ * The scheduler calls `advance` on an interval and whenever a RandomSeedSet
+ * log arrives; each call moves the seed as far as it can go right now.
+ * From mappings_failed an admin either retries the mapping run (`retry`) or
+ * accepts the mappings without a passing check (`acceptMappings`).
+ *
+ * Every seed the contract has reported keeps its own row. When the seed
+ * changes, `advance` records the new row in seed_observed and the lifecycle
+ * starts over for it, remapping every token (see MappingService).
+ */
+
+import { Collection, RandomSeedInfo } from '@prisma/client'
+import prisma from '../config/database'
+import { PARITY_CHECK_CONFIG } from '../config/contracts'
+import { RandomSeedLog, getBlockchainService } from './blockchain'
+import { MappingService } from './mapping'
+import { provenanceService } from './provenance'
+
+export type SeedLifecycleState =
+  | 'awaiting_seed'
+  | 'seed_observed'
+  | 'mappings_generating'
+  | 'mappings_verified'
+  | 'mappings_failed'
+  | 'revealed'
+
+export interface SeedLifecycle {
+  state: SeedLifecycleState
+  randomSeed: string | null
+  stateUpdatedAt: string | null
+  lastError: string | null
+  parityAttempts: number
+}
+
+export class SeedLifecycleService {
+  private mappingService = new MappingService()
+  // Collections with an advance in flight, so a slow mapping run is not started twice
+  private advancing = new Set<number>()
+
+  async getLifecycle(collection: Collection): Promise<SeedLifecycle> {
+    const seedInfo = await this.getCurrentSeed(collection)
+    if (!seedInfo) {
+      return { state: 'awaiting_seed', randomSeed: null, stateUpdatedAt: null, lastError: null, parityAttempts: 0 }
+    }
+    return {
+      state: seedInfo.state as SeedLifecycleState,
+      randomSeed: seedInfo.randomSeed,
+      stateUpdatedAt: seedInfo.stateUpdatedAt.toISOString(),
+      lastError: seedInfo.lastError,
+      parityAttempts: seedInfo.parityAttempts
+    }
+  }
+
+  /**
+   * Whether holders may reveal tokens of the collection
+   */
+  async isRevealOpen(collection: Collection): Promise<boolean> {
+    const seedInfo = await this.getCurrentSeed(collection)
+    return seedInfo?.state === 'revealed'
+  }
+
+  /**
+   * Move the collection's seed through as many states as possible. `log` is the
+   * RandomSeedSet log that triggered the call, kept with the seed it carries.
+   */
+  async advance(collection: Collection, log?: RandomSeedLog): Promise<SeedLifecycle> {
+    if (this.advancing.has(collection.id)) {
+      console.log(`⏳ Seed lifecycle for ${collection.slug} is already advancing`)
+      return await this.getLifecycle(collection)
+    }
+
+    this.advancing.add(collection.id)
+    try {
+      // Pick up a new or changed seed first, whatever state the current one is in
+      await getBlockchainService(collection).syncRandomSeedFromContract(log)
+      while (await this.step(collection)) {
+        // Keep going until a state has to wait for something
+      }
+    } finally {
+      this.advancing.delete(collection.id)
+    }
+    return await this.getLifecycle(collection)
+  }
+
+  /**
+   * Run one transition, returning whether the state moved
+   */
+  private async step(collection: Collection): Promise<boolean> {
+    const seedInfo = await this.getCurrentSeed(collection)
+
+    if (!seedInfo) {
+      return false
+    }
+
+    switch (seedInfo.state as SeedLifecycleState) {
+      case 'seed_observed':
+        await this.transition(collection, seedInfo, 'mappings_generating')
+        return true
+
+      case 'mappings_generating': {
+        const maxSupply = await getBlockchainService(collection).getMaxSupply()
+        const report = await this.mappingService.generateAllMappings(collection, BigInt(seedInfo.randomSeed), maxSupply)
+
+        if (!report) {
+          await this.recordParityFailure(collection, seedInfo, 'tokenURI parity check could not run')
+          return false
+        }
+        // Tokens minted while the mappings were written get their metadataId from the next sweep
+        const mismatches = report.mismatches.filter(mismatch => mismatch.issue !== 'not_mapped')
+        if (mismatches.length > 0) {
+          await this.recordParityFailure(collection, seedInfo, `${mismatches.length} of ${report.checked} sampled tokens differ from the contract's tokenURI`)
+          return false
+        }
+        await this.transition(collection, seedInfo, 'mappings_verified')
+        return true
+      }
+
+      case 'mappings_verified': {
+        if (collection.revealStartTime && collection.revealStartTime.getTime() > Date.now()) {
+          return false
+        }
+        // Origins must be fixed before the first reveal draws from them
+        const unlocked = await provenanceService.getUnlockedBoxTypes(collection)
+        if (unlocked.length > 0) {
+          await this.recordWait(collection, seedInfo, `Origin pools of box types ${unlocked.join(', ')} are not locked`)
+          return false
+        }
+        await this.transition(collection, seedInfo, 'revealed')
+        return true
+      }
+
+      case 'mappings_failed':
+      case 'revealed':
+        return false
+
+      default:
+        throw new Error(`Unknown seed lifecycle state ${seedInfo.state} for ${collection.slug}`)
+    }
+  }
+
+  private async getCurrentSeed(collection: Collection): Promise<RandomSeedInfo | null> {
+    return await prisma.randomSeedInfo.findFirst({
+      where: { collectionId: collection.id },
+      orderBy: { syncedAt: 'desc' }
+    })
+  }
+
+  private async transition(collection: Collection, seedInfo: RandomSeedInfo, state: SeedLifecycleState): Promise<void> {
+    const previousState = seedInfo.state
+    await prisma.randomSeedInfo.update({
+      where: { id: seedInfo.id },
+      data: { state, stateUpdatedAt: new Date(), lastError: null }
+    })
+    console.log(`🔁 Seed lifecycle for ${collection.slug}: ${previousState} → ${state}`)
+  }
+
+  /**
+   * Start the mapping run and parity check of the current seed over, e.g. after
+   * fixing whatever made it fail. Allowed while mappings are generating or failed.
+   */
+  async retry(collection: Collection): Promise<SeedLifecycle> {
+    const seedInfo = await this.getOverridableSeed(collection)
+    await prisma.randomSeedInfo.update({
+      where: { id: seedInfo.id },
+      data: { state: 'mappings_generating', stateUpdatedAt: new Date(), lastError: null, parityAttempts: 0 }
+    })
+    console.log(`🔁 Seed lifecycle for ${collection.slug}: ${seedInfo.state} → mappings_generating (retried by admin)`)
+    return await this.advance(collection)
+  }
+
+  /**
+   * Accept the current seed's mappings without a passing parity check. Every
+   * chunk must have been written; the reason goes to the log.
+   */
+  async acceptMappings(collection: Collection, reason: string | null): Promise<SeedLifecycle> {
+    const seedInfo = await this.getOverridableSeed(collection)
+    if (!seedInfo.mappingsGenerated) {
+      throw new Error(`Mappings for ${collection.slug} are not complete; retry the mapping run instead`)
+    }
+    await prisma.randomSeedInfo.update({
+      where: { id: seedInfo.id },
+      data: { state: 'mappings_verified', stateUpdatedAt: new Date(), lastError: null }
+    })
+    console.log(`🔁 Seed lifecycle for ${collection.slug}: ${seedInfo.state} → mappings_verified (accepted by admin${reason ? `: ${reason}` : ''})`)
+    return await this.advance(collection)
+  }
+
+  private async getOverridableSeed(collection: Collection): Promise<RandomSeedInfo> {
+    if (this.advancing.has(collection.id)) {
+      throw new Error(`Seed lifecycle for ${collection.slug} is busy, try again when the current run finishes`)
+    }
+    const seedInfo = await this.getCurrentSeed(collection)
+    if (!seedInfo) {
+      throw new Error(`No random seed found for ${collection.slug}`)
+    }
+    if (seedInfo.state !== 'mappings_generating' && seedInfo.state !== 'mappings_failed') {
+      throw new Error(`Seed lifecycle for ${collection.slug} is in ${seedInfo.state}, overrides only apply while mappings are generating or failed`)
+    }
+    return seedInfo
+  }
+
+  /**
+   * Note why the seed can't move on yet, once per reason
+   */
+  private async recordWait(collection: Collection, seedInfo: RandomSeedInfo, lastError: string): Promise<void> {
+    if (seedInfo.lastError === lastError) {
+      return
+    }
+    await prisma.randomSeedInfo.update({ where: { id: seedInfo.id }, data: { lastError } })
+    console.warn(`⚠️ Seed lifecycle for ${collection.slug} waits in ${seedInfo.state}: ${lastError}`)
+  }
+
+  /**
+   * Count a failed parity check; after PARITY_CHECK_CONFIG.maxAttempts the seed
+   * moves to mappings_failed instead of being checked again on every interval
+   */
+  private async recordParityFailure(collection: Collection, seedInfo: RandomSeedInfo, lastError: string): Promise<void> {
+    const parityAttempts = seedInfo.parityAttempts + 1
+    const failed = parityAttempts >= PARITY_CHECK_CONFIG.maxAttempts
+    await prisma.randomSeedInfo.update({
+      where: { id: seedInfo.id },
+      data: failed
+        ? { lastError, parityAttempts, state: 'mappings_failed', stateUpdatedAt: new Date() }
+        : { lastError, parityAttempts }
+    })
+    if (failed) {
+      console.error(`❌ Seed lifecycle for ${collection.slug}: mappings_generating → mappings_failed after ${parityAttempts} failed parity checks: ${lastError}`)
+    } else {
+      console.warn(`⚠️ Seed lifecycle stuck in ${seedInfo.state} (parity attempt ${parityAttempts}/${PARITY_CHECK_CONFIG.maxAttempts}): ${lastError}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const seedLifecycleService = new SeedLifecycleService()
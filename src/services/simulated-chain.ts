@@ -0,0 +1,480 @@
+/**
+ * Simulated Chain
+ *
+ * In-memory chain for local development and tests, used for chains
+ * configured with CHAIN_BACKEND_<chainId>=simulated. Every collection on
+ * such a chain gets a `SimulatedAvatarContract` that behaves like
+ * PhaseThreeAvatar: mint, transfer, setRandomSeed (once), ownerOf and
+ * tokensOfOwner, emitting the same Transfer, MintTokens and RandomSeedSet
+ * logs. The chain also has a delegate.xyz style registry and contract
+ * wallets that accept EIP-1271 signatures from their owner key. Every
+ * transaction is mined into its own block. State lives in this process only
+ * and is gone after a restart.
+ */
+
+import { EventEmitter } from 'events'
+import { ethers, getAddress, isAddress, Listener, ZeroAddress } from 'ethers'
+import { BlockHeader, ChainBackend, DelegationLog, DelegationScope, RandomSeedLog, TransferLog } from './chain-backend'
+import { calculateMetadataId } from '../utils/crypto'
+import { getChainConfig } from '../config/contracts'
+
+const SIMULATED_URI_PREFIX = 'ipfs://simulated/'
+const SIMULATED_URI_SUFFIX = '.json'
+
+type SimulatedEventName = 'Transfer' | 'MintTokens' | 'RandomSeedSet' | 'DelegateAll' | 'DelegateContract' | 'DelegateERC721'
+
+interface SimulatedLog {
+  address: string
+  eventName: SimulatedEventName
+  args: unknown[]
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+}
+
+interface SimulatedBlock extends BlockHeader {
+  logs: SimulatedLog[]
+}
+
+export interface SimulatedTransaction {
+  transactionHash: string
+  blockNumber: number
+}
+
+export class SimulatedChain {
+  readonly chainId: number
+  readonly delegateRegistry: string
+  private blocks: SimulatedBlock[] = []
+  private contracts = new Map<string, SimulatedAvatarContract>()
+  // Contract wallet address (lowercase) to the key that signs for it
+  private wallets = new Map<string, string>()
+  private transactionCount = 0
+
+  constructor(chainId: number) {
+    this.chainId = chainId
+    this.delegateRegistry = getChainConfig(chainId).delegateRegistry
+    this.appendBlock([])
+  }
+
+  /**
+   * Contract at an address, deployed on first use
+   */
+  getContract(address: string, maxSupply: number): SimulatedAvatarContract {
+    const key = address.toLowerCase()
+    let contract = this.contracts.get(key)
+    if (!contract) {
+      contract = new SimulatedAvatarContract(this, getAddress(address), maxSupply)
+      this.contracts.set(key, contract)
+      console.log(`🧪 Deployed simulated contract ${contract.address} on chain ${this.chainId}`)
+    }
+    return contract
+  }
+
+  /**
+   * Deploy a contract wallet whose EIP-1271 check accepts signatures by the owner key
+   */
+  deployWallet(owner: string): SimulatedTransaction & { address: string } {
+    if (!isAddress(owner) || owner === ZeroAddress) {
+      throw new Error(`Invalid address ${owner}`)
+    }
+    const transaction = this.commit(ZeroAddress, [])
+    const address = getAddress(ethers.dataSlice(
+      ethers.solidityPackedKeccak256(['string', 'uint256', 'bytes32'], ['simulated-wallet', this.chainId, transaction.transactionHash]),
+      12
+    ))
+    this.wallets.set(address.toLowerCase(), getAddress(owner))
+    console.log(`🧪 Deployed simulated wallet ${address} for ${getAddress(owner)} on chain ${this.chainId}`)
+    return { ...transaction, address }
+  }
+
+  isValidSignature(account: string, hash: string, signature: string): boolean {
+    const owner = this.wallets.get(account.toLowerCase())
+    if (!owner) {
+      return false
+    }
+    try {
+      return ethers.recoverAddress(hash, signature) === owner
+    } catch {
+      return false
+    }
+  }
+
+  getLatestBlockNumber(): number {
+    return this.blocks.length - 1
+  }
+
+  getBlockHeader(blockNumber: number): BlockHeader | null {
+    const block = this.blocks[blockNumber]
+    if (!block) {
+      return null
+    }
+    return {
+      number: block.number,
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: block.timestamp
+    }
+  }
+
+  getLogs(address: string, eventName: SimulatedEventName, fromBlock: number, toBlock: number): SimulatedLog[] {
+    const logs: SimulatedLog[] = []
+    for (const block of this.blocks.slice(Math.max(0, fromBlock), toBlock + 1)) {
+      logs.push(...block.logs.filter(log => log.address === address && log.eventName === eventName))
+    }
+    return logs
+  }
+
+  /**
+   * Mine empty blocks, e.g. to give earlier transactions enough confirmations
+   */
+  mine(blocks = 1): number {
+    for (let i = 0; i < blocks; i++) {
+      this.appendBlock([])
+    }
+    return this.getLatestBlockNumber()
+  }
+
+  /**
+   * Mine a block holding a single transaction with the given logs
+   */
+  commit(address: string, logs: Array<{ eventName: SimulatedEventName; args: unknown[] }>): SimulatedTransaction {
+    this.transactionCount++
+    const transactionHash = ethers.solidityPackedKeccak256(
+      ['string', 'uint256', 'uint256'],
+      ['simulated-tx', this.chainId, this.transactionCount]
+    )
+    const block = this.appendBlock(logs.map((log, logIndex) => ({
+      address,
+      eventName: log.eventName,
+      args: log.args,
+      blockNumber: 0,
+      blockHash: '',
+      transactionHash,
+      logIndex
+    })))
+    return { transactionHash, blockNumber: block.number }
+  }
+
+  private appendBlock(logs: SimulatedLog[]): SimulatedBlock {
+    const parent = this.blocks[this.blocks.length - 1]
+    const number = this.blocks.length
+    const parentHash = parent?.hash ?? ethers.ZeroHash
+    const hash = ethers.solidityPackedKeccak256(
+      ['string', 'uint256', 'uint256', 'bytes32'],
+      ['simulated-block', this.chainId, number, parentHash]
+    )
+    const timestamp = Math.max((parent?.timestamp ?? 0) + 1, Math.floor(Date.now() / 1000))
+
+    const block: SimulatedBlock = {
+      number,
+      hash,
+      parentHash,
+      timestamp,
+      logs: logs.map(log => ({ ...log, blockNumber: number, blockHash: hash }))
+    }
+    this.blocks.push(block)
+    return block
+  }
+}
+
+/**
+ * In-memory PhaseThreeAvatar
+ */
+export class SimulatedAvatarContract implements ChainBackend {
+  readonly address: string
+  private chain: SimulatedChain
+  private maxSupply: number
+  private totalSupply = 0
+  private randomSeed = 0n
+  private owners = new Map<number, string>()
+  private soulboundTokenIds = new Map<number, number>()
+  private listeners = new EventEmitter()
+
+  constructor(chain: SimulatedChain, address: string, maxSupply: number) {
+    this.chain = chain
+    this.address = address
+    this.maxSupply = maxSupply
+  }
+
+  describe(): string {
+    return 'in-memory simulator'
+  }
+
+  /**
+   * Mint `quantity` tokens to `to`. Each minted avatar can be linked to the
+   * soulbound token it was minted with; 0 means a public mint.
+   */
+  mint(to: string, quantity: number, soulboundTokenIds: number[] = []): SimulatedTransaction & { tokenIds: number[] } {
+    const recipient = this.requireAddress(to)
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('quantity must be a positive integer')
+    }
+    if (this.totalSupply + quantity > this.maxSupply) {
+      throw new Error(`MaxSupplyExceeded: ${this.totalSupply} + ${quantity} > ${this.maxSupply}`)
+    }
+    if (soulboundTokenIds.length > 0 && soulboundTokenIds.length !== quantity) {
+      throw new Error('soulboundTokenIds must have one entry per minted token')
+    }
+
+    const tokenIds: number[] = []
+    for (let i = 0; i < quantity; i++) {
+      const tokenId = this.totalSupply + i + 1
+      tokenIds.push(tokenId)
+      this.owners.set(tokenId, recipient)
+      if (soulboundTokenIds[i]) {
+        this.soulboundTokenIds.set(tokenId, soulboundTokenIds[i])
+      }
+    }
+    this.totalSupply += quantity
+
+    const transaction = this.chain.commit(this.address, [
+      ...tokenIds.map(tokenId => ({ eventName: 'Transfer' as const, args: [ZeroAddress, recipient, BigInt(tokenId)] })),
+      { eventName: 'MintTokens', args: [recipient, BigInt(quantity), BigInt(this.totalSupply)] }
+    ])
+    for (const tokenId of tokenIds) {
+      this.listeners.emit('Transfer', ZeroAddress, recipient, BigInt(tokenId))
+    }
+    this.listeners.emit('MintTokens', recipient, BigInt(quantity), BigInt(this.totalSupply))
+
+    return { ...transaction, tokenIds }
+  }
+
+  transfer(from: string, to: string, tokenId: number): SimulatedTransaction {
+    const sender = this.requireAddress(from)
+    const recipient = this.requireAddress(to)
+    const owner = this.owners.get(tokenId)
+    if (!owner) {
+      throw new Error(`OwnerQueryForNonexistentToken: ${tokenId}`)
+    }
+    if (owner !== sender) {
+      throw new Error(`TransferFromIncorrectOwner: token ${tokenId} is owned by ${owner}`)
+    }
+
+    this.owners.set(tokenId, recipient)
+    const transaction = this.chain.commit(this.address, [
+      { eventName: 'Transfer', args: [sender, recipient, BigInt(tokenId)] }
+    ])
+    this.listeners.emit('Transfer', sender, recipient, BigInt(tokenId))
+    return transaction
+  }
+
+  /**
+   * Like the contract, the seed can only be set once; a random one is drawn when none is given
+   */
+  setRandomSeed(randomSeed?: bigint): SimulatedTransaction & { randomSeed: bigint } {
+    if (this.randomSeed !== 0n) {
+      throw new Error('RandomSeedAlreadySet')
+    }
+    const seed = randomSeed ?? BigInt(ethers.hexlify(ethers.randomBytes(32)))
+    if (seed === 0n) {
+      throw new Error('randomSeed must not be zero')
+    }
+
+    this.randomSeed = seed
+    const transaction = this.chain.commit(this.address, [
+      { eventName: 'RandomSeedSet', args: [seed] }
+    ])
+    this.listeners.emit('RandomSeedSet', seed)
+    return { ...transaction, randomSeed: seed }
+  }
+
+  /**
+   * Delegate (or undelegate) full rights from a vault through the chain's registry: for every
+   * contract, for this contract, or for one of its tokens
+   */
+  delegate(vault: string, delegate: string, scope: DelegationScope, enable: boolean, tokenId = 0): SimulatedTransaction {
+    const from = this.requireAddress(vault)
+    const to = this.requireAddress(delegate)
+    if (!this.chain.delegateRegistry) {
+      throw new Error(`No delegation registry configured for chain ${this.chain.chainId}`)
+    }
+    if (scope === 'token' && !this.owners.has(tokenId)) {
+      throw new Error(`OwnerQueryForNonexistentToken: ${tokenId}`)
+    }
+
+    const rights = ethers.ZeroHash
+    const log = scope === 'all'
+      ? { eventName: 'DelegateAll' as const, args: [from, to, rights, enable] }
+      : scope === 'contract'
+        ? { eventName: 'DelegateContract' as const, args: [from, to, this.address, rights, enable] }
+        : { eventName: 'DelegateERC721' as const, args: [from, to, this.address, BigInt(tokenId), rights, enable] }
+    return this.chain.commit(getAddress(this.chain.delegateRegistry), [log])
+  }
+
+  deployWallet(owner: string): SimulatedTransaction & { address: string } {
+    return this.chain.deployWallet(owner)
+  }
+
+  async getRandomSeedStatus(): Promise<{ randomSeed: bigint; isRevealed: boolean }> {
+    return { randomSeed: this.randomSeed, isRevealed: this.randomSeed !== 0n }
+  }
+
+  async getMaxSupply(): Promise<number> {
+    return this.maxSupply
+  }
+
+  async getTotalSupply(): Promise<number> {
+    return this.totalSupply
+  }
+
+  async getOwnerOf(tokenId: number, blockTag?: number): Promise<string> {
+    let owner = this.owners.get(tokenId)
+    if (blockTag !== undefined) {
+      // Replay the Transfer logs up to the requested block
+      owner = undefined
+      for (const log of this.chain.getLogs(this.address, 'Transfer', 0, blockTag)) {
+        if (Number(log.args[2]) === tokenId) {
+          owner = log.args[1] as string
+        }
+      }
+    }
+    if (!owner) {
+      throw new Error(`OwnerQueryForNonexistentToken: ${tokenId}`)
+    }
+    return owner
+  }
+
+  async getSoulboundTokenId(tokenId: number): Promise<number> {
+    return this.soulboundTokenIds.get(tokenId) ?? 0
+  }
+
+  async getTokensOfOwner(address: string): Promise<number[]> {
+    const owner = this.requireAddress(address)
+    return [...this.owners.entries()]
+      .filter(([, tokenOwner]) => tokenOwner === owner)
+      .map(([tokenId]) => tokenId)
+      .sort((a, b) => a - b)
+  }
+
+  /**
+   * Like the contract: the unrevealed URI until the seed is set, then uriPrefix + metadataId + uriSuffix
+   */
+  async getTokenURI(tokenId: number): Promise<string> {
+    if (!this.owners.has(tokenId)) {
+      throw new Error(`URIQueryForNonexistentToken: ${tokenId}`)
+    }
+    if (this.randomSeed === 0n) {
+      return `${SIMULATED_URI_PREFIX}unrevealed${SIMULATED_URI_SUFFIX}`
+    }
+    return `${SIMULATED_URI_PREFIX}${calculateMetadataId(tokenId, this.randomSeed, this.maxSupply)}${SIMULATED_URI_SUFFIX}`
+  }
+
+  async getLatestBlockNumber(): Promise<number> {
+    return this.chain.getLatestBlockNumber()
+  }
+
+  async getTransferEvents(fromBlock: number, toBlock?: number): Promise<TransferLog[]> {
+    return this.chain.getLogs(this.address, 'Transfer', fromBlock, toBlock ?? this.chain.getLatestBlockNumber())
+      .map(log => ({
+        from: log.args[0] as string,
+        to: log.args[1] as string,
+        tokenId: log.args[2] as bigint,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex
+      }))
+  }
+
+  async getRandomSeedSetEvents(fromBlock: number, toBlock?: number): Promise<RandomSeedLog[]> {
+    return this.chain.getLogs(this.address, 'RandomSeedSet', fromBlock, toBlock ?? this.chain.getLatestBlockNumber())
+      .map(log => ({
+        randomSeed: log.args[0] as bigint,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash
+      }))
+  }
+
+  async getBlockHeader(blockNumber: number): Promise<BlockHeader | null> {
+    return this.chain.getBlockHeader(blockNumber)
+  }
+
+  async getDelegationEvents(registry: string, fromBlock: number, toBlock?: number): Promise<DelegationLog[]> {
+    const address = getAddress(registry)
+    const lastBlock = toBlock ?? this.chain.getLatestBlockNumber()
+    const logs = [
+      ...this.chain.getLogs(address, 'DelegateAll', fromBlock, lastBlock)
+        .map(log => ({ log, scope: 'all' as const, tokenId: 0, enabled: log.args[3] as boolean })),
+      ...this.chain.getLogs(address, 'DelegateContract', fromBlock, lastBlock)
+        .filter(log => log.args[2] === this.address)
+        .map(log => ({ log, scope: 'contract' as const, tokenId: 0, enabled: log.args[4] as boolean })),
+      ...this.chain.getLogs(address, 'DelegateERC721', fromBlock, lastBlock)
+        .filter(log => log.args[2] === this.address)
+        .map(log => ({ log, scope: 'token' as const, tokenId: Number(log.args[3]), enabled: log.args[5] as boolean }))
+    ]
+
+    return logs
+      .map(({ log, scope, tokenId, enabled }) => ({
+        vault: log.args[0] as string,
+        delegate: log.args[1] as string,
+        scope,
+        tokenId,
+        enabled,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex
+      }))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+  }
+
+  async isValidSignature(account: string, hash: string, signature: string): Promise<boolean> {
+    return this.chain.isValidSignature(account, hash, signature)
+  }
+
+  onEvent(eventName: string, listener: Listener): void {
+    this.listeners.on(eventName, listener)
+  }
+
+  removeEventListeners(eventName: string): void {
+    this.listeners.removeAllListeners(eventName)
+  }
+
+  /**
+   * Summary for the simulator admin endpoints
+   */
+  getState(): {
+    chainId: number;
+    address: string;
+    blockNumber: number;
+    maxSupply: number;
+    totalSupply: number;
+    randomSeed: string;
+    isRevealed: boolean;
+  } {
+    return {
+      chainId: this.chain.chainId,
+      address: this.address,
+      blockNumber: this.chain.getLatestBlockNumber(),
+      maxSupply: this.maxSupply,
+      totalSupply: this.totalSupply,
+      randomSeed: this.randomSeed.toString(),
+      isRevealed: this.randomSeed !== 0n
+    }
+  }
+
+  mine(blocks: number): number {
+    return this.chain.mine(blocks)
+  }
+
+  private requireAddress(address: string): string {
+    if (!isAddress(address) || address === ZeroAddress) {
+      throw new Error(`Invalid address ${address}`)
+    }
+    return getAddress(address)
+  }
+}
+
+const simulatedChains = new Map<number, SimulatedChain>()
+
+/**
+ * Shared in-memory chain for a chain ID
+ */
+export function getSimulatedChain(chainId: number): SimulatedChain {
+  let chain = simulatedChains.get(chainId)
+  if (!chain) {
+    chain = new SimulatedChain(chainId)
+    simulatedChains.set(chainId, chain)
+  }
+  return chain
+}
@@ -0,0 +1,201 @@
+/**
+ * tokenURI Parity Checker
+ *
+ * `calculateMetadataId` re-implements the contract's permutation in
+ * TypeScript. This job asks the deployed contract for `tokenURI`, parses the
+ * metadataId out of it and compares it with the value stored in NftInfo and
+ * with the value computed here, so a drift between the two implementations
+ * shows up as a report instead of as the wrong art for every holder.
+ */
+
+import { Collection } from '@prisma/client'
+import prisma from '../config/database'
+import { PARITY_CHECK_CONFIG } from '../config/contracts'
+import { calculateParitySampleOffset, createMetadataIdMapper } from '../utils/crypto'
+import { BlockchainService, getBlockchainService } from './blockchain'
+
+export type ParityIssue =
+  // The contract's metadataId differs from calculateMetadataId: the TypeScript permutation is wrong
+  | 'computed_mismatch'
+  // The stored metadataId differs from the contract's
+  | 'stored_mismatch'
+  // The token is minted but has no stored metadataId (or no NftInfo row)
+  | 'not_mapped'
+  | 'unparseable_uri'
+  | 'call_failed'
+
+export interface ParityMismatch {
+  tokenId: number
+  issue: ParityIssue
+  tokenUri: string | null
+  contractMetadataId: number | null
+  storedMetadataId: number | null
+  computedMetadataId: number
+  error?: string
+}
+
+export interface ParityReport {
+  collection: string
+  randomSeed: string
+  maxSupply: number
+  totalSupply: number
+  mode: 'sample' | 'all'
+  checked: number
+  matched: number
+  mismatches: ParityMismatch[]
+  startedAt: string
+  finishedAt: string
+}
+
+// Last report per collection ID, served by GET /admin/token-uri-parity
+const lastReports = new Map<number, ParityReport>()
+
+/**
+ * metadataId at the end of a tokenURI such as `ipfs://Qm.../42` or `https://host/metadata/42.json`
+ */
+export function parseMetadataIdFromUri(tokenUri: string): number | null {
+  const path = tokenUri.split(/[?#]/)[0].replace(/\/+$/, '')
+  const match = path.slice(path.lastIndexOf('/') + 1).match(/^(\d+)(?:\.[A-Za-z0-9]+)?$/)
+  return match ? parseInt(match[1]) : null
+}
+
+export class TokenUriParityService {
+  /**
+   * Compare tokenURI with stored and computed metadataIds for a sample of indexed tokens, or for every minted token.
+   * The sample is derived from the seed, so repeated checks of the same seed look at the same tokens.
+   */
+  async checkParity(collection: Collection, options: { all?: boolean; sampleSize?: number } = {}): Promise<ParityReport> {
+    const startedAt = new Date()
+    const blockchainService = getBlockchainService(collection)
+
+    const { randomSeed, isRevealed } = await blockchainService.getRandomSeedStatus()
+    if (!isRevealed || randomSeed === 0n) {
+      throw new Error(`Random seed for ${collection.slug} is not revealed yet, tokenURI does not carry a metadataId`)
+    }
+
+    const [maxSupply, totalSupply] = await Promise.all([
+      blockchainService.getMaxSupply(),
+      blockchainService.getTotalSupply()
+    ])
+    const mode = options.all ? 'all' : 'sample'
+    const tokenIds = options.all
+      ? Array.from({ length: totalSupply }, (_, i) => i + 1)
+      : await this.sampleTokenIds(collection, randomSeed, options.sampleSize ?? PARITY_CHECK_CONFIG.sampleSize)
+
+    console.log(`🔎 Checking tokenURI parity for ${tokenIds.length} of ${totalSupply} tokens of ${collection.slug}`)
+
+    const toMetadataId = createMetadataIdMapper(randomSeed, maxSupply)
+    const mismatches: ParityMismatch[] = []
+
+    for (let i = 0; i < tokenIds.length; i += PARITY_CHECK_CONFIG.concurrency) {
+      const batch = tokenIds.slice(i, i + PARITY_CHECK_CONFIG.concurrency)
+      const stored = await prisma.nftInfo.findMany({
+        where: { collectionId: collection.id, tokenId: { in: batch } },
+        select: { tokenId: true, metadataId: true }
+      })
+      const storedMetadataIds = new Map(stored.map(nft => [nft.tokenId, nft.metadataId]))
+
+      const results = await Promise.all(batch.map(tokenId => this.checkToken(
+        blockchainService,
+        tokenId,
+        storedMetadataIds.get(tokenId) ?? null,
+        toMetadataId(tokenId)
+      )))
+      for (const mismatch of results) {
+        if (mismatch) {
+          mismatches.push(mismatch)
+        }
+      }
+    }
+
+    const report: ParityReport = {
+      collection: collection.slug,
+      randomSeed: randomSeed.toString(),
+      maxSupply,
+      totalSupply,
+      mode,
+      checked: tokenIds.length,
+      matched: tokenIds.length - mismatches.length,
+      mismatches,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString()
+    }
+    lastReports.set(collection.id, report)
+
+    if (mismatches.length === 0) {
+      console.log(`✅ tokenURI parity for ${collection.slug}: all ${report.checked} checked tokens match`)
+    } else {
+      const computed = mismatches.filter(mismatch => mismatch.issue === 'computed_mismatch').length
+      console.warn(`⚠️ tokenURI parity for ${collection.slug}: ${mismatches.length} of ${report.checked} tokens differ (${computed} from the computed permutation)`)
+    }
+    return report
+  }
+
+  getLastReport(collection: Collection): ParityReport | null {
+    return lastReports.get(collection.id) ?? null
+  }
+
+  private async checkToken(
+    blockchainService: BlockchainService,
+    tokenId: number,
+    storedMetadataId: number | null,
+    computedMetadataId: number
+  ): Promise<ParityMismatch | null> {
+    let tokenUri: string
+    try {
+      tokenUri = await blockchainService.getTokenURI(tokenId)
+    } catch (error) {
+      return {
+        tokenId,
+        issue: 'call_failed',
+        tokenUri: null,
+        contractMetadataId: null,
+        storedMetadataId,
+        computedMetadataId,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    const contractMetadataId = parseMetadataIdFromUri(tokenUri)
+    const mismatch = { tokenId, tokenUri, contractMetadataId, storedMetadataId, computedMetadataId }
+
+    if (contractMetadataId === null) {
+      return { ...mismatch, issue: 'unparseable_uri' }
+    }
+    if (contractMetadataId !== computedMetadataId) {
+      return { ...mismatch, issue: 'computed_mismatch' }
+    }
+    if (storedMetadataId === null) {
+      return { ...mismatch, issue: 'not_mapped' }
+    }
+    if (storedMetadataId !== contractMetadataId) {
+      return { ...mismatch, issue: 'stored_mismatch' }
+    }
+    return null
+  }
+
+  /**
+   * Up to `sampleSize` indexed token IDs picked by a seed-derived shuffle, in ascending order.
+   * Tokens the indexer hasn't stored yet are left out, so they can't fail the sample.
+   */
+  private async sampleTokenIds(collection: Collection, randomSeed: bigint, sampleSize: number): Promise<number[]> {
+    const indexed = await prisma.nftInfo.findMany({
+      where: { collectionId: collection.id },
+      select: { tokenId: true },
+      orderBy: { tokenId: 'asc' }
+    })
+    const tokenIds = indexed.map(nft => nft.tokenId)
+    const count = Math.min(Math.max(0, sampleSize), tokenIds.length)
+
+    for (let position = 0; position < count; position++) {
+      const pick = position + calculateParitySampleOffset(randomSeed, position, tokenIds.length - position)
+      const picked = tokenIds[pick]
+      tokenIds[pick] = tokenIds[position]
+      tokenIds[position] = picked
+    }
+    return tokenIds.slice(0, count).sort((a, b) => a - b)
+  }
+}
+
+// Export singleton instance
+export const tokenUriParityService = new TokenUriParityService()
@@ -74,6 +74,27 @@ export function verifyPhase2Signature(
   }
 }
 
+/**
+ * Multiplicative inverse of value modulo modulus (extended Euclid)
+ */
+export function modInverse(value: bigint, modulus: bigint): bigint {
+  let r0 = ((value % modulus) + modulus) % modulus
+  let r1 = modulus
+  let s0 = 1n
+  let s1 = 0n
+  while (r1 !== 0n) {
+    const q = r0 / r1
+    const r = r0 - q * r1
+    r0 = r1
+    r1 = r
+    const s = s0 - q * s1
+    s0 = s1
+    s1 = s
+  }
+  if (r0 !== 1n) throw new Error('Value has no inverse for this modulus')
+  return ((s0 % modulus) + modulus) % modulus
+}
+
 export function derivePermutationParams(seed: bigint, modulus: bigint): { a: bigint; b: bigint } {
   if (modulus <= 1n) throw new Error('Invalid modulus')
   
@@ -92,13 +113,93 @@ export function derivePermutationParams(seed: bigint, modulus: bigint): { a: big
   return { a, b }
 }
 
+/**
+ * Build the tokenId -> metadataId permutation for a seed once, for mapping many tokens
+ */
+export function createMetadataIdMapper(randomSeed: bigint, maxSupply: number): (tokenId: number) => number {
+  const N = BigInt(maxSupply)
+  const { a, b } = derivePermutationParams(randomSeed, N)
+
+  return (tokenId: number) => {
+    const zeroIndexedToken = BigInt(tokenId - 1)
+    const zeroIndexedMeta = (a * zeroIndexedToken + b) % N
+    const metadataId = zeroIndexedMeta + 1n
+
+    return Number(metadataId)
+  }
+}
+
 export function calculateMetadataId(tokenId: number, randomSeed: bigint, maxSupply: number): number {
+  return createMetadataIdMapper(randomSeed, maxSupply)(tokenId)
+}
+
+/**
+ * Inverse of createMetadataIdMapper: tokenId = a⁻¹ · (metadataId - 1 - b) mod N + 1
+ */
+export function createTokenIdMapper(randomSeed: bigint, maxSupply: number): (metadataId: number) => number {
   const N = BigInt(maxSupply)
   const { a, b } = derivePermutationParams(randomSeed, N)
-  
-  const zeroIndexedToken = BigInt(tokenId - 1)
-  const zeroIndexedMeta = (a * zeroIndexedToken + b) % N
-  const metadataId = zeroIndexedMeta + 1n
-  
-  return Number(metadataId)
+  const aInverse = modInverse(a, N)
+
+  return (metadataId: number) => {
+    if (!Number.isInteger(metadataId) || metadataId < 1 || metadataId > maxSupply) {
+      throw new Error(`metadataId ${metadataId} is outside 1..${maxSupply}`)
+    }
+    const zeroIndexedMeta = BigInt(metadataId - 1)
+    const zeroIndexedToken = (((zeroIndexedMeta - b) * aInverse) % N + N) % N
+
+    return Number(zeroIndexedToken + 1n)
+  }
+}
+
+export function calculateTokenId(metadataId: number, randomSeed: bigint, maxSupply: number): number {
+  return createTokenIdMapper(randomSeed, maxSupply)(metadataId)
+}
+
+/**
+ * Pool index of one attempt of a token's origin draw: keccak256(seed, tokenId, attempt, "origin") mod poolSize
+ */
+export function calculateOriginDrawIndex(randomSeed: bigint, tokenId: number, attempt: number, poolSize: number): number {
+  const hash = ethers.solidityPackedKeccak256(['uint256', 'uint256', 'uint256', 'string'], [randomSeed, tokenId, attempt, 'origin'])
+  return Number(BigInt(hash) % BigInt(poolSize))
+}
+
+/**
+ * Weighted pick of one attempt of a token's rarity tier draw: keccak256(seed, tokenId, attempt, "tier") mod totalWeight
+ */
+export function calculateTierDrawValue(randomSeed: bigint, tokenId: number, attempt: number, totalWeight: number): number {
+  const hash = ethers.solidityPackedKeccak256(['uint256', 'uint256', 'uint256', 'string'], [randomSeed, tokenId, attempt, 'tier'])
+  return Number(BigInt(hash) % BigInt(totalWeight))
+}
+
+/**
+ * Offset of one step of the tokenURI parity sample's partial Fisher-Yates shuffle:
+ * keccak256(seed, position, "parity") mod remaining
+ */
+export function calculateParitySampleOffset(randomSeed: bigint, position: number, remaining: number): number {
+  const hash = ethers.solidityPackedKeccak256(['uint256', 'uint256', 'string'], [randomSeed, position, 'parity'])
+  return Number(BigInt(hash) % BigInt(remaining))
+}
+
+/**
+ * Pool indices a token's origin draw tries, in order: poolSize hashed attempts, then
+ * every index walking forward from the first attempt, so a free origin is always reached
+ */
+export function* originDrawSequence(randomSeed: bigint, tokenId: number, poolSize: number): Generator<{ attempt: number; index: number }> {
+  if (poolSize < 1) return
+
+  for (let attempt = 0; attempt < poolSize; attempt++) {
+    yield { attempt, index: calculateOriginDrawIndex(randomSeed, tokenId, attempt, poolSize) }
+  }
+  const first = calculateOriginDrawIndex(randomSeed, tokenId, 0, poolSize)
+  for (let step = 0; step < poolSize; step++) {
+    yield { attempt: poolSize + step, index: (first + step) % poolSize }
+  }
+}
+
+/**
+ * Commitment to the ordering of an origin pool: keccak256(abi.encodePacked(uint256[] originIds))
+ */
+export function calculateOriginPoolCommitment(originIds: number[]): string {
+  return ethers.solidityPackedKeccak256(['uint256[]'], [originIds])
 }
@@ -0,0 +1,73 @@
+import { ethers } from 'ethers'
+
+/**
+ * JSON with object keys sorted at every level and no whitespace, so equal metadata always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Leaf of an origin, double-hashed as in OpenZeppelin's StandardMerkleTree so it can't be
+ * mistaken for an inner node: keccak256(keccak256(abi.encode(uint256 originId, bytes32 metadataHash))),
+ * where metadataHash is keccak256(canonicalJson(metadata))
+ */
+export function originLeaf(originId: number, metadata: unknown): string {
+  const metadataHash = ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(metadata)))
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'bytes32'], [originId, metadataHash])
+  return ethers.keccak256(ethers.keccak256(encoded))
+}
+
+/**
+ * Sorted-pair hash, as in OpenZeppelin's MerkleProof
+ */
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? ethers.solidityPackedKeccak256(['bytes32', 'bytes32'], [a, b])
+    : ethers.solidityPackedKeccak256(['bytes32', 'bytes32'], [b, a])
+}
+
+/**
+ * Tree layers from the leaves up to the root; an odd node is carried to the next layer unchanged
+ */
+export function buildMerkleLayers(leaves: string[]): string[][] {
+  const layers = [leaves]
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1]
+    const next: string[] = []
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i])
+    }
+    layers.push(next)
+  }
+  return layers
+}
+
+export function getMerkleRoot(layers: string[][]): string {
+  return layers[layers.length - 1][0] ?? ethers.ZeroHash
+}
+
+export function getMerkleProof(layers: string[][], index: number): string[] {
+  const proof: string[] = []
+  for (let level = 0; level < layers.length - 1; level++) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1
+    if (sibling < layers[level].length) {
+      proof.push(layers[level][sibling])
+    }
+    index = Math.floor(index / 2)
+  }
+  return proof
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  return proof.reduce((node, sibling) => hashPair(node, sibling), leaf) === root
+}